@@ -1,17 +1,45 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { AppState, MonthData, ViewState, Expense, ExpenseType, User } from './types';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { AppState, MonthData, ViewState, Expense, ExpenseType, Income, IncomeType, RecurringExpense, InstallmentPurchase, CreditCard, Category, SavingsGoal, SavingsEntry, CategoryRule, MonthEvent, User, Household, SaveMonthResult } from './types';
 import { v4 as uuidv4 } from 'uuid';
-import { generateMonthId, getMonthLabel, calculateTotals, formatCurrency, calculateAccumulatedSavings, FinanceAPI } from './services/financeService';
+import { generateMonthId, getMonthLabel, calculateTotals, formatCurrency, calculateSavingsBalance, buildClosingEntry, findMissingClosingEntries, getMonthStatus, calculateIncomeByMember, calculateSettlement, buildDateInMonth, mergeRemoteMonths, applyRecurringExpenses, propagateRecurringExpense, applyInstallments, propagatePurchase, getInvoiceMonth, findBudgetAlert, buildDefaultCategories, remapCategoryInMonths, calculateSpendingByCategory, getRootCategoryName, FinanceAPI } from './services/financeService';
+import { StatementImportResult, getStatementMonthId } from './services/statementImport';
+import { applySavedMonth } from './services/monthMerge';
+import { findMatchingRule, learnRule, learnRulesFromHistory } from './services/categoryRules';
+import { Backup, BackupData, findReplacedSavingsEntries, itemsToWrite, previewRestore } from './services/backup';
+import { ExpenseSearchRow } from './services/expenseSearch';
 import { supabaseAuthService } from './services/supabaseAuthService';
-import { supabase } from './services/supabaseClient';
-import { CATEGORIES, MONTH_NAMES } from './constants';
+import { SyncQueue } from './services/syncQueue';
+import { HouseholdAPI } from './services/householdService';
+import { RealtimeSync, RealtimeSubscription, PresenceInfo, SyncedCollection } from './services/realtimeService';
+import { supabase, STORAGE_BACKEND, LOCAL_USER } from './services/supabaseClient';
+import { MONTH_NAMES, INCOME_TYPES, SPLIT_RULES, FALLBACK_CATEGORY } from './constants';
 import {
-    Button, Card, Input, Select, StatCard, FeedbackMessage, EmptyState, OnboardingBanner,
+    Button, Card, Input, Select, StatCard, FeedbackMessage, EmptyState, OnboardingBanner, UndoToast,
     PlusIcon, TrashIcon, EditIcon,
     PigIcon, CalendarIcon, WalletIcon, MoneyIcon, ShoppingBagIcon, PieChartIcon,
-    ArrowRightIcon, ArrowLeftIcon, MenuIcon, CrownIcon
+    ArrowRightIcon, ArrowLeftIcon, MenuIcon, SearchIcon, CrownIcon, UsersIcon, SwapIcon, PercentIcon, CreditCardIcon, TagIcon, TrendingUpIcon, UploadIcon, FilterIcon, DownloadIcon
 } from './components/UIComponents';
 import { AuthScreen } from './components/Auth';
+import { HouseholdSettings } from './components/HouseholdSettings';
+import { FairSplitCalculator } from './components/FairSplitCalculator';
+import { RecurringExpenses } from './components/RecurringExpenses';
+import { InstallmentPurchases } from './components/InstallmentPurchases';
+import { CreditCardInvoices } from './components/CreditCardInvoices';
+import { CategoryBudgets } from './components/CategoryBudgets';
+import { CategoryManager } from './components/CategoryManager';
+import { CategorySelect } from './components/CategorySelect';
+import { CategoryDonutChart, FixedVariableChart } from './components/Charts';
+import { Reports } from './components/Reports';
+import { MonthlyReport } from './components/MonthlyReport';
+import { ExpenseSearch } from './components/ExpenseSearch';
+import { SavingsForecast } from './components/SavingsForecast';
+import { SavingsGoals } from './components/SavingsGoals';
+import { SavingsLedger } from './components/SavingsLedger';
+import { StatementImport } from './components/StatementImport';
+import { CategoryRules } from './components/CategoryRules';
+import { DataBackup } from './components/DataBackup';
+import { SplitFields, SplitFormValues, emptySplitForm, toSplitForm, toExpenseSplit } from './components/SplitFields';
+import { ConflictResolver, ConflictResolution } from './components/ConflictResolver';
 
 
 // TODO: Replace with your actual Stripe Price ID (e.g., price_1Mc...)
@@ -29,12 +57,17 @@ function debounce<T extends (...args: any[]) => any>(
     };
 }
 
+// How long a deleted month can still be restored before it is removed from the backend
+const UNDO_DELETE_MS = 8000;
+
+// Screens where the user is changing the month (shown to the partner as "editing")
+const EDITING_VIEWS = [ViewState.INCOMES, ViewState.EXPENSES_FIXED, ViewState.EXPENSES_VARIABLE, ViewState.RECURRING, ViewState.INSTALLMENTS, ViewState.INVOICES, ViewState.CATEGORIES, ViewState.IMPORT, ViewState.RULES];
+
 // Initial State Helper
 const getInitialMonth = (date = new Date()): MonthData => ({
     id: generateMonthId(date),
     label: getMonthLabel(date),
-    salary1: 0,
-    salary2: 0,
+    incomes: [],
     expenses: [],
     closed: false,
 });
@@ -43,6 +76,10 @@ const App: React.FC = () => {
     // --- Auth State ---
     const [user, setUser] = useState<User | null>(null);
     const [authLoading, setAuthLoading] = useState(true);
+    const [household, setHousehold] = useState<Household | null>(null);
+
+    // Forms default to the logged-in partner (empty until the household is loaded)
+    const defaultMemberId = user && household?.members.some(m => m.userId === user.id) ? user.id : '';
 
     // --- App State ---
     const [months, setMonths] = useState<MonthData[]>([]);
@@ -50,24 +87,58 @@ const App: React.FC = () => {
     const [currentMonthId, setCurrentMonthId] = useState<string>('');
     const [currentView, setCurrentView] = useState<ViewState>(ViewState.MONTH_SELECTION);
     const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+    const [purchases, setPurchases] = useState<InstallmentPurchase[]>([]);
+    const [creditCards, setCreditCards] = useState<CreditCard[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [goals, setGoals] = useState<SavingsGoal[]>([]);
+    const [savingsEntries, setSavingsEntries] = useState<SavingsEntry[]>([]);
+    const [rules, setRules] = useState<CategoryRule[]>([]);
+    const [selectedCategory, setSelectedCategory] = useState<string | null>(null); // Dashboard drill-down
 
     // Month Creation Form State
     const [newMonthIndex, setNewMonthIndex] = useState(new Date().getMonth());
     const [newYear, setNewYear] = useState(new Date().getFullYear());
 
     // Expense Form State
-    const [expenseForm, setExpenseForm] = useState<{ name: string; value: string; category: string; date: string }>({
-        name: '', value: '', category: 'Outros', date: new Date().toISOString().split('T')[0]
+    const emptyExpenseForm = (): { name: string; value: string; category: string; date: string; cardId: string } & SplitFormValues => ({
+        name: '', value: '', category: FALLBACK_CATEGORY, date: new Date().toISOString().split('T')[0], cardId: '',
+        ...emptySplitForm(defaultMemberId)
     });
+    const [expenseForm, setExpenseForm] = useState(emptyExpenseForm());
 
-    // Salary Form State & UI
-    const [salaryForm, setSalaryForm] = useState({ salary1: '', salary2: '' });
+    // Income Form State & UI
+    const emptyIncomeForm = (): { name: string; value: string; type: IncomeType; memberId: string; receivedDate: string } => ({
+        name: 'Salário', value: '', type: 'salary', memberId: defaultMemberId, receivedDate: new Date().toISOString().split('T')[0]
+    });
+    const [incomeForm, setIncomeForm] = useState(emptyIncomeForm());
+    const [editingIncome, setEditingIncome] = useState<Income | null>(null);
 
     // Global Feedback State
     const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
 
     // Save Status State
-    const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+    const [pendingWrites, setPendingWrites] = useState(0); // Writes waiting in the offline outbox
+
+    // Soft-deleted month waiting for the undo window to expire
+    const [deletedMonth, setDeletedMonth] = useState<MonthData | null>(null);
+    const deleteTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const deleteQueued = useRef<Promise<void>>(Promise.resolve());
+    const deletedMonthRef = useRef<MonthData | null>(null);
+    deletedMonthRef.current = deletedMonth;
+
+    // Last version of each month known to be on the backend (the `base` of the next save).
+    // A month whose object in `months` is not its base has local edits not saved yet.
+    const baseMonths = useRef(new Map<string, MonthData>());
+    const isPersisted = (m: MonthData) => baseMonths.current.get(m.id) === m;
+
+    // Save that found concurrent changes, waiting for the user to pick versions
+    const [saveConflict, setSaveConflict] = useState<Extract<SaveMonthResult, { status: 'conflict' }> | null>(null);
+
+    // --- Realtime State ---
+    const realtime = useRef<RealtimeSubscription | null>(null);
+    const [partnersOnline, setPartnersOnline] = useState<PresenceInfo[]>([]);
 
     // Password Modal State
     const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
@@ -83,6 +154,13 @@ const App: React.FC = () => {
 
     // --- Auth Effects ---
     useEffect(() => {
+        // Local mode: no Supabase session, run as the fixed local profile
+        if (STORAGE_BACKEND === 'local') {
+            setUser(LOCAL_USER);
+            setAuthLoading(false);
+            return;
+        }
+
         // Initial Session Check
         supabaseAuthService.getSession().then(session => {
             setUser(session ? { id: session.user.id, email: session.user.email!, name: session.user.user_metadata.name } : null);
@@ -96,6 +174,7 @@ const App: React.FC = () => {
             if (!session) {
                 setMonths([]); // Clear data on logout
                 setCurrentMonthId('');
+                setHousehold(null);
             }
         });
 
@@ -114,7 +193,7 @@ const App: React.FC = () => {
 
     const handleNextOnboarding = () => {
         if (onboardingStep === 1) {
-            setCurrentView(ViewState.SALARIES);
+            setCurrentView(ViewState.INCOMES);
             setOnboardingStep(2);
         } else if (onboardingStep === 2) {
             setCurrentView(ViewState.EXPENSES_FIXED); // Or variable, or standard view
@@ -134,7 +213,7 @@ const App: React.FC = () => {
 
     const handleRestartOnboarding = () => {
         setOnboardingStep(1);
-        setCurrentView(ViewState.SALARIES);
+        setCurrentView(ViewState.INCOMES);
         localStorage.removeItem('hasSeenOnboarding');
     };
 
@@ -143,14 +222,75 @@ const App: React.FC = () => {
         // State update handled by onAuthStateChange
     };
 
+    // --- Household Resolution ---
+    // Months belong to the couple's household, resolved (or created) right after login
+    useEffect(() => {
+        if (!user) return;
+
+        setDataLoading(true);
+        HouseholdAPI.getCurrent(user)
+            .then(setHousehold)
+            .catch(error => {
+                console.error("Failed to load household", error);
+                alert("Erro ao carregar sua casa. Verifique sua conexão.");
+                setDataLoading(false);
+            });
+    }, [user]);
+
     // --- Data Loading Effect (Simulating Backend Fetch) ---
+    const householdId = household?.id;
     useEffect(() => {
-        if (!user) return; // Wait for login
+        if (!householdId) return; // Wait for login and household
 
         const loadData = async () => {
             setDataLoading(true);
             try {
-                const fetchedMonths = await FinanceAPI.getMonths(user.id);
+                const [serverMonths, templates, serverPurchases, cards, serverCategories, serverGoals, serverEntries, serverRules] = await Promise.all([
+                    FinanceAPI.getMonths(householdId),
+                    FinanceAPI.getRecurringExpenses(householdId),
+                    FinanceAPI.getPurchases(householdId),
+                    FinanceAPI.getCards(householdId),
+                    FinanceAPI.getCategories(householdId),
+                    FinanceAPI.getGoals(householdId),
+                    FinanceAPI.getSavingsEntries(householdId),
+                    FinanceAPI.getRules(householdId),
+                ]);
+                setRecurringExpenses(templates);
+                setPurchases(serverPurchases);
+                setCreditCards(cards);
+                setGoals(serverGoals);
+                setRules(serverRules);
+
+                // A new household starts with the default categories
+                if (serverCategories.length === 0) {
+                    const defaults = buildDefaultCategories();
+                    await Promise.all(defaults.map(c => FinanceAPI.saveCategory(householdId, c)));
+                    setCategories(defaults);
+                } else {
+                    setCategories(serverCategories);
+                }
+
+                // Writes still in the outbox are newer than what the server returned.
+                // Deletes held for an undo window of an earlier session can't be undone anymore.
+                const pending = await SyncQueue.getPending(householdId);
+                if (pending.some(p => p.held)) {
+                    await SyncQueue.release(householdId);
+                    if (navigator.onLine) replayOutbox(householdId);
+                }
+                const pendingSaves = new Map(pending.filter(p => p.op !== 'delete').map(p => [p.monthId, p.month]));
+                const pendingDeletes = new Set(pending.filter(p => p.op === 'delete').map(p => p.monthId));
+                const fetchedMonths = [
+                    ...serverMonths.map(m => pendingSaves.get(m.id) || m),
+                    ...[...pendingSaves.values()].filter(p => !serverMonths.some(m => m.id === p.id)),
+                ].filter(m => !pendingDeletes.has(m.id));
+                setPendingWrites(pending.length);
+                serverMonths.forEach(m => baseMonths.current.set(m.id, m));
+
+                // Months closed before the Caixinha had a ledger get their closing entry now
+                // (013_savings_ledger.sql already did it for the server; this covers local data)
+                const missingClosings = findMissingClosingEntries(householdId, fetchedMonths, serverEntries);
+                await Promise.all(missingClosings.map(e => FinanceAPI.saveSavingsEntry(householdId, e)));
+                setSavingsEntries([...serverEntries, ...missingClosings]);
 
                 if (fetchedMonths.length > 0) {
                     setMonths(fetchedMonths);
@@ -171,7 +311,7 @@ const App: React.FC = () => {
                     setCurrentMonthId(initial.id);
                     setCurrentView(ViewState.MONTH_SELECTION);
                     // Auto-save the initial state
-                    await FinanceAPI.saveMonths(user.id, [initial]);
+                    await FinanceAPI.saveMonths(householdId, [initial]);
                 }
             } catch (error) {
                 console.error("Failed to load data", error);
@@ -182,50 +322,199 @@ const App: React.FC = () => {
         };
 
         loadData();
-    }, [user]);
+    }, [householdId]);
+
+    // Applies what the backend returned for a saved month
+    const applySaveResult = useCallback((sent: MonthData, result: SaveMonthResult) => {
+        setMonths(prev => prev.map(m => {
+            // Edits made while saving stay local (and keep the old base, so they merge correctly next time)
+            const next = applySavedMonth(m, sent, result.month);
+            if (next !== m) baseMonths.current.set(next.id, next);
+            return next;
+        }));
+        if (result.status === 'conflict') setSaveConflict(result);
+    }, []);
+
+    // --- Offline Outbox Replay ---
+    const replayOutbox = useCallback(async (householdId: string) => {
+        const remaining = await SyncQueue.flush(householdId, async write => {
+            if (write.op === 'delete') return FinanceAPI.deleteMonth(householdId, write.monthId);
+            const result = await FinanceAPI.saveMonth(householdId, write.month, write.base);
+            applySaveResult(write.month, result);
+            return result.month;
+        });
+        setPendingWrites(remaining);
+        return remaining;
+    }, [applySaveResult]);
+
+    // Replay pending writes on login and whenever connectivity returns
+    useEffect(() => {
+        if (!householdId) return;
+
+        const handleOnline = () => { replayOutbox(householdId); };
+        window.addEventListener('online', handleOnline);
+        if (navigator.onLine) handleOnline();
+
+        return () => window.removeEventListener('online', handleOnline);
+    }, [householdId, replayOutbox]);
 
     // --- Optimized Data Saving with Debounce ---
-    // Debounced save function that saves only the current month
-    const debouncedSave = useCallback(
-        debounce(async (userId: string, monthData: MonthData) => {
+    // Saves one month right away.
+    // Offline or failed writes go to the outbox and are replayed in order later.
+    const saveMonthNow = useCallback(
+        async (householdId: string, monthData: MonthData) => {
             setSaveStatus('saving');
+            const base = baseMonths.current.get(monthData.id);
             try {
-                await FinanceAPI.saveMonth(userId, monthData);
-                setSaveStatus('saved');
-                setTimeout(() => setSaveStatus('idle'), 2000);
+                const hasPending = (await SyncQueue.count(householdId)) > 0;
+                if (!navigator.onLine || hasPending) {
+                    // Queue behind older writes so the replay order is preserved
+                    await SyncQueue.enqueue(householdId, monthData, 'save', base);
+                    const remaining = navigator.onLine ? await replayOutbox(householdId) : await SyncQueue.count(householdId);
+                    setPendingWrites(remaining);
+                    setSaveStatus(remaining === 0 ? 'saved' : 'idle');
+                } else {
+                    applySaveResult(monthData, await FinanceAPI.saveMonth(householdId, monthData, base));
+                    setSaveStatus('saved');
+                }
             } catch (error) {
-                setSaveStatus('error');
-                console.error('Save failed:', error);
-                setTimeout(() => setSaveStatus('idle'), 5000);
+                console.error('Save failed, keeping it in the outbox:', error);
+                await SyncQueue.enqueue(householdId, monthData, 'save', base);
+                setPendingWrites(await SyncQueue.count(householdId));
+                setSaveStatus('idle');
             }
-        }, 2000),
-        []
+            setTimeout(() => setSaveStatus(prev => prev === 'saved' ? 'idle' : prev), 2000);
+        },
+        [applySaveResult, replayOutbox]
     );
 
+    // Debounced save function that saves only the current month
+    const debouncedSave = useCallback(debounce(saveMonthNow, 2000), [saveMonthNow]);
+
     // --- Computeds ---
     const currentMonthData = useMemo(() =>
         months.find(m => m.id === currentMonthId) || getInitialMonth(),
         [months, currentMonthId]);
 
     // Trigger save only when current month changes
+    // (never for the blank fallback month, which would overwrite real data,
+    // nor for data that just came from the backend)
     useEffect(() => {
-        if (user && currentMonthData && currentMonthData.id && months.length > 0) {
-            debouncedSave(user.id, currentMonthData);
+        if (householdId && currentMonthData && currentMonthData.id && months.includes(currentMonthData) && !isPersisted(currentMonthData)) {
+            debouncedSave(householdId, currentMonthData);
         }
-    }, [currentMonthData, user, debouncedSave, months.length]);
+    }, [currentMonthData, householdId, debouncedSave, months]);
+
+    // --- Realtime Sync ---
+    // Re-fetches the months and merges them into state (edits not saved yet stay local)
+    const refreshMonths = useCallback(async (householdId: string) => {
+        const remote = await FinanceAPI.getMonths(householdId);
+        const pending = await SyncQueue.getPending(householdId);
+        const pendingDeletes = new Set(pending.filter(p => p.op === 'delete').map(p => p.monthId));
+        const softDeleted = deletedMonthRef.current?.id;
+
+        const visible = remote.filter(m => m.id !== softDeleted && !pendingDeletes.has(m.id));
+
+        setMonths(prev => {
+            const keepLocal = new Set<string>(prev.filter(m => !isPersisted(m)).map(m => m.id));
+            pending.filter(p => p.op !== 'delete').forEach(p => keepLocal.add(p.monthId));
+            const merged = mergeRemoteMonths(prev, visible, keepLocal);
+            // Months taken from the server become the base of the next save
+            merged.filter(m => !keepLocal.has(m.id)).forEach(m => baseMonths.current.set(m.id, m));
+            return merged;
+        });
+    }, []);
+
+    // Collections changed by the partner since the last refresh
+    const staleCollections = useRef(new Set<SyncedCollection>());
+
+    // Re-fetches only what a remote change touched, once the burst of changes is over
+    const refreshFromServer = useCallback(
+        debounce(async (householdId: string) => {
+            const stale = [...staleCollections.current];
+            staleCollections.current.clear();
+            const refresh: Record<SyncedCollection, () => Promise<void>> = {
+                months: () => refreshMonths(householdId),
+                recurringExpenses: async () => setRecurringExpenses(await FinanceAPI.getRecurringExpenses(householdId)),
+                purchases: async () => setPurchases(await FinanceAPI.getPurchases(householdId)),
+                cards: async () => setCreditCards(await FinanceAPI.getCards(householdId)),
+                categories: async () => setCategories(await FinanceAPI.getCategories(householdId)),
+                goals: async () => setGoals(await FinanceAPI.getGoals(householdId)),
+                savingsEntries: async () => setSavingsEntries(await FinanceAPI.getSavingsEntries(householdId)),
+                rules: async () => setRules(await FinanceAPI.getRules(householdId)),
+            };
+            try {
+                await Promise.all(stale.map(collection => refresh[collection]()));
+            } catch (error) {
+                console.error('Failed to refresh after remote change:', error);
+            }
+        }, 800),
+        [refreshMonths]
+    );
+
+    const handleRemoteChange = useCallback((householdId: string, collection: SyncedCollection) => {
+        staleCollections.current.add(collection);
+        refreshFromServer(householdId);
+    }, [refreshFromServer]);
 
-    // Sync Salary Form when Data Changes
     useEffect(() => {
-        if (currentMonthId) {
-            const m = months.find(m => m.id === currentMonthId);
-            if (m) {
-                setSalaryForm({
-                    salary1: m.salary1 > 0 ? m.salary1.toString() : '',
-                    salary2: m.salary2 > 0 ? m.salary2.toString() : ''
-                });
+        if (!householdId || !user) return;
+
+        realtime.current = RealtimeSync.subscribe(
+            householdId,
+            { userId: user.id, name: user.name, monthId: '', editing: false },
+            {
+                onRemoteChange: collection => handleRemoteChange(householdId, collection),
+                onPresenceChange: setPartnersOnline,
             }
+        );
+
+        return () => {
+            realtime.current?.unsubscribe();
+            realtime.current = null;
+            setPartnersOnline([]);
+        };
+    }, [householdId, user, handleRemoteChange]);
+
+    // Tell the partner which month we are on
+    useEffect(() => {
+        if (!user) return;
+        realtime.current?.updatePresence({
+            userId: user.id,
+            name: user.name,
+            monthId: currentView === ViewState.MONTH_SELECTION ? '' : currentMonthId,
+            editing: EDITING_VIEWS.includes(currentView),
+        });
+    }, [user, currentMonthId, currentView, householdId]);
+
+    // The open month may have been deleted in another session
+    useEffect(() => {
+        if (currentMonthId && months.length > 0 && !months.some(m => m.id === currentMonthId)) {
+            setCurrentMonthId('');
+            setCurrentView(ViewState.MONTH_SELECTION);
         }
-    }, [currentMonthId, months]);
+    }, [months, currentMonthId]);
+
+    const partnersEditingHere = partnersOnline.filter(p => p.editing && p.monthId === currentMonthId);
+
+    // Forms opened before the household loaded get the logged-in partner as default
+    useEffect(() => {
+        if (!defaultMemberId) return;
+        setIncomeForm(prev => prev.memberId ? prev : { ...prev, memberId: defaultMemberId });
+        setExpenseForm(prev => prev.paidBy ? prev : { ...prev, paidBy: defaultMemberId, splitMemberId: prev.splitMemberId || defaultMemberId });
+    }, [defaultMemberId]);
+
+    const categoryOf = (name: string): Category | undefined => categories.find(c => c.name === name);
+
+    const memberName = (memberId: string | null) =>
+        household?.members.find(m => m.userId === memberId)?.name || 'Sem pessoa';
+
+    const describeSplit = (expense: Expense) => {
+        const split = expense.split || { rule: 'equal' };
+        if (split.rule === 'custom') return `${split.percentage ?? 50}% para quem pagou`;
+        if (split.rule === 'single') return `100% ${memberName(split.memberId || null)}`;
+        return SPLIT_RULES.find(r => r.value === split.rule)?.label;
+    };
 
     // Reset UI state on navigation
     useEffect(() => {
@@ -236,14 +525,54 @@ const App: React.FC = () => {
 
     const totals = useMemo(() => calculateTotals(currentMonthData), [currentMonthData]);
 
-    const totalSavings = useMemo(() => calculateAccumulatedSavings(months), [months]);
+    const spendingByCategory = useMemo(() => calculateSpendingByCategory(currentMonthData, categories), [currentMonthData, categories]);
+
+    useEffect(() => {
+        setSelectedCategory(null);
+    }, [currentMonthId]);
+
+    const totalSavings = useMemo(() => calculateSavingsBalance(savingsEntries), [savingsEntries]);
+
+    const backupData: BackupData = useMemo(() => ({
+        months, recurringExpenses, purchases, cards: creditCards, categories, goals, savingsEntries, rules
+    }), [months, recurringExpenses, purchases, creditCards, categories, goals, savingsEntries, rules]);
 
     // --- Handlers ---
 
+    const labelOfMonthId = (monthId: string) => {
+        const [year, month] = monthId.split('-').map(Number);
+        return getMonthLabel(new Date(year, month - 1, 1));
+    };
+
+    // A brand new month, prefilled the same way whether the user opens it or an expense lands in it
+    const buildNewMonth = (newId: string): MonthData => {
+        // Latest month before this new one (salaries are carried over from it)
+        const sortedMonths = [...months].sort((a, b) => a.id.localeCompare(b.id));
+        const previousMonth = sortedMonths.reverse().find(m => m.id < newId);
+
+        // Salaries repeat every month; extras and benefits are entered as they come
+        const carriedIncomes: Income[] = (previousMonth?.incomes || [])
+            .filter(i => i.type === 'salary')
+            .map(i => ({
+                ...i,
+                id: uuidv4(),
+                version: undefined,
+                receivedDate: buildDateInMonth(newId, Number(i.receivedDate.split('-')[2]) || 1)
+            }));
+
+        // Fixed expenses come from the recurring templates due in this month, plus running installments
+        return applyInstallments(applyRecurringExpenses({
+            id: newId,
+            label: labelOfMonthId(newId),
+            incomes: carriedIncomes,
+            expenses: [],
+            closed: false,
+            budgets: (previousMonth?.budgets || []).filter(b => b.carryOver)
+        }, recurringExpenses), purchases);
+    };
+
     const handleCreateSpecificMonth = () => {
-        const date = new Date(newYear, newMonthIndex, 1);
-        const newId = generateMonthId(date);
-        const label = getMonthLabel(date);
+        const newId = generateMonthId(new Date(newYear, newMonthIndex, 1));
 
         // Check if exists
         const existing = months.find(m => m.id === newId);
@@ -253,39 +582,7 @@ const App: React.FC = () => {
             return;
         }
 
-        // Check for previous month data to import
-        // Find the latest month before this new one
-        const sortedMonths = [...months].sort((a, b) => a.id.localeCompare(b.id));
-        const previousMonth = sortedMonths.reverse().find(m => m.id < newId);
-
-        let importedExpenses: Expense[] = [];
-        if (previousMonth) {
-            if (window.confirm(`Deseja importar as despesas fixas de ${previousMonth.label}?`)) {
-                const currentYear = date.getFullYear();
-                const currentMonth = date.getMonth() + 1;
-
-                importedExpenses = previousMonth.expenses
-                    .filter(e => e.type === 'fixed')
-                    .map(e => {
-                        const day = e.date.split('-')[2] || '01';
-                        return {
-                            ...e,
-                            id: uuidv4(),
-                            date: `${currentYear}-${String(currentMonth).padStart(2, '0')}-${day}`
-                        };
-                    });
-            }
-        }
-
-        const newMonthData: MonthData = {
-            id: newId,
-            label: label,
-            salary1: previousMonth ? previousMonth.salary1 : 0,
-            salary2: previousMonth ? previousMonth.salary2 : 0,
-            expenses: importedExpenses,
-            closed: false
-        };
-
+        const newMonthData = buildNewMonth(newId);
         setMonths(prev => [...prev, newMonthData]);
         setCurrentMonthId(newId);
         setCurrentView(ViewState.DASHBOARD);
@@ -296,13 +593,46 @@ const App: React.FC = () => {
         setCurrentView(ViewState.DASHBOARD);
     }
 
+    // A search result opens the expense list of its month
+    const handleOpenSearchResult = (row: ExpenseSearchRow) => {
+        setCurrentMonthId(row.monthId);
+        setCurrentView(row.expense.type === 'fixed' ? ViewState.EXPENSES_FIXED : ViewState.EXPENSES_VARIABLE);
+    };
+
+    // Removes the month from the backend (cascade deletes its expenses) once it can no longer be undone.
+    // The delete already waits in the outbox, so offline or failed deletions are replayed like any other write.
+    const commitDeleteMonth = async (month: MonthData) => {
+        if (!householdId) return;
+        try {
+            await SyncQueue.release(householdId, month.id);
+            setPendingWrites(navigator.onLine ? await replayOutbox(householdId) : await SyncQueue.count(householdId));
+        } catch (error) {
+            console.error('Failed to send month delete:', error);
+        }
+    };
+
     const handleDeleteMonth = (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
-        if (window.confirm("Tem certeza que deseja excluir este mês e todos os seus dados permanentemente?")) {
-            setMonths(prev => {
-                const updated = prev.filter(m => m.id !== id);
-                return updated;
-            });
+        const month = months.find(m => m.id === id);
+        if (!month || !ensureMonthOpen(month) || !householdId) return;
+
+        if (window.confirm(`Excluir ${month.label} e todas as suas despesas? Você poderá desfazer por alguns segundos.`)) {
+            // Only one month waits in the undo window at a time
+            if (deleteTimer.current && deletedMonth) {
+                clearTimeout(deleteTimer.current);
+                commitDeleteMonth(deletedMonth);
+            }
+
+            // Stored right away (held for the undo window), so reloading the page doesn't bring the month back
+            deleteQueued.current = SyncQueue.holdDelete(householdId, month)
+                .catch(error => console.error('Failed to queue month delete:', error));
+            setMonths(prev => prev.filter(m => m.id !== id));
+            setDeletedMonth(month);
+            deleteTimer.current = setTimeout(() => {
+                deleteTimer.current = null;
+                setDeletedMonth(null);
+                commitDeleteMonth(month);
+            }, UNDO_DELETE_MS);
 
             if (currentMonthId === id) {
                 setCurrentMonthId('');
@@ -311,12 +641,56 @@ const App: React.FC = () => {
         }
     };
 
+    // Applies the versions picked in the conflict dialog; picked local versions are saved again
+    const handleResolveConflict = (resolution: ConflictResolution) => {
+        if (!saveConflict) return;
+        const conflict = saveConflict;
+        setSaveConflict(null);
+
+        setMonths(prev => prev.map(m => {
+            if (m.id !== conflict.month.id) return m;
+            // Picked local versions replace (or remove) the item in the merged server state
+            const applyLocal = <T extends { id: string }>(items: T[], conflicts: { id: string; local: T | null }[], choices: Record<string, string>) =>
+                conflicts
+                    .filter(c => choices[c.id] === 'local')
+                    .reduce((list, c) => {
+                        const rest = list.filter(i => i.id !== c.id);
+                        return c.local ? [...rest, c.local] : rest;
+                    }, items);
+            const expenses = applyLocal(m.expenses, conflict.expenses, resolution.expenses);
+            const incomes = applyLocal(m.incomes, conflict.incomes, resolution.incomes);
+            const fields = conflict.monthFields && resolution.monthFields === 'local' ? conflict.monthFields.local : {};
+            return { ...m, ...fields, incomes, expenses };
+        }));
+        showFeedback("Conflito resolvido.");
+    };
+
+    const handleUndoDeleteMonth = async () => {
+        if (!deletedMonth || !householdId) return;
+        if (deleteTimer.current) clearTimeout(deleteTimer.current);
+        deleteTimer.current = null;
+
+        const restored = deletedMonth;
+        setMonths(prev => prev.some(m => m.id === restored.id) ? prev : [...prev, restored]);
+        setDeletedMonth(null);
+        showFeedback(`${restored.label} foi restaurado.`);
+
+        try {
+            await deleteQueued.current;
+            await SyncQueue.cancel(householdId, restored.id);
+            // The delete replaced any save of the month still in the outbox
+            if (!isPersisted(restored)) await SyncQueue.enqueue(householdId, restored, 'save', baseMonths.current.get(restored.id));
+        } catch (error) {
+            console.error('Failed to undo month delete:', error);
+        }
+    };
+
     const handleResetMonth = () => {
-        if (window.confirm("ATENÇÃO: Isso apagará todos os salários e despesas deste mês. Deseja continuar?")) {
+        if (!ensureMonthOpen(currentMonthData)) return;
+        if (window.confirm("ATENÇÃO: Isso apagará todas as rendas e despesas deste mês. Deseja continuar?")) {
             updateCurrentMonth(m => ({
                 ...m,
-                salary1: 0,
-                salary2: 0,
+                incomes: [],
                 expenses: [],
                 closed: false
             }));
@@ -327,62 +701,192 @@ const App: React.FC = () => {
         setMonths(prev => prev.map(m => m.id === currentMonthId ? updater(m) : m));
     };
 
-    const handleSalaryChange = (field: 'salary1' | 'salary2', value: string) => {
-        setSalaryForm(prev => ({ ...prev, [field]: value }));
-        setFeedback(null);
+    // Closed months are history: nothing changes in them until they are reopened
+    const ensureMonthOpen = (month: MonthData): boolean => {
+        if (!month.closed) return true;
+        alert(`${month.label} está fechado. Reabra o mês para fazer alterações.`);
+        return false;
+    };
+
+    const resetIncomeForm = () => {
+        setEditingIncome(null);
+        setIncomeForm(emptyIncomeForm());
+    };
+
+    const incomeFromForm = (): Omit<Income, 'id'> => ({
+        name: incomeForm.name.trim(),
+        value: Number(incomeForm.value) || 0,
+        type: incomeForm.type,
+        memberId: incomeForm.memberId || null,
+        receivedDate: incomeForm.receivedDate
+    });
+
+    const handleAddIncome = () => {
+        if (!incomeForm.name.trim() || !incomeForm.value || !ensureMonthOpen(currentMonthData)) return;
+
+        const newIncome: Income = { id: uuidv4(), ...incomeFromForm() };
+        updateCurrentMonth(m => ({ ...m, incomes: [...m.incomes, newIncome] }));
+
+        resetIncomeForm();
+        showFeedback("Renda adicionada com sucesso!");
     };
 
-    const handleSaveSalaries = () => {
+    const handleUpdateIncome = () => {
+        if (!editingIncome || !incomeForm.name.trim() || !incomeForm.value || !ensureMonthOpen(currentMonthData)) return;
+
         updateCurrentMonth(m => ({
             ...m,
-            salary1: Number(salaryForm.salary1) || 0,
-            salary2: Number(salaryForm.salary2) || 0
+            incomes: m.incomes.map(i => i.id === editingIncome.id ? { ...i, ...incomeFromForm() } : i)
         }));
-        showFeedback("Salários salvos com sucesso!");
+
+        resetIncomeForm();
+        showFeedback("Renda atualizada com sucesso!");
+    };
+
+    const handleDeleteIncome = (id: string) => {
+        if (!ensureMonthOpen(currentMonthData)) return;
+        if (window.confirm('Tem certeza?')) {
+            updateCurrentMonth(m => ({ ...m, incomes: m.incomes.filter(i => i.id !== id) }));
+            showFeedback("Renda removida.", "danger");
+        }
+    };
+
+    const handleEditIncomeClick = (income: Income) => {
+        setEditingIncome(income);
+        setIncomeForm({
+            name: income.name,
+            value: income.value.toString(),
+            type: income.type,
+            memberId: income.memberId || '',
+            receivedDate: income.receivedDate
+        });
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    // Card purchases belong to the month their invoice is due; everything else to the open month
+    const expenseMonthId = (expense: Expense): string => {
+        const card = creditCards.find(c => c.id === expense.cardId);
+        return card ? getInvoiceMonth(card, expense.date) : currentMonthId;
+    };
+
+    // Month an expense goes into, built on the fly if it does not exist yet
+    const getOrBuildMonth = (monthId: string): MonthData =>
+        months.find(m => m.id === monthId) || buildNewMonth(monthId);
+
+    // Writes the new version of the month an expense went into
+    const saveExpenseMonth = (updated: MonthData) => {
+        if (updated.id === currentMonthId) {
+            updateCurrentMonth(m => ({ ...m, expenses: updated.expenses }));
+            return;
+        }
+        replaceMonths([updated]);
+    };
+
+    const invoiceFeedback = (monthId: string) => `Despesa lançada na fatura de ${labelOfMonthId(monthId)}.`;
+
+    // Adds the budget warning (if the expense crossed 80% or 100% of its category) to a feedback message
+    const withBudgetAlert = (message: string, before: MonthData, after: MonthData, category: string) => {
+        const alert = findBudgetAlert(before, after, category, categories);
+        if (!alert) {
+            showFeedback(message);
+            return;
+        }
+        const usage = `${formatCurrency(alert.spent)} de ${formatCurrency(alert.limit)}`;
+        showFeedback(alert.level === 'over'
+            ? `${message} Atenção: ${alert.category} estourou o orçamento (${usage}).`
+            : `${message} Atenção: ${alert.category} já usou ${Math.round(alert.percentage)}% do orçamento (${usage}).`,
+            'danger');
     };
 
     const handleAddExpense = (type: ExpenseType) => {
         if (!expenseForm.name || !expenseForm.value) return;
 
+        // A category left on the fallback is filled in by the matching rule, if any, and so is
+        // the type when the rule sets one (a fixed expense is never charged to a card)
+        const rule = expenseForm.category === FALLBACK_CATEGORY
+            ? findMatchingRule(rules, expenseForm.name, Number(expenseForm.value))
+            : undefined;
+        const expenseType = rule?.type || type;
         const newExpense: Expense = {
             id: uuidv4(),
             name: expenseForm.name,
             value: Number(expenseForm.value),
-            category: expenseForm.category,
+            category: rule ? rule.category : expenseForm.category,
             date: expenseForm.date,
-            type
+            type: expenseType,
+            paidBy: expenseForm.paidBy || null,
+            split: toExpenseSplit(expenseForm),
+            cardId: expenseType === 'variable' && expenseForm.cardId ? expenseForm.cardId : undefined
         };
 
-        updateCurrentMonth(m => ({
-            ...m,
-            expenses: [...m.expenses, newExpense]
-        }));
+        const target = getOrBuildMonth(expenseMonthId(newExpense));
+        if (!ensureMonthOpen(target)) return;
+        const updated = { ...target, expenses: [...target.expenses, newExpense] };
+        saveExpenseMonth(updated);
+        if (!rule) learnFromExpenses([newExpense]);
 
-        setExpenseForm({ name: '', value: '', category: 'Outros', date: new Date().toISOString().split('T')[0] });
+        setExpenseForm(emptyExpenseForm());
         setEditingExpense(null);
-        showFeedback("Despesa adicionada com sucesso!");
+        const message = target.id === currentMonthId ? "Despesa adicionada com sucesso!" : invoiceFeedback(target.id);
+        const ruleNote = rule && `Categoria: ${rule.category}${expenseType !== type ? `, lançada como ${expenseType === 'fixed' ? 'fixa' : 'variável'}` : ''} (regra).`;
+        withBudgetAlert(ruleNote ? `${message} ${ruleNote}` : message, target, updated, newExpense.category);
     };
 
     const handleUpdateExpense = () => {
-        if (!editingExpense || !expenseForm.name || !expenseForm.value) return;
+        if (!editingExpense || !expenseForm.name || !expenseForm.value || !ensureMonthOpen(currentMonthData)) return;
 
-        updateCurrentMonth(m => ({
-            ...m,
-            expenses: m.expenses.map(e => e.id === editingExpense.id ? {
-                ...e,
-                name: expenseForm.name,
-                value: Number(expenseForm.value),
-                category: expenseForm.category,
-                date: expenseForm.date
-            } : e)
-        }));
+        const updatedExpense: Expense = {
+            ...editingExpense,
+            name: expenseForm.name,
+            value: Number(expenseForm.value),
+            category: expenseForm.category,
+            date: expenseForm.date,
+            paidBy: expenseForm.paidBy || null,
+            split: toExpenseSplit(expenseForm),
+            cardId: editingExpense.type === 'variable' && expenseForm.cardId ? expenseForm.cardId : undefined
+        };
+
+        // Changing the card or the date can move the expense to another invoice
+        const target = getOrBuildMonth(expenseMonthId(updatedExpense));
+        if (!ensureMonthOpen(target)) return;
+        let updated: MonthData;
+        if (target.id === currentMonthId) {
+            updated = { ...target, expenses: target.expenses.map(e => e.id === editingExpense.id ? updatedExpense : e) };
+        } else {
+            updateCurrentMonth(m => ({ ...m, expenses: m.expenses.filter(e => e.id !== editingExpense.id) }));
+            updated = { ...target, expenses: [...target.expenses, updatedExpense] };
+        }
+        saveExpenseMonth(updated);
+        if (updatedExpense.category !== editingExpense.category) learnFromExpenses([updatedExpense]);
 
         setEditingExpense(null);
-        setExpenseForm({ name: '', value: '', category: 'Outros', date: new Date().toISOString().split('T')[0] });
-        showFeedback("Despesa atualizada com sucesso!");
+        setExpenseForm(emptyExpenseForm());
+        withBudgetAlert(target.id === currentMonthId ? "Despesa atualizada com sucesso!" : invoiceFeedback(target.id), target, updated, updatedExpense.category);
+    };
+
+    // Imported statement rows go into the month of their date (or of their card invoice)
+    const handleImportExpenses = (imported: Expense[]): StatementImportResult => {
+        const byMonth = new Map<string, Expense[]>();
+        imported.forEach(e => {
+            const monthId = getStatementMonthId(e.date, creditCards.find(c => c.id === e.cardId));
+            byMonth.set(monthId, [...(byMonth.get(monthId) || []), e]);
+        });
+        // A month closed after the preview was built keeps its expenses as they are
+        const saved: Expense[] = [];
+        let monthsWithExpenses = 0;
+        byMonth.forEach((expenses, monthId) => {
+            const target = getOrBuildMonth(monthId);
+            if (target.closed) return;
+            saveExpenseMonth({ ...target, expenses: [...target.expenses, ...expenses] });
+            saved.push(...expenses);
+            monthsWithExpenses++;
+        });
+        learnFromExpenses(saved);
+        return { imported: saved.length, months: monthsWithExpenses, skippedClosed: imported.length - saved.length };
     };
 
     const handleDeleteExpense = (id: string) => {
+        if (!ensureMonthOpen(currentMonthData)) return;
         if (window.confirm('Tem certeza?')) {
             updateCurrentMonth(m => ({
                 ...m,
@@ -397,59 +901,337 @@ const App: React.FC = () => {
         setExpenseForm({
             name: expense.name,
             value: expense.value.toString(),
-            category: expense.category || 'Outros',
-            date: expense.date || new Date().toISOString().split('T')[0]
+            category: expense.category || FALLBACK_CATEGORY,
+            date: expense.date || new Date().toISOString().split('T')[0],
+            cardId: expense.cardId || '',
+            ...toSplitForm(expense.paidBy, expense.split, defaultMemberId)
         });
         // Scroll to top of form area
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
-    const handleImportFixedExpenses = () => {
-        // Logic to find previous month relative to current
-        const sortedMonths = [...months].sort((a, b) => a.id.localeCompare(b.id));
-        const currentIndex = sortedMonths.findIndex(m => m.id === currentMonthId);
+    // Months changed outside of the current one (e.g. by a template) are saved right away
+    const replaceMonths = (changed: MonthData[]) => {
+        if (changed.length === 0 || !householdId) return;
+        setMonths(prev => [
+            ...prev.map(m => changed.find(c => c.id === m.id) || m),
+            ...changed.filter(c => !prev.some(m => m.id === c.id))
+        ]);
+        changed.filter(m => m.id !== currentMonthId).forEach(m => saveMonthNow(householdId, m));
+    };
 
-        if (currentIndex <= 0) {
-            alert("Não há mês anterior registrado para importar.");
+    const handleApplyRecurring = () => {
+        if (!ensureMonthOpen(currentMonthData)) return;
+        const updated = applyRecurringExpenses(currentMonthData, recurringExpenses);
+        const added = updated.expenses.length - currentMonthData.expenses.length;
+        if (added === 0) {
+            alert("Todas as recorrentes deste mês já foram lançadas.");
             return;
         }
+        updateCurrentMonth(() => updated);
+        showFeedback(`${added} ${added === 1 ? 'despesa recorrente lançada' : 'despesas recorrentes lançadas'}!`);
+    };
 
-        const prevMonth = sortedMonths[currentIndex - 1];
-        const fixedExpensesToImport = prevMonth.expenses.filter(e => e.type === 'fixed');
+    const handleSaveRecurring = async (template: RecurringExpense, propagate: boolean) => {
+        if (!householdId) return;
+        await FinanceAPI.saveRecurringExpense(householdId, template);
+        setRecurringExpenses(prev => prev.some(t => t.id === template.id)
+            ? prev.map(t => t.id === template.id ? template : t)
+            : [...prev, template]);
+        if (propagate) replaceMonths(propagateRecurringExpense(months, template.id, template, generateMonthId(new Date())));
+    };
 
-        if (fixedExpensesToImport.length === 0) {
-            alert(`O mês de ${prevMonth.label} não possui despesas fixas.`);
-            return;
-        }
+    const handleDeleteRecurring = async (template: RecurringExpense, propagate: boolean) => {
+        if (!householdId) return;
+        await FinanceAPI.deleteRecurringExpense(householdId, template.id);
+        setRecurringExpenses(prev => prev.filter(t => t.id !== template.id));
+        if (propagate) replaceMonths(propagateRecurringExpense(months, template.id, null, generateMonthId(new Date())));
+    };
 
-        if (window.confirm(`Deseja importar ${fixedExpensesToImport.length} despesas fixas de ${prevMonth.label}?`)) {
-            const currentYear = parseInt(currentMonthData.id.split('-')[0]);
-            const currentMonth = parseInt(currentMonthData.id.split('-')[1]);
-
-            const newExpenses = fixedExpensesToImport.map(e => {
-                const day = e.date.split('-')[2] || '01';
-                return {
-                    ...e,
-                    id: uuidv4(),
-                    date: `${currentYear}-${String(currentMonth).padStart(2, '0')}-${day}`
-                };
-            });
+    const handleSavePurchase = async (purchase: InstallmentPurchase) => {
+        if (!householdId) return;
+        const isNew = !purchases.some(p => p.id === purchase.id);
+        await FinanceAPI.savePurchase(householdId, purchase);
+        setPurchases(prev => isNew ? [...prev, purchase] : prev.map(p => p.id === purchase.id ? purchase : p));
+        // A new purchase fills every open month it spans; an edit only touches the remaining installments
+        const fromMonthId = isNew ? purchase.firstMonth : generateMonthId(new Date());
+        replaceMonths(propagatePurchase(months, purchase.id, purchase, fromMonthId));
+    };
+
+    const handleCancelPurchase = async (purchase: InstallmentPurchase) => {
+        const thisMonth = generateMonthId(new Date());
+        await handleSavePurchase({ ...purchase, cancelledFrom: purchase.firstMonth > thisMonth ? purchase.firstMonth : thisMonth });
+    };
+
+    const handleSaveCard = async (card: CreditCard) => {
+        if (!householdId) return;
+        await FinanceAPI.saveCard(householdId, card);
+        setCreditCards(prev => prev.some(c => c.id === card.id)
+            ? prev.map(c => c.id === card.id ? card : c)
+            : [...prev, card]);
+    };
+
+    const handleDeleteCard = async (card: CreditCard) => {
+        if (!householdId) return;
+        await FinanceAPI.deleteCard(householdId, card.id);
+        setCreditCards(prev => prev.filter(c => c.id !== card.id));
+    };
+
+    const handleSaveGoal = async (goal: SavingsGoal) => {
+        if (!householdId) return;
+        await FinanceAPI.saveGoal(householdId, goal);
+        setGoals(prev => prev.some(g => g.id === goal.id)
+            ? prev.map(g => g.id === goal.id ? goal : g)
+            : [...prev, goal]);
+    };
+
+    const handleDeleteGoal = async (goal: SavingsGoal) => {
+        if (!householdId) return;
+        await FinanceAPI.deleteGoal(householdId, goal.id);
+        setGoals(prev => prev.filter(g => g.id !== goal.id));
+    };
+
+    const handleSaveSavingsEntry = async (entry: SavingsEntry) => {
+        if (!householdId) return;
+        await FinanceAPI.saveSavingsEntry(householdId, entry);
+        setSavingsEntries(prev => prev.some(e => e.id === entry.id)
+            ? prev.map(e => e.id === entry.id ? entry : e)
+            : [...prev, entry]);
+    };
+
+    const handleDeleteSavingsEntry = async (entry: SavingsEntry) => {
+        if (!householdId) return;
+        await FinanceAPI.deleteSavingsEntry(householdId, entry.id);
+        setSavingsEntries(prev => prev.filter(e => e.id !== entry.id));
+    };
+
+    const handleSaveRule = async (rule: CategoryRule) => {
+        if (!householdId) return;
+        await FinanceAPI.saveRule(householdId, rule);
+        setRules(prev => prev.some(r => r.id === rule.id)
+            ? prev.map(r => r.id === rule.id ? rule : r)
+            : [...prev, rule]);
+    };
+
+    const handleDeleteRule = async (rule: CategoryRule) => {
+        if (!householdId) return;
+        await FinanceAPI.deleteRule(householdId, rule.id);
+        setRules(prev => prev.filter(r => r.id !== rule.id));
+    };
+
+    // Categories picked by hand become learned rules; each expense sees the rules learned before it
+    const learnFromExpenses = (expenses: Expense[]) => {
+        if (!householdId) return;
+        let known = rules;
+        const learned = new Map<string, CategoryRule>();
+        expenses.forEach(expense => {
+            const rule = learnRule(known, expense);
+            if (!rule) return;
+            learned.set(rule.id, rule);
+            known = [...known.filter(r => r.id !== rule.id), rule];
+        });
+        if (learned.size === 0) return;
+        setRules(prev => [...prev.filter(r => !learned.has(r.id)), ...learned.values()]);
+        learned.forEach(rule => FinanceAPI.saveRule(householdId, rule)
+            .catch(err => console.error("Error saving learned rule:", err)));
+    };
+
+    const handleLearnRules = async () => {
+        if (!householdId) return 0;
+        const learned = learnRulesFromHistory(months, rules);
+        await Promise.all(learned.map(r => FinanceAPI.saveRule(householdId, r)));
+        setRules(prev => [...prev, ...learned]);
+        return learned.length;
+    };
+
+    // Writes what the backup adds or changes; months go through the usual save so the merge still applies
+    const handleRestoreBackup = async (backup: Backup) => {
+        if (!householdId) return;
+        const preview = previewRestore(backupData, backup);
+        const merge = <T extends { id: string }>(prev: T[], restored: T[]) => [
+            ...prev.map(item => restored.find(r => r.id === item.id) || item),
+            ...restored.filter(r => !prev.some(item => item.id === r.id))
+        ];
+
+        const restoredCategories = itemsToWrite(preview.categories);
+        const restoredCards = itemsToWrite(preview.cards);
+        const restoredTemplates = itemsToWrite(preview.recurringExpenses);
+        const restoredPurchases = itemsToWrite(preview.purchases);
+        const restoredGoals = itemsToWrite(preview.goals);
+        const restoredEntries = itemsToWrite(preview.savingsEntries);
+        const restoredRules = itemsToWrite(preview.rules);
+        const replacedEntries = findReplacedSavingsEntries(savingsEntries, backup);
+        // A month has one closing entry, so the replaced ones go before the restored ones are written
+        await Promise.all(replacedEntries.map(e => FinanceAPI.deleteSavingsEntry(householdId, e.id)));
+        await Promise.all([
+            ...restoredCategories.map(c => FinanceAPI.saveCategory(householdId, c)),
+            ...restoredCards.map(c => FinanceAPI.saveCard(householdId, c)),
+            ...restoredTemplates.map(t => FinanceAPI.saveRecurringExpense(householdId, t)),
+            ...restoredPurchases.map(p => FinanceAPI.savePurchase(householdId, p)),
+            ...restoredGoals.map(g => FinanceAPI.saveGoal(householdId, g)),
+            ...restoredEntries.map(e => FinanceAPI.saveSavingsEntry(householdId, e)),
+            ...restoredRules.map(r => FinanceAPI.saveRule(householdId, r)),
+        ]);
+        setCategories(prev => merge(prev, restoredCategories));
+        setCreditCards(prev => merge(prev, restoredCards));
+        setRecurringExpenses(prev => merge(prev, restoredTemplates));
+        setPurchases(prev => merge(prev, restoredPurchases));
+        setGoals(prev => merge(prev, restoredGoals));
+        setSavingsEntries(prev => merge(prev.filter(e => !replacedEntries.includes(e)), restoredEntries));
+        setRules(prev => merge(prev, restoredRules));
+
+        replaceMonths(itemsToWrite(preview.months));
+    };
+
+    // Points every month, template, purchase and rule that uses category `from` at `to`
+    const remapCategory = async (from: string, to: string) => {
+        if (!householdId) return;
+        replaceMonths(remapCategoryInMonths(months, from, to));
+
+        const templates = recurringExpenses.filter(t => t.category === from).map(t => ({ ...t, category: to }));
+        await Promise.all(templates.map(t => FinanceAPI.saveRecurringExpense(householdId, t)));
+        setRecurringExpenses(prev => prev.map(t => templates.find(u => u.id === t.id) || t));
+
+        const remappedPurchases = purchases.filter(p => p.category === from).map(p => ({ ...p, category: to }));
+        await Promise.all(remappedPurchases.map(p => FinanceAPI.savePurchase(householdId, p)));
+        setPurchases(prev => prev.map(p => remappedPurchases.find(u => u.id === p.id) || p));
 
+        const remappedRules = rules.filter(r => r.category === from).map(r => ({ ...r, category: to }));
+        await Promise.all(remappedRules.map(r => FinanceAPI.saveRule(householdId, r)));
+        setRules(prev => prev.map(r => remappedRules.find(u => u.id === r.id) || r));
+    };
+
+    const handleSaveCategory = async (category: Category) => {
+        if (!householdId) return;
+        const previous = categories.find(c => c.id === category.id);
+        await FinanceAPI.saveCategory(householdId, category);
+        setCategories(prev => previous ? prev.map(c => c.id === category.id ? category : c) : [...prev, category]);
+        if (previous && previous.name !== category.name) await remapCategory(previous.name, category.name);
+    };
+
+    const handleMergeCategory = async (source: Category, target: Category) => {
+        if (!householdId) return;
+        await remapCategory(source.name, target.name);
+
+        // Subcategories of the merged category move under the target (or its parent, one level only)
+        const newParentId = target.parentId || target.id;
+        const children = categories
+            .filter(c => c.parentId === source.id && c.id !== target.id)
+            .map(c => ({ ...c, parentId: newParentId }));
+        await Promise.all(children.map(c => FinanceAPI.saveCategory(householdId, c)));
+        await FinanceAPI.deleteCategory(householdId, source.id);
+        setCategories(prev => prev
+            .filter(c => c.id !== source.id)
+            .map(c => children.find(u => u.id === c.id) || c));
+    };
+
+    // Turns a fixed expense typed by hand into a monthly template starting in the current month
+    const handleMakeRecurring = async (expense: Expense) => {
+        if (!householdId || !ensureMonthOpen(currentMonthData)) return;
+        const template: RecurringExpense = {
+            id: uuidv4(),
+            name: expense.name,
+            value: expense.value,
+            category: expense.category,
+            frequency: 'monthly',
+            dueDay: Number(expense.date.split('-')[2]) || 1,
+            startMonth: currentMonthData.id,
+            endMonth: null,
+            paidBy: expense.paidBy ?? null,
+            split: expense.split
+        };
+        try {
+            await handleSaveRecurring(template, false);
             updateCurrentMonth(m => ({
                 ...m,
-                expenses: [...m.expenses, ...newExpenses]
+                expenses: m.expenses.map(e => e.id === expense.id ? { ...e, recurringId: template.id } : e)
             }));
-            showFeedback(`${newExpenses.length} despesas importadas com sucesso!`);
+            showFeedback(`"${expense.name}" agora se repete todo mês.`);
+        } catch (error) {
+            console.error("Failed to create recurring expense", error);
+            showFeedback("Não foi possível criar a recorrente.", "danger");
         }
     };
 
-    const handleCloseMonth = () => {
-        if (totals.balance <= 0) {
-            alert("Apenas saldos positivos podem ser enviados para a caixinha.");
+    const monthEvent = (action: MonthEvent['action']): MonthEvent => ({
+        action,
+        at: new Date().toISOString(),
+        by: user?.id || null,
+        balance: totals.balance
+    });
+
+    // Sends the balance to the Caixinha (or draws the deficit from it) and locks the month
+    const handleCloseMonth = async () => {
+        if (!householdId) return;
+        if (totals.balance < 0) {
+            const deficit = -totals.balance;
+            if (deficit > totalSavings) {
+                alert(`O déficit de ${formatCurrency(deficit)} é maior que o saldo da Caixinha (${formatCurrency(totalSavings)}).`);
+                return;
+            }
+            if (!window.confirm(`Fechar ${currentMonthData.label} retirando ${formatCurrency(deficit)} da Caixinha para cobrir o déficit?`)) return;
+        }
+        const open = currentMonthData;
+        const entry = buildClosingEntry(open, new Date().toISOString().split('T')[0]);
+        const closed = { ...open, closed: true, history: [...(open.history || []), monthEvent('closed')] };
+        // The closed flag is saved right away (not through the autosave), and the ledger entry only
+        // once it is stored. If the entry can't be written the month is reopened; should that fail
+        // too, loadData writes the missing entry on the next load (findMissingClosingEntries).
+        let result: SaveMonthResult;
+        try {
+            result = await FinanceAPI.saveMonth(householdId, closed, baseMonths.current.get(open.id));
+        } catch (error) {
+            console.error("Failed to close month", error);
+            showFeedback("Não foi possível fechar o mês.", "danger");
             return;
         }
-        updateCurrentMonth(m => ({ ...m, closed: true }));
-        showFeedback("Sucesso! O saldo foi registrado na sua caixinha.");
+        applySaveResult(open, result);
+        if (!result.month.closed) return; // Conflict on the month itself: the dialog shows it
+
+        try {
+            if (entry) {
+                await FinanceAPI.saveSavingsEntry(householdId, entry);
+                setSavingsEntries(prev => [...prev, entry]);
+            }
+            showFeedback(totals.balance >= 0
+                ? "Sucesso! O saldo foi registrado na sua caixinha."
+                : `Mês fechado. ${formatCurrency(-totals.balance)} saíram da caixinha.`);
+        } catch (error) {
+            console.error("Failed to write closing entry, reopening month", error);
+            const reopened = { ...result.month, closed: false, history: open.history || [] };
+            try {
+                applySaveResult(result.month, await FinanceAPI.saveMonth(householdId, reopened, result.month));
+            } catch (rollbackError) {
+                console.error("Failed to reopen month after closing entry failed", rollbackError);
+            }
+            showFeedback("Não foi possível fechar o mês.", "danger");
+        }
+    };
+
+    // Undoes the closing: the month's ledger entries and goal allocations are removed and it can be edited again
+    const handleReopenMonth = async () => {
+        if (!householdId || !currentMonthData.closed) return;
+        if (!window.confirm(`Reabrir ${currentMonthData.label}? O valor que ele movimentou na Caixinha será desfeito até o mês ser fechado de novo.`)) return;
+
+        const monthId = currentMonthData.id;
+        const entries = savingsEntries.filter(e => e.monthId === monthId);
+        const allocatedGoals = goals
+            .filter(g => g.allocations.some(a => a.monthId === monthId))
+            .map(g => ({ ...g, allocations: g.allocations.filter(a => a.monthId !== monthId) }));
+        try {
+            await Promise.all([
+                ...entries.map(e => FinanceAPI.deleteSavingsEntry(householdId, e.id)),
+                ...allocatedGoals.map(g => FinanceAPI.saveGoal(householdId, g))
+            ]);
+            setSavingsEntries(prev => prev.filter(e => e.monthId !== monthId));
+            setGoals(prev => prev.map(g => allocatedGoals.find(u => u.id === g.id) || g));
+            const event = monthEvent('reopened');
+            updateCurrentMonth(m => ({ ...m, closed: false, history: [...(m.history || []), event] }));
+            showFeedback(`${currentMonthData.label} foi reaberto.`);
+        } catch (error) {
+            console.error("Failed to reopen month", error);
+            showFeedback("Não foi possível reabrir o mês.", "danger");
+        }
     };
 
     const handleChangePassword = async () => {
@@ -538,7 +1320,11 @@ const App: React.FC = () => {
                             </div>
                             <div className="flex-1">
                                 <h4 className="font-semibold text-slate-800">{month.label}</h4>
-                                <p className="text-sm text-slate-500">{month.expenses.length} despesas</p>
+                                <p className="text-sm text-slate-500">
+                                    {month.expenses.length} despesas
+                                    {getMonthStatus(month) === 'closed' && ' · Fechado'}
+                                    {getMonthStatus(month) === 'reopened' && ' · Reaberto'}
+                                </p>
                             </div>
                             <div className="flex items-center gap-2">
                                 <div
@@ -560,6 +1346,38 @@ const App: React.FC = () => {
         </div>
     );
 
+    const toggleCategory = (category: string) => setSelectedCategory(prev => prev === category ? null : category);
+
+    // Expenses of the category picked in the dashboard charts (subcategories included)
+    const renderCategoryDrillDown = (category: string) => {
+        const expenses = currentMonthData.expenses
+            .filter(e => getRootCategoryName(e.category, categories) === category)
+            .sort((a, b) => b.value - a.value);
+
+        return (
+            <Card title={`${categoryOf(category)?.icon || ''} ${category}`.trim()} subtitle={`${expenses.length} gastos · ${formatCurrency(expenses.reduce((acc, e) => acc + e.value, 0))}`}>
+                <div className="space-y-2">
+                    {expenses.map(e => (
+                        <div key={e.id} className="flex items-center justify-between py-2 border-b border-slate-50 last:border-0 text-sm">
+                            <div>
+                                <p className="font-medium text-slate-800">{e.name}</p>
+                                <p className="text-xs text-slate-400">
+                                    {e.type === 'fixed' ? 'Fixa' : 'Variável'}
+                                    {e.category !== category && ` · ${e.category}`}
+                                    {e.type === 'variable' && ` · ${new Date(e.date + 'T12:00:00').toLocaleDateString('pt-BR')}`}
+                                </p>
+                            </div>
+                            <span className="font-medium text-slate-700">{formatCurrency(e.value)}</span>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end mt-4">
+                    <Button variant="ghost" onClick={() => setSelectedCategory(null)} className="text-sm">Fechar</Button>
+                </div>
+            </Card>
+        );
+    };
+
     const renderDashboard = () => (
         <div className="space-y-8 animate-fade-in">
             {/* Emotional Positioning Block */}
@@ -568,6 +1386,12 @@ const App: React.FC = () => {
                 <p className="text-emerald-700 text-lg md:text-xl font-medium">Organizar o dinheiro em casal não precisa ser motivo de briga.</p>
             </div>
 
+            <div className="flex justify-end -mt-4">
+                <Button variant="ghost" onClick={() => setCurrentView(ViewState.MONTH_REPORT)} className="text-sm">
+                    Relatório do mês para imprimir
+                </Button>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <StatCard label="Renda Total" value={formatCurrency(totals.income)} color="text-emerald-600" icon={<WalletIcon />} />
                 <StatCard label="Despesas Fixas" value={formatCurrency(totals.fixed)} color="text-orange-600" icon={<MoneyIcon />} />
@@ -580,28 +1404,74 @@ const App: React.FC = () => {
                 />
             </div>
 
+            <CategoryBudgets month={currentMonthData} categories={categories} locked={currentMonthData.closed} onChange={(budgets) => updateCurrentMonth(m => ({ ...m, budgets }))} />
+
+            {spendingByCategory.length > 0 && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    <Card title="Gastos por categoria" subtitle="Clique em uma fatia para ver os gastos dela." className="h-full">
+                        <CategoryDonutChart data={spendingByCategory} selected={selectedCategory} onSelect={toggleCategory} />
+                        <div className="grid grid-cols-2 gap-2 mt-4">
+                            {spendingByCategory.map(s => (
+                                <button
+                                    key={s.category}
+                                    onClick={() => toggleCategory(s.category)}
+                                    className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${selectedCategory === s.category ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+                                >
+                                    <span className="flex items-center gap-2 text-slate-700 truncate">
+                                        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: s.color }} />
+                                        {s.icon} {s.category}
+                                    </span>
+                                    <span className="text-slate-500">{Math.round(s.percentage)}%</span>
+                                </button>
+                            ))}
+                        </div>
+                    </Card>
+                    <Card title="Fixas x Variáveis" subtitle="Quanto de cada categoria é conta fixa e quanto é gasto do dia a dia." className="h-full">
+                        <FixedVariableChart data={spendingByCategory} selected={selectedCategory} onSelect={toggleCategory} />
+                    </Card>
+                </div>
+            )}
+
+            {selectedCategory && renderCategoryDrillDown(selectedCategory)}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                <Card title="Sobrou este mês" className="h-full">
+                <Card title={totals.balance < 0 ? "Faltou este mês" : "Sobrou este mês"} className="h-full">
                     <div className="flex flex-col items-center justify-center h-full text-center gap-2">
                         <div className="p-4 bg-emerald-50 text-emerald-600 rounded-full mb-2">
                             <PigIcon className="w-10 h-10" />
                         </div>
-                        <div className="text-4xl font-bold text-slate-900 tracking-tight">{formatCurrency(totals.balance > 0 ? totals.balance : 0)}</div>
-                        <p className="text-slate-500 mb-6">Dinheiro livre para investir ou guardar</p>
+                        <div className={`text-4xl font-bold tracking-tight ${totals.balance < 0 ? 'text-red-600' : 'text-slate-900'}`}>{formatCurrency(Math.abs(totals.balance))}</div>
+                        <p className="text-slate-500 mb-6">
+                            {totals.balance < 0 ? 'O déficit sai da caixinha quando o mês for fechado' : 'Dinheiro livre para investir ou guardar'}
+                        </p>
 
                         {feedback && feedback.type === 'success' && currentView === ViewState.DASHBOARD && (
                             <div className="mb-4 w-full"><FeedbackMessage message={feedback.message} type={feedback.type} /></div>
                         )}
 
                         {!currentMonthData.closed ? (
-                            <Button onClick={handleCloseMonth} disabled={totals.balance <= 0} className="w-full sm:w-auto px-8">
-                                Guardar na Caixinha
+                            <Button onClick={handleCloseMonth} className="w-full sm:w-auto px-8">
+                                {totals.balance > 0 ? 'Guardar na Caixinha' : totals.balance < 0 ? 'Cobrir com a Caixinha' : 'Fechar mês'}
                             </Button>
                         ) : (
-                            <div className="inline-flex items-center text-emerald-700 bg-emerald-50 px-6 py-3 rounded-xl font-medium border border-emerald-100">
-                                <span className="mr-2">✓</span> Enviado para Caixinha
+                            <div className="flex flex-col items-center gap-2">
+                                <div className="inline-flex items-center text-emerald-700 bg-emerald-50 px-6 py-3 rounded-xl font-medium border border-emerald-100">
+                                    <span className="mr-2">✓</span> Mês fechado
+                                </div>
+                                <Button variant="ghost" onClick={handleReopenMonth} className="text-sm">Reabrir mês</Button>
                             </div>
                         )}
+
+                        {(currentMonthData.history || []).length > 0 && (
+                            <ul className="mt-4 space-y-1 text-xs text-slate-400">
+                                {[...(currentMonthData.history || [])].reverse().map(event => (
+                                    <li key={event.at}>
+                                        {event.action === 'closed' ? 'Fechado' : 'Reaberto'} em {new Date(event.at).toLocaleDateString('pt-BR')}
+                                        {event.by && ` por ${memberName(event.by)}`} · saldo {formatCurrency(event.balance)}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
                 </Card>
 
@@ -633,7 +1503,7 @@ const App: React.FC = () => {
                                                 <td className="px-4 py-3 text-slate-500">{new Date(e.date + 'T12:00:00').toLocaleDateString('pt-BR')}</td>
                                                 <td className="px-4 py-3 font-medium text-slate-800">
                                                     {e.name}
-                                                    <span className="block text-xs text-slate-400 font-normal">{e.category}</span>
+                                                    <span className="block text-xs text-slate-400 font-normal">{categoryOf(e.category)?.icon} {e.category}</span>
                                                 </td>
                                                 <td className="px-4 py-3 text-right text-red-600 font-medium">{formatCurrency(e.value)}</td>
                                             </tr>
@@ -645,130 +1515,264 @@ const App: React.FC = () => {
                 </Card>
             </div>
 
-            <div className="flex justify-end">
-                <Button variant="danger" onClick={handleResetMonth} className="text-sm">
-                    <TrashIcon className="w-4 h-4 mr-2" /> Começar este mês do zero
-                </Button>
-            </div>
+            {!currentMonthData.closed && (
+                <div className="flex justify-end">
+                    <Button variant="danger" onClick={handleResetMonth} className="text-sm">
+                        <TrashIcon className="w-4 h-4 mr-2" /> Começar este mês do zero
+                    </Button>
+                </div>
+            )}
         </div>
     );
 
-    const renderSalaries = () => (
-        <div className="max-w-xl mx-auto">
-            <Card title="Quanto vocês ganham?" subtitle="Informe a renda de cada um para começarmos.">
-                <div className="space-y-6 mt-4">
-                    <Input
-                        label="Salário 1"
-                        type="number"
-                        value={salaryForm.salary1}
-                        onChange={(e) => handleSalaryChange('salary1', e.target.value)}
-                        placeholder="0.00"
-                    />
-                    <Input
-                        label="Salário 2"
-                        type="number"
-                        value={salaryForm.salary2}
-                        onChange={(e) => handleSalaryChange('salary2', e.target.value)}
-                        placeholder="0.00"
-                    />
-
-                    {feedback && (
-                        <FeedbackMessage message={feedback.message} type={feedback.type} />
-                    )}
+    // Replaces the forms of a closed month
+    const renderClosedMonthNotice = () => (
+        <Card className="bg-slate-50 border-slate-200">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <p className="text-sm text-slate-600">
+                    <span className="font-semibold text-slate-800">{currentMonthData.label} está fechado.</span> Reabra o mês para lançar ou alterar valores.
+                </p>
+                <Button variant="secondary" onClick={handleReopenMonth} className="text-sm shrink-0">Reabrir mês</Button>
+            </div>
+        </Card>
+    );
 
-                    <Button className="w-full h-12 text-lg shadow-emerald-200 mt-2" onClick={handleSaveSalaries}>
-                        Atualizar Salários
-                    </Button>
+    const renderIncomes = () => {
+        const incomeByMember = calculateIncomeByMember(currentMonthData);
+        // Every partner gets a group (even without incomes yet), plus unassigned incomes if any
+        const groups: (string | null)[] = [
+            ...(household?.members.map(m => m.userId) || []),
+            ...(incomeByMember.has(null) ? [null] : [])
+        ];
 
-                    <div className="pt-6 border-t border-slate-50 mt-6">
-                        <div className="flex justify-between items-center p-4 bg-emerald-50 rounded-xl border border-emerald-100">
-                            <span className="font-semibold text-emerald-800">Total Mensal</span>
-                            <span className="text-2xl font-bold text-emerald-600">
-                                {formatCurrency((Number(salaryForm.salary1) || 0) + (Number(salaryForm.salary2) || 0))}
-                            </span>
+        return (
+            <div className="max-w-4xl mx-auto space-y-6">
+                {currentMonthData.closed ? renderClosedMonthNotice() : (
+                    <Card title="Quanto vocês ganham?" subtitle="Salários, extras (13º, freela, bônus) e benefícios de cada um.">
+                        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+                            <div className="md:col-span-4">
+                                <Input
+                                    label="Descrição"
+                                    placeholder="Ex: Salário, 13º, Freela..."
+                                    value={incomeForm.name}
+                                    onChange={(e) => setIncomeForm({ ...incomeForm, name: e.target.value })}
+                                />
+                            </div>
+                            <div className="md:col-span-3">
+                                <Select
+                                    label="Tipo"
+                                    value={incomeForm.type}
+                                    onChange={(e) => setIncomeForm({ ...incomeForm, type: e.target.value as IncomeType })}
+                                >
+                                    {INCOME_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                </Select>
+                            </div>
+                            <div className="md:col-span-5">
+                                <Select
+                                    label="De quem"
+                                    value={incomeForm.memberId}
+                                    onChange={(e) => setIncomeForm({ ...incomeForm, memberId: e.target.value })}
+                                >
+                                    {household?.members.map(m => <option key={m.userId} value={m.userId}>{m.name}</option>)}
+                                    <option value="">Sem pessoa</option>
+                                </Select>
+                            </div>
+                            <div className="md:col-span-4">
+                                <Input
+                                    label="Recebido em"
+                                    type="date"
+                                    value={incomeForm.receivedDate}
+                                    onChange={(e) => setIncomeForm({ ...incomeForm, receivedDate: e.target.value })}
+                                />
+                            </div>
+                            <div className="md:col-span-3">
+                                <Input
+                                    label="Valor"
+                                    type="number"
+                                    placeholder="0.00"
+                                    value={incomeForm.value}
+                                    onChange={(e) => setIncomeForm({ ...incomeForm, value: e.target.value })}
+                                />
+                            </div>
+                            <div className="md:col-span-5 flex justify-end gap-2">
+                                {editingIncome ? (
+                                    <>
+                                        <Button variant="ghost" onClick={resetIncomeForm}>Cancelar</Button>
+                                        <Button onClick={handleUpdateIncome}>Salvar Alteração</Button>
+                                    </>
+                                ) : (
+                                    <Button onClick={handleAddIncome} disabled={!incomeForm.name.trim() || !incomeForm.value}>
+                                        <PlusIcon className="mr-2" /> Adicionar
+                                    </Button>
+                                )}
+                            </div>
                         </div>
-                    </div>
+                        {feedback && (
+                            <FeedbackMessage message={feedback.message} type={feedback.type} />
+                        )}
+                    </Card>
+                )}
+
+                {groups.map(memberId => {
+                    const list = currentMonthData.incomes.filter(i => i.memberId === memberId);
+                    return (
+                        <div key={memberId || 'unassigned'} className="space-y-3">
+                            <div className="flex justify-between items-center px-2">
+                                <h3 className="font-semibold text-slate-700">{memberName(memberId)}</h3>
+                                <span className="font-bold text-slate-900">{formatCurrency(incomeByMember.get(memberId) || 0)}</span>
+                            </div>
+                            {list.length === 0 && (
+                                <p className="text-sm text-slate-400 px-2">Nenhuma renda registrada neste mês.</p>
+                            )}
+                            {list.map(income => (
+                                <div key={income.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:border-emerald-300 hover:shadow-md transition-all">
+                                    <div className="flex-1">
+                                        <div className="flex items-center gap-3">
+                                            <h4 className="font-semibold text-slate-800">{income.name}</h4>
+                                            <span className="text-xs bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-md border border-emerald-100">
+                                                {INCOME_TYPES.find(t => t.value === income.type)?.label}
+                                            </span>
+                                        </div>
+                                        <p className="text-xs text-slate-400 mt-1">Recebido em {new Date(income.receivedDate + 'T12:00:00').toLocaleDateString('pt-BR')}</p>
+                                    </div>
+                                    <div className="flex items-center gap-6">
+                                        <span className="font-bold text-emerald-700 text-lg">{formatCurrency(income.value)}</span>
+                                        {!currentMonthData.closed && (
+                                            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <button onClick={() => handleEditIncomeClick(income)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                                                    <EditIcon />
+                                                </button>
+                                                <button onClick={() => handleDeleteIncome(income.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                                                    <TrashIcon />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+
+                <div className="flex justify-between items-center p-4 bg-emerald-50 rounded-xl border border-emerald-100">
+                    <span className="font-semibold text-emerald-800">Total Mensal</span>
+                    <span className="text-2xl font-bold text-emerald-600">{formatCurrency(totals.income)}</span>
                 </div>
-            </Card>
-        </div>
-    );
+            </div>
+        );
+    };
 
     const renderExpenses = (type: ExpenseType) => {
         const list = currentMonthData.expenses.filter(e => e.type === type);
         const title = type === 'fixed' ? 'Despesas Fixas' : 'Despesas Variáveis';
         const subtitle = type === 'fixed' ? 'Contas que chegam todo mês (Aluguel, Internet...)' : 'Gastos do dia a dia (Mercado, Lazer...)';
+        const selectedCard = creditCards.find(c => c.id === expenseForm.cardId);
 
         return (
             <div className="max-w-4xl mx-auto space-y-6">
                 <div className="flex justify-between items-start">
                     <h2 className="text-xl font-bold text-slate-800">{title}</h2>
                     {type === 'fixed' && (
-                        <Button variant="secondary" onClick={handleImportFixedExpenses} className="text-sm">
-                            Copiar do mês passado
+                        <div className="flex gap-2">
+                            <Button variant="ghost" onClick={() => setCurrentView(ViewState.RECURRING)} className="text-sm">
+                                Gerenciar recorrentes
+                            </Button>
+                            {!currentMonthData.closed && (
+                                <Button variant="secondary" onClick={handleApplyRecurring} className="text-sm">
+                                    Lançar recorrentes
+                                </Button>
+                            )}
+                        </div>
+                    )}
+                    {type === 'variable' && (
+                        <Button variant="ghost" onClick={() => setCurrentView(ViewState.IMPORT)} className="text-sm">
+                            Importar extrato
                         </Button>
                     )}
                 </div>
 
-                <Card className="bg-white border-emerald-100 shadow-sm" title={editingExpense ? `Editar ${title}` : `Adicionar ${title}`}>
-                    <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
-                        {type === 'variable' && (
-                            <div className="md:col-span-3">
+                {currentMonthData.closed ? renderClosedMonthNotice() : (
+                    <Card className="bg-white border-emerald-100 shadow-sm" title={editingExpense ? `Editar ${title}` : `Adicionar ${title}`}>
+                        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+                            {type === 'variable' && (
+                                <div className="md:col-span-3">
+                                    <Input
+                                        label="Data"
+                                        type="date"
+                                        value={expenseForm.date}
+                                        onChange={(e) => setExpenseForm({ ...expenseForm, date: e.target.value })}
+                                    />
+                                </div>
+                            )}
+                            <div className={type === 'variable' ? "md:col-span-4" : "md:col-span-6"}>
                                 <Input
-                                    label="Data"
-                                    type="date"
-                                    value={expenseForm.date}
-                                    onChange={(e) => setExpenseForm({ ...expenseForm, date: e.target.value })}
+                                    label="Nome do Gasto"
+                                    placeholder="Ex: Internet, Jantar..."
+                                    value={expenseForm.name}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, name: e.target.value })}
                                 />
                             </div>
-                        )}
-                        <div className={type === 'variable' ? "md:col-span-4" : "md:col-span-6"}>
-                            <Input
-                                label="Nome do Gasto"
-                                placeholder="Ex: Internet, Jantar..."
-                                value={expenseForm.name}
-                                onChange={(e) => setExpenseForm({ ...expenseForm, name: e.target.value })}
-                            />
-                        </div>
-                        {type === 'variable' && (
-                            <div className="md:col-span-3">
-                                <Select
-                                    label="Categoria"
-                                    value={expenseForm.category}
-                                    onChange={(e) => setExpenseForm({ ...expenseForm, category: e.target.value })}
-                                >
-                                    {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
-                                </Select>
+                            {type === 'variable' && (
+                                <div className="md:col-span-3">
+                                    <CategorySelect
+                                        categories={categories}
+                                        value={expenseForm.category}
+                                        onChange={(category) => setExpenseForm({ ...expenseForm, category })}
+                                    />
+                                </div>
+                            )}
+                            <div className="md:col-span-2">
+                                <Input
+                                    label="Valor"
+                                    type="number"
+                                    placeholder="0.00"
+                                    value={expenseForm.value}
+                                    onChange={(e) => setExpenseForm({ ...expenseForm, value: e.target.value })}
+                                />
                             </div>
-                        )}
-                        <div className="md:col-span-2">
-                            <Input
-                                label="Valor"
-                                type="number"
-                                placeholder="0.00"
-                                value={expenseForm.value}
-                                onChange={(e) => setExpenseForm({ ...expenseForm, value: e.target.value })}
+                            <SplitFields
+                                members={household?.members || []}
+                                values={expenseForm}
+                                onChange={(values) => setExpenseForm({ ...expenseForm, ...values })}
                             />
-                        </div>
-                        <div className="md:col-span-12 flex justify-end mt-4 pt-4 border-t border-slate-50">
-                            {editingExpense ? (
-                                <div className="flex gap-2">
-                                    <Button variant="ghost" onClick={() => {
-                                        setEditingExpense(null);
-                                        setExpenseForm({ name: '', value: '', category: 'Outros', date: new Date().toISOString().split('T')[0] });
-                                    }}>Cancelar</Button>
-                                    <Button onClick={handleUpdateExpense}>Salvar Alteração</Button>
+                            {type === 'variable' && creditCards.length > 0 && (
+                                <div className="md:col-span-4">
+                                    <Select
+                                        label="Forma de pagamento"
+                                        value={expenseForm.cardId}
+                                        onChange={(e) => setExpenseForm({ ...expenseForm, cardId: e.target.value })}
+                                    >
+                                        <option value="">Débito / Pix / Dinheiro</option>
+                                        {creditCards.map(c => <option key={c.id} value={c.id}>Cartão {c.name}</option>)}
+                                    </Select>
                                 </div>
-                            ) : (
-                                <Button onClick={() => handleAddExpense(type)} disabled={!expenseForm.name || !expenseForm.value}>
-                                    <PlusIcon className="mr-2" /> Adicionar
-                                </Button>
                             )}
+                            <div className="md:col-span-12 flex items-center justify-end gap-4 mt-4 pt-4 border-t border-slate-50">
+                                {type === 'variable' && selectedCard && (
+                                    <span className="text-xs text-slate-500 mr-auto">
+                                        Entra na fatura de {labelOfMonthId(getInvoiceMonth(selectedCard, expenseForm.date))}
+                                    </span>
+                                )}
+                                {editingExpense ? (
+                                    <div className="flex gap-2">
+                                        <Button variant="ghost" onClick={() => {
+                                            setEditingExpense(null);
+                                            setExpenseForm(emptyExpenseForm());
+                                        }}>Cancelar</Button>
+                                        <Button onClick={handleUpdateExpense}>Salvar Alteração</Button>
+                                    </div>
+                                ) : (
+                                    <Button onClick={() => handleAddExpense(type)} disabled={!expenseForm.name || !expenseForm.value}>
+                                        <PlusIcon className="mr-2" /> Adicionar
+                                    </Button>
+                                )}
+                            </div>
                         </div>
-                    </div>
-                    {feedback && (
-                        <FeedbackMessage message={feedback.message} type={feedback.type} />
-                    )}
-                </Card>
+                        {feedback && (
+                            <FeedbackMessage message={feedback.message} type={feedback.type} />
+                        )}
+                    </Card>
+                )}
 
                 <div className="space-y-3">
                     <div className="flex justify-between items-center px-2 mb-2">
@@ -783,7 +1787,7 @@ const App: React.FC = () => {
                             actionLabel="Adicionar agora"
                             onAction={() => {
                                 setEditingExpense(null);
-                                setExpenseForm({ name: '', value: '', category: 'Outros', date: new Date().toISOString().split('T')[0] });
+                                setExpenseForm(emptyExpenseForm());
                                 window.scrollTo({ top: 0, behavior: 'smooth' });
                             }}
                             icon={type === 'fixed' ? <MoneyIcon className="w-8 h-8" /> : <ShoppingBagIcon className="w-8 h-8" />}
@@ -796,45 +1800,134 @@ const App: React.FC = () => {
                                 <div className="flex items-center gap-3">
                                     <h4 className="font-semibold text-slate-800">{expense.name}</h4>
                                     {type === 'variable' && (
-                                        <span className="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded-md border border-slate-200">{expense.category}</span>
+                                        <span
+                                            className="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded-md border border-slate-200"
+                                            style={{ borderColor: categoryOf(expense.category)?.color }}
+                                        >
+                                            {categoryOf(expense.category)?.icon} {expense.category}
+                                        </span>
+                                    )}
+                                    {expense.recurringId && (
+                                        <span className="text-xs bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-md border border-emerald-100">Recorrente</span>
+                                    )}
+                                    {expense.installment && (
+                                        <span className="text-xs bg-sky-50 text-sky-700 px-2 py-0.5 rounded-md border border-sky-100">
+                                            parcela {expense.installment.number}/{expense.installment.total}
+                                        </span>
+                                    )}
+                                    {expense.cardId && creditCards.some(c => c.id === expense.cardId) && (
+                                        <span className="text-xs bg-violet-50 text-violet-700 px-2 py-0.5 rounded-md border border-violet-100">
+                                            {creditCards.find(c => c.id === expense.cardId)?.name}
+                                        </span>
                                     )}
                                 </div>
-                                {type === 'variable' && <p className="text-xs text-slate-400 mt-1">{new Date(expense.date + 'T12:00:00').toLocaleDateString('pt-BR')}</p>}
+                                <p className="text-xs text-slate-400 mt-1">
+                                    {type === 'variable' && `${new Date(expense.date + 'T12:00:00').toLocaleDateString('pt-BR')} · `}
+                                    {expense.paidBy ? `Pago por ${memberName(expense.paidBy)}` : 'Conta conjunta'} · {describeSplit(expense)}
+                                </p>
                             </div>
                             <div className="flex items-center gap-6">
                                 <span className="font-bold text-slate-700 text-lg">{formatCurrency(expense.value)}</span>
-                                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <button onClick={() => handleEditClick(expense)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
-                                        <EditIcon />
-                                    </button>
-                                    <button onClick={() => handleDeleteExpense(expense.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
-                                        <TrashIcon />
-                                    </button>
+                                {!currentMonthData.closed && (
+                                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        {type === 'fixed' && !expense.recurringId && (
+                                            <button onClick={() => handleMakeRecurring(expense)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors" title="Repetir todo mês">
+                                                <CalendarIcon className="w-5 h-5" />
+                                            </button>
+                                        )}
+                                        <button onClick={() => handleEditClick(expense)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                                            <EditIcon />
+                                        </button>
+                                        <button onClick={() => handleDeleteExpense(expense.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    const renderSettlement = () => {
+        const settlement = calculateSettlement(currentMonthData, household?.members.map(m => m.userId) || []);
+
+        return (
+            <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+                <Card title="Quem deve para quem" subtitle={`Acerto de ${currentMonthData.label}, de acordo com quem pagou cada despesa e como ela é dividida.`}>
+                    {settlement.transfers.length === 0 ? (
+                        <div className="flex items-center gap-3 p-4 bg-emerald-50 rounded-xl border border-emerald-100 text-emerald-800 font-medium">
+                            <SwapIcon className="w-5 h-5" /> Tudo certo! Ninguém deve nada neste mês.
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {settlement.transfers.map(t => (
+                                <div key={`${t.from}-${t.to}`} className="flex items-center justify-between p-4 bg-amber-50 rounded-xl border border-amber-100">
+                                    <div className="flex items-center gap-3 font-semibold text-slate-800">
+                                        {memberName(t.from)} <ArrowRightIcon className="w-4 h-4 text-amber-600" /> {memberName(t.to)}
+                                    </div>
+                                    <span className="text-xl font-bold text-amber-700">{formatCurrency(t.value)}</span>
                                 </div>
+                            ))}
+                        </div>
+                    )}
+                </Card>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {settlement.members.map(m => (
+                        <div key={m.memberId} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100 space-y-2">
+                            <h3 className="font-semibold text-slate-800">{memberName(m.memberId)}</h3>
+                            <div className="flex justify-between text-sm text-slate-500">
+                                <span>Pagou</span>
+                                <span className="font-medium text-slate-700">{formatCurrency(m.paid)}</span>
+                            </div>
+                            <div className="flex justify-between text-sm text-slate-500">
+                                <span>Parte dele(a)</span>
+                                <span className="font-medium text-slate-700">{formatCurrency(m.share)}</span>
                             </div>
                         </div>
                     ))}
                 </div>
+
+                {settlement.unattributed > 0 && (
+                    <p className="text-sm text-slate-500 px-2">
+                        {formatCurrency(settlement.unattributed)} em despesas pagas pela conta conjunta não entram no acerto.
+                    </p>
+                )}
             </div>
         );
     };
 
     const renderCaixinha = () => (
-        <div className="max-w-xl mx-auto space-y-6 animate-fade-in">
+        <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
             <Card title="Caixinha Acumulada">
                 <div className="flex items-center justify-center py-12">
                     <div className="text-center">
                         <div className="p-6 bg-emerald-100 text-emerald-600 rounded-full inline-flex mb-6 shadow-sm">
                             <WalletIcon className="w-12 h-12" />
                         </div>
-                        <p className="text-slate-500 font-medium text-lg">Você já economizou</p>
+                        <p className="text-slate-500 font-medium text-lg">Saldo da Caixinha</p>
                         <h2 className="text-5xl font-bold text-emerald-700 mt-3 tracking-tight">{formatCurrency(totalSavings)}</h2>
                         <p className="text-slate-400 mt-4 max-w-xs mx-auto text-sm">
-                            Este valor representa a soma dos saldos positivos de meses que já foram fechados.
+                            Saldo dos meses fechados, mais depósitos e rendimentos, menos as retiradas.
                         </p>
                     </div>
                 </div>
             </Card>
+
+            <SavingsGoals
+                goals={goals}
+                months={months}
+                currentMonthId={generateMonthId(new Date())}
+                onSave={handleSaveGoal}
+                onDelete={handleDeleteGoal}
+            />
+
+            <SavingsLedger entries={savingsEntries} onSave={handleSaveSavingsEntry} onDelete={handleDeleteSavingsEntry} />
+
+            <SavingsForecast months={months} savingsEntries={savingsEntries} recurringExpenses={recurringExpenses} purchases={purchases} currentMonthId={generateMonthId(new Date())} />
         </div>
     );
 
@@ -944,21 +2037,25 @@ const App: React.FC = () => {
                                     ✓ Salvo
                                 </span>
                             )}
-                            {saveStatus === 'error' && (
-                                <span className="text-xs text-red-300 flex items-center gap-1 mr-2">
-                                    ⚠ Erro
+                            {saveStatus !== 'saving' && pendingWrites > 0 && (
+                                <span className="text-xs text-amber-200 flex items-center gap-1 mr-2" title="Serão enviadas quando a conexão voltar">
+                                    ⟳ {pendingWrites} {pendingWrites === 1 ? 'alteração pendente' : 'alterações pendentes'}
                                 </span>
                             )}
 
-                            <button onClick={() => setIsPasswordModalOpen(true)} className="p-1.5 bg-emerald-900/50 hover:bg-emerald-600 rounded-full transition-colors mr-1" title="Alterar Senha">
-                                <svg className="w-4 h-4 text-emerald-100" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
-                            </button>
+                            {STORAGE_BACKEND !== 'local' && (
+                                <button onClick={() => setIsPasswordModalOpen(true)} className="p-1.5 bg-emerald-900/50 hover:bg-emerald-600 rounded-full transition-colors mr-1" title="Alterar Senha">
+                                    <svg className="w-4 h-4 text-emerald-100" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+                                </button>
+                            )}
                             <button onClick={handleRestartOnboarding} className="p-1.5 bg-emerald-900/50 hover:bg-emerald-600 rounded-full transition-colors mr-1" title="Reiniciar Tutorial">
                                 <svg className="w-4 h-4 text-emerald-100" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
                             </button>
-                            <button onClick={handleLogout} className="p-1.5 bg-emerald-900/50 hover:bg-red-500/80 rounded-full transition-colors" title="Sair">
-                                <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"></path></svg>
-                            </button>
+                            {STORAGE_BACKEND !== 'local' && (
+                                <button onClick={handleLogout} className="p-1.5 bg-emerald-900/50 hover:bg-red-500/80 rounded-full transition-colors" title="Sair">
+                                    <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"></path></svg>
+                                </button>
+                            )}
                         </div>
 
                         {/* Balance (Only if not in month selection) */}
@@ -978,12 +2075,24 @@ const App: React.FC = () => {
                     <div className="flex justify-between md:justify-start gap-1 md:gap-2 min-w-max">
                         <NavItem view={ViewState.MONTH_SELECTION} label="Mês" icon={<CalendarIcon className="w-5 h-5" />} />
                         <div className="w-px bg-slate-200 mx-2 my-2 hidden md:block"></div>
-                        <NavItem view={ViewState.SALARIES} label="Salários" icon={<WalletIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.INCOMES} label="Renda" icon={<WalletIcon className="w-5 h-5" />} />
                         <NavItem view={ViewState.EXPENSES_FIXED} label="Fixas" icon={<MoneyIcon className="w-5 h-5" />} />
                         <NavItem view={ViewState.EXPENSES_VARIABLE} label="Variáveis" icon={<ShoppingBagIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.RECURRING} label="Recorrentes" icon={<CalendarIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.INSTALLMENTS} label="Parcelas" icon={<MoneyIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.INVOICES} label="Faturas" icon={<CreditCardIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.CATEGORIES} label="Categorias" icon={<TagIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.IMPORT} label="Importar" icon={<UploadIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.RULES} label="Regras" icon={<FilterIcon className="w-5 h-5" />} />
                         <NavItem view={ViewState.DASHBOARD} label="Resumo" icon={<PieChartIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.REPORTS} label="Relatórios" icon={<TrendingUpIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.SEARCH} label="Buscar" icon={<SearchIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.SETTLEMENT} label="Acerto" icon={<SwapIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.FAIR_SPLIT} label="Divisão" icon={<PercentIcon className="w-5 h-5" />} />
                         <div className="w-px bg-slate-200 mx-2 my-2 hidden md:block"></div>
                         <NavItem view={ViewState.CAIXINHA} label="Caixinha" icon={<PigIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.HOUSEHOLD} label="Casal" icon={<UsersIcon className="w-5 h-5" />} />
+                        <NavItem view={ViewState.BACKUP} label="Backup" icon={<DownloadIcon className="w-5 h-5" />} />
 
 
                     </div>
@@ -993,12 +2102,108 @@ const App: React.FC = () => {
             {/* Main Content Area */}
             <main className="px-4 md:px-8 mt-8">
                 <div className="max-w-6xl mx-auto">
+                    {currentView !== ViewState.MONTH_SELECTION && partnersEditingHere.length > 0 && (
+                        <div className="mb-6 flex items-center gap-2 px-4 py-3 rounded-xl bg-amber-50 border border-amber-100 text-amber-800 text-sm font-medium animate-fade-in">
+                            <span className="relative flex h-2.5 w-2.5">
+                                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-amber-400 opacity-75"></span>
+                                <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-amber-500"></span>
+                            </span>
+                            {partnersEditingHere.map(p => p.name).join(' e ')} {partnersEditingHere.length > 1 ? 'estão' : 'está'} editando {currentMonthData.label} agora. As alterações aparecem aqui automaticamente.
+                        </div>
+                    )}
                     {currentView === ViewState.MONTH_SELECTION && renderMonthSelection()}
                     {currentView === ViewState.DASHBOARD && renderDashboard()}
-                    {currentView === ViewState.SALARIES && renderSalaries()}
+                    {currentView === ViewState.INCOMES && renderIncomes()}
                     {currentView === ViewState.EXPENSES_FIXED && renderExpenses('fixed')}
                     {currentView === ViewState.EXPENSES_VARIABLE && renderExpenses('variable')}
+                    {currentView === ViewState.SETTLEMENT && renderSettlement()}
+                    {currentView === ViewState.INSTALLMENTS && household && (
+                        <InstallmentPurchases
+                            purchases={purchases}
+                            categories={categories}
+                            household={household}
+                            defaultMemberId={defaultMemberId}
+                            onSave={handleSavePurchase}
+                            onCancel={handleCancelPurchase}
+                        />
+                    )}
+                    {currentView === ViewState.INVOICES && (
+                        <CreditCardInvoices
+                            cards={creditCards}
+                            months={months}
+                            currentMonth={currentMonthData}
+                            onSave={handleSaveCard}
+                            onDelete={handleDeleteCard}
+                        />
+                    )}
+                    {currentView === ViewState.IMPORT && (
+                        <StatementImport
+                            months={months}
+                            categories={categories}
+                            cards={creditCards}
+                            members={household?.members || []}
+                            rules={rules}
+                            onImport={handleImportExpenses}
+                        />
+                    )}
+                    {currentView === ViewState.RULES && (
+                        <CategoryRules
+                            rules={rules}
+                            categories={categories}
+                            onSave={handleSaveRule}
+                            onDelete={handleDeleteRule}
+                            onLearn={handleLearnRules}
+                        />
+                    )}
+                    {currentView === ViewState.REPORTS && (
+                        <Reports months={months} categories={categories} currentMonthId={currentMonthId} />
+                    )}
+                    {currentView === ViewState.SEARCH && (
+                        <ExpenseSearch
+                            months={months}
+                            categories={categories}
+                            members={household?.members || []}
+                            onOpen={handleOpenSearchResult}
+                        />
+                    )}
+                    {currentView === ViewState.MONTH_REPORT && (
+                        <MonthlyReport
+                            month={currentMonthData}
+                            months={months}
+                            categories={categories}
+                            household={household}
+                            savingsEntries={savingsEntries}
+                            onBack={() => setCurrentView(ViewState.DASHBOARD)}
+                        />
+                    )}
+                    {currentView === ViewState.CATEGORIES && (
+                        <CategoryManager categories={categories} onSave={handleSaveCategory} onMerge={handleMergeCategory} />
+                    )}
+                    {currentView === ViewState.RECURRING && household && (
+                        <RecurringExpenses
+                            templates={recurringExpenses}
+                            categories={categories}
+                            household={household}
+                            defaultMemberId={defaultMemberId}
+                            onSave={handleSaveRecurring}
+                            onDelete={handleDeleteRecurring}
+                        />
+                    )}
+                    {currentView === ViewState.FAIR_SPLIT && household && (
+                        <FairSplitCalculator month={currentMonthData} household={household} />
+                    )}
                     {currentView === ViewState.CAIXINHA && renderCaixinha()}
+                    {currentView === ViewState.HOUSEHOLD && household && (
+                        <HouseholdSettings household={household} currentUserId={user.id} onHouseholdChange={setHousehold} />
+                    )}
+                    {currentView === ViewState.BACKUP && (
+                        <DataBackup
+                            data={backupData}
+                            members={household?.members || []}
+                            cards={creditCards}
+                            onRestore={handleRestoreBackup}
+                        />
+                    )}
 
                 </div>
             </main>
@@ -1025,6 +2230,12 @@ const App: React.FC = () => {
             }
 
 
+            {deletedMonth && (
+                <UndoToast message={`${deletedMonth.label} excluído.`} onAction={handleUndoDeleteMonth} />
+            )}
+
+            {saveConflict && <ConflictResolver conflict={saveConflict} onResolve={handleResolveConflict} />}
+
             {isPasswordModalOpen && renderChangePasswordModal()}
         </div >
     );
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Button, Card, Input } from './UIComponents';
+import { calculateBudgetStatus, formatCurrency } from '../services/financeService';
+import { BudgetLevel, Category, CategoryBudget, MonthData } from '../types';
+
+interface CategoryBudgetsProps {
+  month: MonthData;
+  categories: Category[];
+  locked?: boolean; // Closed month: progress only, no editing
+  onChange: (budgets: CategoryBudget[]) => void;
+}
+
+// Form row per category; an empty limit means "no budget"
+interface BudgetRow {
+  limit: string;
+  carryOver: boolean;
+}
+
+const BAR_COLORS: Record<BudgetLevel, string> = {
+  ok: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  over: 'bg-red-500',
+};
+
+const TEXT_COLORS: Record<BudgetLevel, string> = {
+  ok: 'text-slate-500',
+  warning: 'text-amber-600',
+  over: 'text-red-600',
+};
+
+/**
+ * Progress of each category budget of the month, with an inline editor for the limits.
+ */
+export const CategoryBudgets: React.FC<CategoryBudgetsProps> = ({ month, categories, locked = false, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const [rows, setRows] = useState<Record<string, BudgetRow>>({});
+
+  const statuses = calculateBudgetStatus(month, categories);
+  const iconOf = (name: string) => categories.find(c => c.name === name)?.icon;
+
+  // Active categories, plus archived ones that still have a budget this month
+  const editable = categories
+    .filter(c => !c.archived || month.budgets?.some(b => b.category === c.name))
+    .map(c => c.name)
+    .sort((a, b) => a.localeCompare(b));
+
+  const startEditing = () => {
+    setRows(Object.fromEntries(editable.map(category => {
+      const budget = month.budgets?.find(b => b.category === category);
+      return [category, { limit: budget ? budget.limit.toString() : '', carryOver: budget?.carryOver ?? true }];
+    })));
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    const budgets: CategoryBudget[] = editable
+      .filter(category => Number(rows[category]?.limit) > 0)
+      .map(category => ({ category, limit: Number(rows[category].limit), carryOver: rows[category].carryOver }));
+    onChange(budgets);
+    setEditing(false);
+  };
+
+  const updateRow = (category: string, row: Partial<BudgetRow>) =>
+    setRows(prev => ({ ...prev, [category]: { ...prev[category], ...row } }));
+
+  return (
+    <Card title="Orçamento por categoria" subtitle="Limites de gasto deste mês. Você recebe um aviso ao passar de 80% e de 100%.">
+      {editing && !locked ? (
+        <div className="space-y-3">
+          {editable.map(category => (
+            <div key={category} className="grid grid-cols-12 gap-4 items-center">
+              <span className="col-span-4 text-sm font-medium text-slate-700">{iconOf(category)} {category}</span>
+              <div className="col-span-4">
+                <Input type="number" min={0} placeholder="Sem limite" value={rows[category]?.limit || ''} onChange={(e) => updateRow(category, { limit: e.target.value })} />
+              </div>
+              <label className="col-span-4 flex items-center gap-2 text-xs text-slate-500">
+                <input type="checkbox" checked={rows[category]?.carryOver ?? true} onChange={(e) => updateRow(category, { carryOver: e.target.checked })} className="rounded text-emerald-600" />
+                Repetir nos próximos meses
+              </label>
+            </div>
+          ))}
+          <div className="flex justify-end gap-2 pt-4 border-t border-slate-50">
+            <Button variant="ghost" onClick={() => setEditing(false)}>Cancelar</Button>
+            <Button onClick={handleSave}>Salvar orçamentos</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {statuses.length === 0 && (
+            <p className="text-sm text-slate-400">Nenhum orçamento definido para este mês.</p>
+          )}
+          {statuses.map(s => (
+            <div key={s.category}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-slate-700">{iconOf(s.category)} {s.category}</span>
+                <span className={TEXT_COLORS[s.level]}>
+                  {formatCurrency(s.spent)} de {formatCurrency(s.limit)} ({Math.round(s.percentage)}%)
+                </span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full transition-all ${BAR_COLORS[s.level]}`} style={{ width: `${Math.min(s.percentage, 100)}%` }} />
+              </div>
+            </div>
+          ))}
+          {!locked && (
+            <div className="flex justify-end pt-2">
+              <Button variant="ghost" onClick={startEditing} className="text-sm">
+                {statuses.length === 0 ? 'Definir orçamentos' : 'Editar orçamentos'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
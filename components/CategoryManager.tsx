@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Select, Card, FeedbackMessage, PlusIcon, EditIcon } from './UIComponents';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '../constants';
+import { Category } from '../types';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  /** Creates or updates a category; a new name is applied to every expense that used the old one. */
+  onSave: (category: Category) => Promise<void>;
+  /** Moves every expense of `source` to `target` and deletes `source`. */
+  onMerge: (source: Category, target: Category) => Promise<void>;
+}
+
+interface CategoryForm {
+  name: string;
+  color: string;
+  icon: string;
+  parentId: string; // '' = top-level
+}
+
+const emptyForm = (): CategoryForm => ({ name: '', color: CATEGORY_COLORS[0], icon: CATEGORY_ICONS[0], parentId: '' });
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onSave, onMerge }) => {
+  const [form, setForm] = useState<CategoryForm>(emptyForm());
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [merging, setMerging] = useState<{ source: Category; targetId: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const roots = categories.filter(c => !c.parentId || !categories.some(p => p.id === c.parentId)).sort(byName);
+  const childrenOf = (id: string) => categories.filter(c => c.parentId === id).sort(byName);
+
+  const trimmedName = form.name.trim();
+  const nameTaken = categories.some(c => c.id !== editing?.id && c.name.toLowerCase() === trimmedName.toLowerCase());
+  // Only one level of subcategories: a category with children can't become a child itself
+  const parentOptions = roots.filter(c => c.id !== editing?.id && !c.archived);
+  const canHaveParent = !editing || childrenOf(editing.id).length === 0;
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!trimmedName || nameTaken) return;
+
+    const category: Category = {
+      id: editing?.id || uuidv4(),
+      name: trimmedName,
+      color: form.color,
+      icon: form.icon,
+      parentId: canHaveParent && form.parentId ? form.parentId : null,
+      archived: editing?.archived ?? false
+    };
+
+    const renamed = editing && editing.name !== category.name;
+    run(async () => {
+      await onSave(category);
+      reset();
+    }, renamed ? `Categoria renomeada. Os gastos de "${editing!.name}" agora estão em "${category.name}".` : editing ? 'Categoria atualizada!' : 'Categoria criada!');
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditing(category);
+    setMerging(null);
+    setForm({ name: category.name, color: category.color, icon: category.icon, parentId: category.parentId || '' });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleToggleArchive = (category: Category) => {
+    run(
+      () => onSave({ ...category, archived: !category.archived }),
+      category.archived ? `"${category.name}" voltou para a lista.` : `"${category.name}" foi arquivada. Os gastos antigos continuam com ela.`
+    );
+  };
+
+  const handleMerge = () => {
+    if (!merging) return;
+    const target = categories.find(c => c.id === merging.targetId);
+    if (!target) return;
+    if (!window.confirm(`Mover todos os gastos de "${merging.source.name}" para "${target.name}" e excluir "${merging.source.name}"?`)) return;
+    run(async () => {
+      await onMerge(merging.source, target);
+      setMerging(null);
+    }, `"${merging.source.name}" foi unida a "${target.name}".`);
+  };
+
+  const renderRow = (category: Category, isChild: boolean) => (
+    <div key={category.id} className={`bg-white p-4 rounded-xl shadow-sm border border-slate-100 group hover:border-emerald-300 transition-all ${isChild ? 'ml-8' : ''} ${category.archived ? 'opacity-60' : ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <span className="w-9 h-9 rounded-lg flex items-center justify-center text-lg" style={{ backgroundColor: `${category.color}22` }}>{category.icon}</span>
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+          <h4 className="font-semibold text-slate-800">{category.name}</h4>
+          {category.archived && <span className="text-xs bg-slate-100 text-slate-500 px-2 py-0.5 rounded-md border border-slate-200">Arquivada</span>}
+        </div>
+        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => handleEdit(category)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+            <EditIcon />
+          </button>
+          <button onClick={() => setMerging({ source: category, targetId: '' })} className="px-3 py-2 text-xs font-medium text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+            Unir
+          </button>
+          <button onClick={() => handleToggleArchive(category)} className="px-3 py-2 text-xs font-medium text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+            {category.archived ? 'Reativar' : 'Arquivar'}
+          </button>
+        </div>
+      </div>
+      {merging?.source.id === category.id && (
+        <div className="flex flex-col md:flex-row md:items-end gap-3 mt-4 pt-4 border-t border-slate-50">
+          <div className="flex-1">
+            <Select label={`Unir "${category.name}" a`} value={merging.targetId} onChange={(e) => setMerging({ ...merging, targetId: e.target.value })}>
+              <option value="">Escolha a categoria</option>
+              {categories.filter(c => c.id !== category.id && !c.archived).sort(byName).map(c => (
+                <option key={c.id} value={c.id}>{c.icon} {c.name}</option>
+              ))}
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setMerging(null)}>Cancelar</Button>
+            <Button onClick={handleMerge} disabled={loading || !merging.targetId}>Unir</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card
+        title={editing ? 'Editar categoria' : 'Nova categoria'}
+        subtitle="Organize os gastos do jeito de vocês. Renomear uma categoria atualiza todos os gastos que já usam ela."
+      >
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-6">
+            <Input label="Nome" placeholder="Ex: Pets, Mercado..." value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="md:col-span-6">
+            <Select label="Subcategoria de" value={canHaveParent ? form.parentId : ''} disabled={!canHaveParent} onChange={(e) => setForm({ ...form, parentId: e.target.value })}>
+              <option value="">Nenhuma (categoria principal)</option>
+              {parentOptions.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+            </Select>
+          </div>
+          <div className="md:col-span-6">
+            <p className="text-sm font-medium text-slate-700 mb-2">Cor</p>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => setForm({ ...form, color })}
+                  className={`w-8 h-8 rounded-full border-2 transition-transform ${form.color === color ? 'border-slate-800 scale-110' : 'border-white'}`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="md:col-span-6">
+            <p className="text-sm font-medium text-slate-700 mb-2">Ícone</p>
+            <div className="flex flex-wrap gap-1">
+              {CATEGORY_ICONS.map(icon => (
+                <button
+                  key={icon}
+                  onClick={() => setForm({ ...form, icon })}
+                  className={`w-9 h-9 rounded-lg text-lg transition-colors ${form.icon === icon ? 'bg-emerald-100 ring-1 ring-emerald-500' : 'hover:bg-slate-100'}`}
+                >
+                  {icon}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="md:col-span-12 flex items-center justify-end gap-2 mt-4 pt-4 border-t border-slate-50">
+            {nameTaken && <span className="text-xs text-red-600 mr-auto">Já existe uma categoria com esse nome.</span>}
+            {editing && <Button variant="ghost" onClick={reset}>Cancelar</Button>}
+            <Button onClick={handleSubmit} disabled={loading || !trimmedName || nameTaken}>
+              {editing ? 'Salvar Alteração' : <><PlusIcon className="mr-2" /> Adicionar</>}
+            </Button>
+          </div>
+        </div>
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+
+      <div className="space-y-3">
+        {roots.map(root => (
+          <React.Fragment key={root.id}>
+            {renderRow(root, false)}
+            {childrenOf(root.id).map(child => renderRow(child, true))}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
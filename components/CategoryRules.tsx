@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Select, Card, FeedbackMessage, PlusIcon, TrashIcon, EditIcon } from './UIComponents';
+import { CategorySelect } from './CategorySelect';
+import { formatCurrency } from '../services/financeService';
+import { MAX_PATTERN_LENGTH, hasNestedRepetition, isValidPattern, sortRules } from '../services/categoryRules';
+import { FALLBACK_CATEGORY } from '../constants';
+import { Category, CategoryRule, ExpenseType, RuleMatchType } from '../types';
+
+interface CategoryRulesProps {
+  rules: CategoryRule[];
+  categories: Category[];
+  onSave: (rule: CategoryRule) => Promise<void>;
+  onDelete: (rule: CategoryRule) => Promise<void>;
+  /** Creates rules from the categories picked by hand in past months; resolves to how many were created. */
+  onLearn: () => Promise<number>;
+}
+
+interface RuleForm {
+  matchType: RuleMatchType;
+  pattern: string;
+  minValue: string;
+  maxValue: string;
+  category: string;
+  type: ExpenseType | '';
+}
+
+const emptyForm = (): RuleForm => ({ matchType: 'contains', pattern: '', minValue: '', maxValue: '', category: FALLBACK_CATEGORY, type: '' });
+
+const toValue = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+const describeCondition = (rule: CategoryRule) => {
+  const parts = [rule.matchType === 'regex' ? `nome casa com /${rule.pattern}/` : `nome contém "${rule.pattern}"`];
+  if (rule.minValue !== null) parts.push(`a partir de ${formatCurrency(rule.minValue)}`);
+  if (rule.maxValue !== null) parts.push(`até ${formatCurrency(rule.maxValue)}`);
+  return parts.join(', ');
+};
+
+/**
+ * Rules that categorize new and imported expenses automatically.
+ */
+export const CategoryRules: React.FC<CategoryRulesProps> = ({ rules, categories, onSave, onDelete, onLearn }) => {
+  const [form, setForm] = useState<RuleForm>(emptyForm());
+  const [editing, setEditing] = useState<CategoryRule | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const validPattern = isValidPattern(form.matchType, form.pattern);
+  const minValue = toValue(form.minValue);
+  const maxValue = toValue(form.maxValue);
+  const validRange = minValue === null || maxValue === null || minValue <= maxValue;
+  const iconOf = (name: string) => categories.find(c => c.name === name)?.icon;
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!validPattern || !validRange) return;
+
+    const rule: CategoryRule = {
+      id: editing?.id || uuidv4(),
+      matchType: form.matchType,
+      pattern: form.pattern.trim(),
+      minValue,
+      maxValue,
+      category: form.category,
+      type: form.type || null,
+      learned: false // Edited by hand, so it now takes precedence like any typed rule
+    };
+
+    run(async () => {
+      await onSave(rule);
+      reset();
+    }, editing ? 'Regra atualizada!' : 'Regra criada!');
+  };
+
+  const handleEdit = (rule: CategoryRule) => {
+    setEditing(rule);
+    setForm({
+      matchType: rule.matchType,
+      pattern: rule.pattern,
+      minValue: rule.minValue?.toString() ?? '',
+      maxValue: rule.maxValue?.toString() ?? '',
+      category: rule.category,
+      type: rule.type || ''
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = (rule: CategoryRule) => {
+    run(async () => {
+      await onDelete(rule);
+      if (editing?.id === rule.id) reset();
+    }, 'Regra excluída.');
+  };
+
+  const handleLearn = async () => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      const created = await onLearn();
+      setFeedback({
+        message: created === 0
+          ? 'Nenhuma regra nova: os gastos anteriores já estão cobertos.'
+          : `${created} ${created === 1 ? 'regra aprendida' : 'regras aprendidas'} com os gastos anteriores.`,
+        type: 'success'
+      });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card
+        title={editing ? 'Editar regra' : 'Nova regra'}
+        subtitle="Despesas novas e importadas que se encaixam numa regra já entram na categoria certa."
+      >
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-4">
+            <Select label="Quando o nome" value={form.matchType} onChange={(e) => setForm({ ...form, matchType: e.target.value as RuleMatchType })}>
+              <option value="contains">Contém</option>
+              <option value="regex">Casa com a expressão regular</option>
+            </Select>
+          </div>
+          <div className="md:col-span-8">
+            <Input
+              label={form.matchType === 'regex' ? 'Expressão' : 'Texto'}
+              placeholder={form.matchType === 'regex' ? 'Ex: ^(uber|99)' : 'Ex: Uber'}
+              value={form.pattern}
+              onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Valor mínimo" type="number" placeholder="Qualquer" value={form.minValue} onChange={(e) => setForm({ ...form, minValue: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Valor máximo" type="number" placeholder="Qualquer" value={form.maxValue} onChange={(e) => setForm({ ...form, maxValue: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <CategorySelect categories={categories} value={form.category} onChange={(category) => setForm({ ...form, category })} />
+          </div>
+          <div className="md:col-span-3">
+            <Select label="Tipo ao importar" value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as ExpenseType | '' })}>
+              <option value="">Variável (padrão)</option>
+              <option value="variable">Variável</option>
+              <option value="fixed">Fixa</option>
+            </Select>
+          </div>
+          <div className="md:col-span-12 flex items-center justify-end gap-2 mt-4 pt-4 border-t border-slate-50">
+            {form.pattern.length > MAX_PATTERN_LENGTH
+              ? <span className="text-xs text-red-600 mr-auto">O padrão pode ter até {MAX_PATTERN_LENGTH} caracteres.</span>
+              : form.matchType === 'regex' && hasNestedRepetition(form.pattern)
+                ? <span className="text-xs text-red-600 mr-auto">Não repita um grupo que já tem repetição ou alternativas, como (a+)+.</span>
+                : form.pattern.trim() && !validPattern && <span className="text-xs text-red-600 mr-auto">Expressão regular inválida.</span>}
+            {!validRange && <span className="text-xs text-red-600 mr-auto">O valor mínimo é maior que o máximo.</span>}
+            {editing && <Button variant="ghost" onClick={reset}>Cancelar</Button>}
+            <Button onClick={handleSubmit} disabled={loading || !validPattern || !validRange}>
+              {editing ? 'Salvar Alteração' : <><PlusIcon className="mr-2" /> Adicionar</>}
+            </Button>
+          </div>
+        </div>
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+
+      <div className="flex justify-between items-center px-2">
+        <h3 className="font-semibold text-slate-700">{rules.length} {rules.length === 1 ? 'regra' : 'regras'}</h3>
+        <Button variant="ghost" onClick={handleLearn} disabled={loading} className="text-sm">
+          Aprender com os gastos anteriores
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {sortRules(rules).map(rule => (
+          <div key={rule.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:border-emerald-300 transition-all">
+            <div>
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold text-slate-800">{iconOf(rule.category)} {rule.category}</h4>
+                {rule.type === 'fixed' && <span className="text-xs bg-orange-50 text-orange-700 px-2 py-0.5 rounded-md border border-orange-100">Fixa</span>}
+                {rule.learned && <span className="text-xs bg-slate-100 text-slate-500 px-2 py-0.5 rounded-md border border-slate-200">Aprendida</span>}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">Quando o {describeCondition(rule)}</p>
+            </div>
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => handleEdit(rule)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                <EditIcon />
+              </button>
+              <button onClick={() => handleDelete(rule)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                <TrashIcon />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
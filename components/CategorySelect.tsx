@@ -0,0 +1,38 @@
+import React from 'react';
+import { Select } from './UIComponents';
+import { Category } from '../types';
+
+interface CategorySelectProps {
+  categories: Category[];
+  value: string;
+  onChange: (name: string) => void;
+  label?: string;
+  emptyLabel?: string; // When set, an empty first option (e.g. "Todas" in filters)
+}
+
+/**
+ * Active categories in a select, each top-level category followed by its subcategories.
+ * The current value stays selectable even when it was archived meanwhile.
+ */
+export const CategorySelect: React.FC<CategorySelectProps> = ({ categories, value, onChange, label = 'Categoria', emptyLabel }) => {
+  const active = categories.filter(c => !c.archived);
+  const roots = active
+    .filter(c => !c.parentId || !active.some(p => p.id === c.parentId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const isListed = !value || active.some(c => c.name === value);
+
+  return (
+    <Select label={label} value={value} onChange={(e) => onChange(e.target.value)}>
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {!isListed && <option value={value}>{value}</option>}
+      {roots.map(root => (
+        <React.Fragment key={root.id}>
+          <option value={root.name}>{root.icon} {root.name}</option>
+          {active.filter(c => c.parentId === root.id).map(sub => (
+            <option key={sub.id} value={sub.name}>&nbsp;&nbsp;&nbsp;↳ {sub.icon} {sub.name}</option>
+          ))}
+        </React.Fragment>
+      ))}
+    </Select>
+  );
+};
@@ -1,6 +1,12 @@
 import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend, LineChart, Line } from 'recharts';
 import { formatCurrency } from '../services/financeService';
+import { Category, CategorySpending, CategoryTrendPoint, MonthTrend } from '../types';
+
+// Chart item recharts hands to click handlers and tooltips; `payload` is the data row it was drawn from
+interface ChartItem<T> {
+  payload?: T;
+}
 
 interface ForecastData {
   name: string;
@@ -61,3 +67,138 @@ export const ForecastChart: React.FC<ForecastChartProps> = ({ data }) => {
     </div>
   );
 };
+
+const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+interface CategoryChartProps {
+  data: CategorySpending[];
+  selected?: string | null;
+  onSelect?: (category: string) => void;
+}
+
+// Donut of the month's spending per category; clicking a slice selects the category
+export const CategoryDonutChart: React.FC<CategoryChartProps> = ({ data, selected, onSelect }) => {
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie
+            data={data}
+            dataKey="total"
+            nameKey="category"
+            innerRadius="55%"
+            outerRadius="85%"
+            paddingAngle={2}
+            onClick={(entry: ChartItem<CategorySpending>) => entry.payload && onSelect?.(entry.payload.category)}
+            className="cursor-pointer"
+          >
+            {data.map(entry => (
+              <Cell
+                key={entry.category}
+                fill={entry.color}
+                opacity={!selected || selected === entry.category ? 1 : 0.35}
+                stroke="#fff"
+              />
+            ))}
+          </Pie>
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value: number, name: string, item: ChartItem<CategorySpending>) => [`${formatCurrency(value)} (${Math.round(item.payload?.percentage || 0)}%)`, name]}
+          />
+        </PieChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// Fixed and variable spending of each category, stacked
+export const FixedVariableChart: React.FC<CategoryChartProps> = ({ data, selected, onSelect }) => {
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+          <XAxis
+            dataKey="category"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: '#64748b', fontSize: 12 }}
+            dy={10}
+          />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: '#64748b', fontSize: 12 }}
+            tickFormatter={(value) => `R$${value/1000}k`}
+          />
+          <Tooltip
+            cursor={{ fill: '#f1f5f9' }}
+            contentStyle={tooltipStyle}
+            formatter={(value: number, name: string) => [formatCurrency(value), name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12, paddingTop: 16 }} />
+          <Bar dataKey="fixed" name="Fixas" stackId="type" fill="#f97316" onClick={(entry: ChartItem<CategorySpending>) => entry.payload && onSelect?.(entry.payload.category)} className="cursor-pointer">
+            {data.map(entry => (
+              <Cell key={entry.category} opacity={!selected || selected === entry.category ? 1 : 0.35} />
+            ))}
+          </Bar>
+          <Bar dataKey="variable" name="Variáveis" stackId="type" fill="#ef4444" radius={[4, 4, 0, 0]} onClick={(entry: ChartItem<CategorySpending>) => entry.payload && onSelect?.(entry.payload.category)} className="cursor-pointer">
+            {data.map(entry => (
+              <Cell key={entry.category} opacity={!selected || selected === entry.category ? 1 : 0.35} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const TREND_LINES: { key: keyof Omit<MonthTrend, 'monthId' | 'label'>; name: string; color: string }[] = [
+  { key: 'income', name: 'Renda', color: '#059669' },
+  { key: 'fixed', name: 'Fixas', color: '#f97316' },
+  { key: 'variable', name: 'Variáveis', color: '#ef4444' },
+  { key: 'balance', name: 'Saldo', color: '#3b82f6' },
+];
+
+// Income, fixed, variable and balance month by month
+export const TrendLineChart: React.FC<{ data: MonthTrend[] }> = ({ data }) => {
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+          <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} dy={10} />
+          <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} tickFormatter={(value) => `R$${value/1000}k`} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [formatCurrency(value), name]} />
+          <Legend wrapperStyle={{ fontSize: 12, paddingTop: 16 }} />
+          {TREND_LINES.map(line => (
+            <Line key={line.key} type="monotone" dataKey={line.key} name={line.name} stroke={line.color} strokeWidth={2} dot={{ r: 3 }} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// One line per category, month by month
+export const CategoryTrendChart: React.FC<{ data: CategoryTrendPoint[]; categories: Category[]; shown: string[] }> = ({ data, categories, shown }) => {
+  const rows = data.map(point => ({ label: point.label, ...Object.fromEntries(shown.map(name => [name, point.values[name] || 0])) }));
+  const colorOf = (name: string) => categories.find(c => c.name === name)?.color || '#94a3b8';
+
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={rows} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+          <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} dy={10} />
+          <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} tickFormatter={(value) => `R$${value/1000}k`} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [formatCurrency(value), name]} />
+          <Legend wrapperStyle={{ fontSize: 12, paddingTop: 16 }} />
+          {shown.map(name => (
+            <Line key={name} type="monotone" dataKey={name} name={name} stroke={colorOf(name)} strokeWidth={2} dot={{ r: 3 }} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Button, Card } from './UIComponents';
+import { formatCurrency } from '../services/financeService';
+import { Expense, Income, MonthFields, SaveMonthResult } from '../types';
+import { INCOME_TYPES } from '../constants';
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface ConflictResolution {
+  expenses: Record<string, ConflictChoice>;
+  incomes: Record<string, ConflictChoice>;
+  monthFields: ConflictChoice;
+}
+
+interface ConflictResolverProps {
+  conflict: Extract<SaveMonthResult, { status: 'conflict' }>;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+const ExpenseVersion: React.FC<{ expense: Expense | null }> = ({ expense }) => (
+  expense ? (
+    <div>
+      <p className="font-semibold text-slate-800">{expense.name}</p>
+      <p className="text-sm text-slate-500">{expense.category} · {new Date(expense.date + 'T12:00:00').toLocaleDateString('pt-BR')}</p>
+      <p className="font-bold text-slate-700 mt-1">{formatCurrency(expense.value)}</p>
+    </div>
+  ) : (
+    <p className="text-sm text-red-600 font-medium">Excluída</p>
+  )
+);
+
+const IncomeVersion: React.FC<{ income: Income | null }> = ({ income }) => (
+  income ? (
+    <div>
+      <p className="font-semibold text-slate-800">{income.name}</p>
+      <p className="text-sm text-slate-500">
+        {INCOME_TYPES.find(t => t.value === income.type)?.label} · {new Date(income.receivedDate + 'T12:00:00').toLocaleDateString('pt-BR')}
+      </p>
+      <p className="font-bold text-emerald-700 mt-1">{formatCurrency(income.value)}</p>
+    </div>
+  ) : (
+    <p className="text-sm text-red-600 font-medium">Excluída</p>
+  )
+);
+
+const MonthFieldsVersion: React.FC<{ fields: MonthFields }> = ({ fields }) => (
+  <div className="text-sm text-slate-600 space-y-1">
+    <p>{fields.closed ? 'Mês fechado' : 'Mês aberto'}</p>
+    {(fields.budgets || []).map(b => (
+      <p key={b.category} className="text-xs text-slate-400">Orçamento {b.category}: {formatCurrency(b.limit)}</p>
+    ))}
+  </div>
+);
+
+const VersionOption: React.FC<{ label: string; selected: boolean; onSelect: () => void; children: React.ReactNode }> = ({ label, selected, onSelect, children }) => (
+  <button
+    onClick={onSelect}
+    className={`flex-1 text-left p-4 rounded-xl border transition-all ${selected ? 'border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500' : 'border-slate-200 hover:border-emerald-300'}`}
+  >
+    <p className="text-xs uppercase tracking-wide font-medium text-slate-400 mb-2">{label}</p>
+    {children}
+  </button>
+);
+
+/**
+ * Shown when a save found that someone else changed the same data meanwhile.
+ * Each conflicting item shows both versions and the user picks which one to keep.
+ */
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ conflict, onResolve }) => {
+  // Every item starts on the version already saved by the partner
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+    Object.fromEntries([...conflict.expenses, ...conflict.incomes].map(c => [c.id, 'remote' as ConflictChoice]))
+  );
+  const [monthFieldsChoice, setMonthFieldsChoice] = useState<ConflictChoice>('remote');
+
+  const choose = (id: string, choice: ConflictChoice) => setChoices(prev => ({ ...prev, [id]: choice }));
+
+  const pick = (ids: string[]) => Object.fromEntries(ids.map(id => [id, choices[id]]));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-fade-in">
+      <Card
+        title={`Alterações simultâneas em ${conflict.month.label}`}
+        subtitle="Vocês dois mudaram os mesmos itens. Escolha qual versão manter em cada um."
+        className="w-full max-w-2xl shadow-2xl border-none max-h-[90vh]"
+      >
+        <div className="space-y-6 overflow-y-auto max-h-[55vh] pr-1">
+          {conflict.monthFields && (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <VersionOption label="Sua versão" selected={monthFieldsChoice === 'local'} onSelect={() => setMonthFieldsChoice('local')}>
+                <MonthFieldsVersion fields={conflict.monthFields.local} />
+              </VersionOption>
+              <VersionOption label="Versão salva pelo parceiro(a)" selected={monthFieldsChoice === 'remote'} onSelect={() => setMonthFieldsChoice('remote')}>
+                <MonthFieldsVersion fields={conflict.monthFields.remote} />
+              </VersionOption>
+            </div>
+          )}
+
+          {conflict.incomes.map(c => (
+            <div key={c.id} className="flex flex-col sm:flex-row gap-3">
+              <VersionOption label="Sua versão" selected={choices[c.id] === 'local'} onSelect={() => choose(c.id, 'local')}>
+                <IncomeVersion income={c.local} />
+              </VersionOption>
+              <VersionOption label="Versão salva pelo parceiro(a)" selected={choices[c.id] === 'remote'} onSelect={() => choose(c.id, 'remote')}>
+                <IncomeVersion income={c.remote} />
+              </VersionOption>
+            </div>
+          ))}
+
+          {conflict.expenses.map(c => (
+            <div key={c.id} className="flex flex-col sm:flex-row gap-3">
+              <VersionOption label="Sua versão" selected={choices[c.id] === 'local'} onSelect={() => choose(c.id, 'local')}>
+                <ExpenseVersion expense={c.local} />
+              </VersionOption>
+              <VersionOption label="Versão salva pelo parceiro(a)" selected={choices[c.id] === 'remote'} onSelect={() => choose(c.id, 'remote')}>
+                <ExpenseVersion expense={c.remote} />
+              </VersionOption>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end pt-6">
+          <Button
+            onClick={() => onResolve({
+              expenses: pick(conflict.expenses.map(c => c.id)),
+              incomes: pick(conflict.incomes.map(c => c.id)),
+              monthFields: monthFieldsChoice
+            })}
+            className="h-11 px-8"
+          >
+            Manter selecionadas
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
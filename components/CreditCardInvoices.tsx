@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Card, EmptyState, FeedbackMessage, PlusIcon, TrashIcon, EditIcon, CreditCardIcon } from './UIComponents';
+import { calculateInvoices, formatCurrency } from '../services/financeService';
+import { CreditCard, MonthData } from '../types';
+
+interface CreditCardInvoicesProps {
+  cards: CreditCard[];
+  months: MonthData[];
+  currentMonth: MonthData;
+  onSave: (card: CreditCard) => Promise<void>;
+  onDelete: (card: CreditCard) => Promise<void>;
+}
+
+interface CardForm {
+  name: string;
+  closingDay: string;
+  dueDay: string;
+}
+
+const emptyForm = (): CardForm => ({ name: '', closingDay: '1', dueDay: '10' });
+
+const toDay = (value: string) => Math.min(Math.max(Number(value) || 1, 1), 31);
+
+const formatDate = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+export const CreditCardInvoices: React.FC<CreditCardInvoicesProps> = ({ cards, months, currentMonth, onSave, onDelete }) => {
+  const [form, setForm] = useState<CardForm>(emptyForm());
+  const [editing, setEditing] = useState<CreditCard | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const invoices = calculateInvoices(currentMonth, cards);
+
+  // Invoices of the following months already registered (installments, purchases after the closing day...)
+  const upcomingMonths = [...months]
+    .filter(m => m.id > currentMonth.id)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) return;
+
+    const card: CreditCard = {
+      id: editing?.id || uuidv4(),
+      name: form.name.trim(),
+      closingDay: toDay(form.closingDay),
+      dueDay: toDay(form.dueDay)
+    };
+
+    run(async () => {
+      await onSave(card);
+      reset();
+    }, editing ? 'Cartão atualizado!' : 'Cartão cadastrado!');
+  };
+
+  const handleEdit = (card: CreditCard) => {
+    setEditing(card);
+    setForm({ name: card.name, closingDay: card.closingDay.toString(), dueDay: card.dueDay.toString() });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = (card: CreditCard) => {
+    if (!window.confirm(`Excluir o cartão "${card.name}"? Os gastos lançados nele continuam nos meses, sem cartão.`)) return;
+    run(() => onDelete(card), 'Cartão excluído.', 'danger');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card
+        title={editing ? 'Editar cartão' : 'Novo cartão de crédito'}
+        subtitle="Com o fechamento e o vencimento, cada gasto no cartão cai automaticamente no mês em que a fatura vence."
+      >
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-6">
+            <Input label="Nome do cartão" placeholder="Ex: Nubank, Itaú Visa..." value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Dia do fechamento" type="number" min={1} max={31} value={form.closingDay} onChange={(e) => setForm({ ...form, closingDay: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Dia do vencimento" type="number" min={1} max={31} value={form.dueDay} onChange={(e) => setForm({ ...form, dueDay: e.target.value })} />
+          </div>
+          <div className="md:col-span-12 flex justify-end gap-2 mt-4 pt-4 border-t border-slate-50">
+            {editing && <Button variant="ghost" onClick={reset}>Cancelar</Button>}
+            <Button onClick={handleSubmit} disabled={loading || !form.name.trim()}>
+              {editing ? 'Salvar Alteração' : <><PlusIcon className="mr-2" /> Adicionar</>}
+            </Button>
+          </div>
+        </div>
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+
+      {cards.length === 0 && (
+        <EmptyState
+          title="Nenhum cartão cadastrado"
+          description="Cadastre seus cartões para lançar gastos variáveis direto na fatura certa."
+          icon={<CreditCardIcon className="w-8 h-8" />}
+        />
+      )}
+
+      {cards.map(card => {
+        const invoice = invoices.find(i => i.cardId === card.id);
+        if (!invoice) return null;
+        const upcoming = upcomingMonths
+          .map(m => ({ month: m, total: calculateInvoices(m, [card])[0].total }))
+          .filter(u => u.total > 0);
+
+        return (
+          <Card key={card.id} className="group">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <CreditCardIcon className="w-5 h-5 text-emerald-600" />
+                  <h3 className="font-bold text-slate-800">{card.name}</h3>
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  Fatura de {currentMonth.label} · fecha em {formatDate(invoice.closingDate)} · vence em {formatDate(invoice.dueDate)}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="font-bold text-slate-800 text-xl">{formatCurrency(invoice.total)}</span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => handleEdit(card)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                    <EditIcon />
+                  </button>
+                  <button onClick={() => handleDelete(card)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                    <TrashIcon />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {invoice.expenses.length === 0 ? (
+              <p className="text-sm text-slate-400 mt-4">Nenhum gasto nesta fatura.</p>
+            ) : (
+              <ul className="mt-4 divide-y divide-slate-50">
+                {invoice.expenses.map(e => (
+                  <li key={e.id} className="flex justify-between py-2 text-sm">
+                    <span className="text-slate-600">
+                      <span className="text-slate-400 mr-2">{formatDate(e.date)}</span>
+                      {e.name}
+                      {e.installment && <span className="text-xs text-sky-700 ml-2">{e.installment.number}/{e.installment.total}</span>}
+                    </span>
+                    <span className="font-medium text-slate-700">{formatCurrency(e.value)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {upcoming.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-50 flex flex-wrap gap-2">
+                {upcoming.map(u => (
+                  <span key={u.month.id} className="text-xs bg-slate-50 text-slate-600 px-2 py-1 rounded-md border border-slate-100">
+                    {u.month.label}: {formatCurrency(u.total)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Button, Card, FeedbackMessage, UploadIcon } from './UIComponents';
+import {
+  Backup, BackupData, BACKUP_COLLECTION_LABELS, buildBackup, expensesToCsv, expensesToXlsx, parseBackup, previewRestore
+} from '../services/backup';
+import { CreditCard, HouseholdMember } from '../types';
+
+interface DataBackupProps {
+  data: BackupData;
+  members: HouseholdMember[];
+  cards: CreditCard[];
+  /** Writes the backup over the current data. */
+  onRestore: (backup: Backup) => Promise<void>;
+}
+
+const download = (fileName: string, content: string | Uint8Array, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Export of all the household's data (JSON backup, expenses CSV or XLSX) and restore of a backup.
+ */
+export const DataBackup: React.FC<DataBackupProps> = ({ data, members, cards, onRestore }) => {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const preview = backup ? previewRestore(data, backup) : null;
+  const collections = preview ? (Object.keys(preview) as (keyof BackupData)[]) : [];
+  const changes = preview ? collections.reduce((acc, key) => acc + preview[key].added.length + preview[key].changed.length, 0) : 0;
+
+  const handleExportJson = () => {
+    download(`casal-em-dias-backup-${today()}.json`, JSON.stringify(buildBackup(data), null, 2), 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    // The BOM makes Excel read the accents as UTF-8
+    download(`casal-em-dias-despesas-${today()}.csv`, '\uFEFF' + expensesToCsv(data.months, members, cards), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportXlsx = () => {
+    download(
+      `casal-em-dias-despesas-${today()}.xlsx`,
+      expensesToXlsx(data.months, members, cards),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFeedback(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err: any) {
+      setBackup(null);
+      setFeedback({ message: err.message || 'Não foi possível ler o arquivo.', type: 'danger' });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await onRestore(backup);
+      setBackup(null);
+      setFeedback({ message: 'Backup restaurado!', type: 'success' });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível restaurar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card title="Exportar dados" subtitle="Guarde uma cópia de tudo ou abra as despesas numa planilha.">
+        <div className="flex flex-col md:flex-row gap-3">
+          <Button onClick={handleExportJson} disabled={data.months.length === 0}>Backup completo (JSON)</Button>
+          <Button variant="secondary" onClick={handleExportXlsx} disabled={data.months.length === 0}>Despesas para Excel (XLSX)</Button>
+          <Button variant="secondary" onClick={handleExportCsv} disabled={data.months.length === 0}>Despesas para planilha (CSV)</Button>
+        </div>
+        <p className="text-xs text-slate-500 mt-3">
+          O XLSX e o CSV abrem no Excel, Google Planilhas e Numbers. Só o backup em JSON pode ser restaurado.
+        </p>
+      </Card>
+
+      <Card title="Restaurar backup" subtitle="O que está no arquivo substitui os dados atuais. Meses e itens que não estão no arquivo continuam como estão.">
+        <div className="flex flex-col gap-1.5">
+          <label className="text-sm font-medium text-slate-700 flex items-center gap-2"><UploadIcon className="w-4 h-4" /> Arquivo de backup</label>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            className="block w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-emerald-50 file:text-emerald-700 hover:file:bg-emerald-100"
+          />
+        </div>
+
+        {backup && preview && (
+          <div className="mt-6">
+            <p className="text-sm text-slate-600 mb-3">
+              Backup de {new Date(backup.exportedAt).toLocaleString('pt-BR')}.
+            </p>
+            <table className="w-full text-sm text-left">
+              <thead className="text-slate-500 uppercase font-medium text-xs">
+                <tr>
+                  <th className="px-3 py-3 bg-slate-50 rounded-l-lg"></th>
+                  <th className="px-3 py-3 bg-slate-50 text-right">Novos</th>
+                  <th className="px-3 py-3 bg-slate-50 text-right">Substituídos</th>
+                  <th className="px-3 py-3 bg-slate-50 text-right rounded-r-lg">Iguais</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {collections.map(key => (
+                  <tr key={key}>
+                    <td className="px-3 py-2 text-slate-700">{BACKUP_COLLECTION_LABELS[key]}</td>
+                    <td className="px-3 py-2 text-right font-medium text-emerald-600">{preview[key].added.length || '-'}</td>
+                    <td className="px-3 py-2 text-right font-medium text-amber-600">{preview[key].changed.length || '-'}</td>
+                    <td className="px-3 py-2 text-right text-slate-400">{preview[key].unchanged || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.months.changed.length > 0 && (
+              <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3 mt-4">
+                Estes meses voltam a ficar como no backup, e o que foi lançado neles depois disso se perde: {preview.months.changed.map(m => m.label).join(', ')}.
+              </p>
+            )}
+            <div className="flex items-center justify-end gap-2 mt-6 pt-4 border-t border-slate-50">
+              {changes === 0 && <span className="text-xs text-slate-500 mr-auto">Os dados atuais já estão iguais ao backup.</span>}
+              <Button variant="ghost" onClick={() => setBackup(null)}>Cancelar</Button>
+              <Button onClick={handleRestore} disabled={loading || changes === 0}>
+                {loading ? 'Restaurando...' : 'Restaurar'}
+              </Button>
+            </div>
+          </div>
+        )}
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+    </div>
+  );
+};
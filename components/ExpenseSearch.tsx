@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { Button, Card, Input, Select, EmptyState, StatCard, MoneyIcon, ShoppingBagIcon, PieChartIcon, WalletIcon } from './UIComponents';
+import { CategorySelect } from './CategorySelect';
+import { formatCurrency, getShortMonthLabel } from '../services/financeService';
+import {
+  ExpenseFilters, ExpenseSearchRow, ExpenseSort, ExpenseSortKey, JOINT_ACCOUNT,
+  calculateSearchTotals, emptyExpenseFilters, searchExpenses
+} from '../services/expenseSearch';
+import { Category, ExpenseType, HouseholdMember, MonthData } from '../types';
+
+interface ExpenseSearchProps {
+  months: MonthData[];
+  categories: Category[];
+  members: HouseholdMember[];
+  /** Opens the month and list the expense is in. */
+  onOpen: (row: ExpenseSearchRow) => void;
+}
+
+// Rows drawn at once; the totals always cover every match
+const PAGE_SIZE = 100;
+
+const toValue = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+const formatDate = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+/**
+ * Search across the expenses of every month, with filters, sortable columns and totals.
+ */
+export const ExpenseSearch: React.FC<ExpenseSearchProps> = ({ months, categories, members, onOpen }) => {
+  const [filters, setFilters] = useState<ExpenseFilters>(emptyExpenseFilters());
+  const [minValue, setMinValue] = useState('');
+  const [maxValue, setMaxValue] = useState('');
+  const [sort, setSort] = useState<ExpenseSort>({ key: 'date', direction: 'desc' });
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const rows = useMemo(
+    () => searchExpenses(months, { ...filters, minValue: toValue(minValue), maxValue: toValue(maxValue) }, sort, categories),
+    [months, filters, minValue, maxValue, sort, categories]
+  );
+  const totals = useMemo(() => calculateSearchTotals(rows), [rows]);
+
+  const update = (changes: Partial<ExpenseFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setShown(PAGE_SIZE);
+  };
+
+  const clear = () => {
+    setFilters(emptyExpenseFilters());
+    setMinValue('');
+    setMaxValue('');
+    setShown(PAGE_SIZE);
+  };
+
+  // Clicking the sorted column flips its direction; a new column starts with the largest/newest first
+  const toggleSort = (key: ExpenseSortKey) =>
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'name' || key === 'category' ? 'asc' : 'desc' });
+
+  const memberName = (userId?: string | null) => members.find(m => m.userId === userId)?.name || 'Conta conjunta';
+
+  const renderSortHeader = (sortKey: ExpenseSortKey, label: string, align: 'left' | 'right' = 'left', className = '') => (
+    <th className={`px-3 py-3 bg-slate-50 ${className}`}>
+      <button
+        onClick={() => toggleSort(sortKey)}
+        className={`uppercase font-medium text-xs flex items-center gap-1 w-full ${align === 'right' ? 'justify-end' : ''} ${sort.key === sortKey ? 'text-emerald-700' : 'text-slate-500 hover:text-slate-700'}`}
+      >
+        {label}
+        {sort.key === sortKey && <span>{sort.direction === 'asc' ? '▲' : '▼'}</span>}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Card title="Buscar despesas" subtitle="Procure em todos os meses e veja quanto foi gasto no que encontrar.">
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-6">
+            <Input label="Nome" placeholder="Ex: farmácia" value={filters.text} onChange={(e) => update({ text: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <CategorySelect categories={categories} value={filters.category} onChange={(category) => update({ category })} emptyLabel="Todas" />
+          </div>
+          <div className="md:col-span-3">
+            <Select label="Tipo" value={filters.type} onChange={(e) => update({ type: e.target.value as ExpenseType | '' })}>
+              <option value="">Todas</option>
+              <option value="fixed">Fixas</option>
+              <option value="variable">Variáveis</option>
+            </Select>
+          </div>
+          <div className="md:col-span-2">
+            <Input label="Valor mínimo" type="number" placeholder="Qualquer" value={minValue} onChange={(e) => { setMinValue(e.target.value); setShown(PAGE_SIZE); }} />
+          </div>
+          <div className="md:col-span-2">
+            <Input label="Valor máximo" type="number" placeholder="Qualquer" value={maxValue} onChange={(e) => { setMaxValue(e.target.value); setShown(PAGE_SIZE); }} />
+          </div>
+          <div className="md:col-span-2">
+            <Input label="De" type="date" value={filters.fromDate} onChange={(e) => update({ fromDate: e.target.value })} />
+          </div>
+          <div className="md:col-span-2">
+            <Input label="Até" type="date" value={filters.toDate} onChange={(e) => update({ toDate: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Select label="Pago por" value={filters.paidBy} onChange={(e) => update({ paidBy: e.target.value })}>
+              <option value="">Qualquer um</option>
+              <option value={JOINT_ACCOUNT}>Conta conjunta</option>
+              {members.map(m => <option key={m.userId} value={m.userId}>{m.name}</option>)}
+            </Select>
+          </div>
+          <div className="md:col-span-1 flex justify-end">
+            <Button variant="ghost" onClick={clear}>Limpar</Button>
+          </div>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard label={`${totals.count} ${totals.count === 1 ? 'despesa' : 'despesas'}`} value={formatCurrency(totals.total)} color="text-slate-800" icon={<WalletIcon />} />
+        <StatCard label="Fixas" value={formatCurrency(totals.fixed)} color="text-orange-600" icon={<MoneyIcon />} />
+        <StatCard label="Variáveis" value={formatCurrency(totals.variable)} color="text-red-600" icon={<ShoppingBagIcon />} />
+        <StatCard label="Média por despesa" value={formatCurrency(totals.average)} color="text-slate-600" icon={<PieChartIcon />} />
+      </div>
+
+      {rows.length === 0 ? (
+        <EmptyState
+          icon={<ShoppingBagIcon className="w-8 h-8 text-slate-400" />}
+          title="Nenhuma despesa encontrada"
+          description="Tente outro nome ou afrouxe os filtros."
+        />
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr>
+                  {renderSortHeader('date', 'Data', 'left', 'rounded-l-lg')}
+                  {renderSortHeader('name', 'Descrição')}
+                  {renderSortHeader('category', 'Categoria')}
+                  <th className="px-3 py-3 bg-slate-50 uppercase font-medium text-xs text-slate-500">Pago por</th>
+                  {renderSortHeader('month', 'Mês')}
+                  {renderSortHeader('value', 'Valor', 'right', 'rounded-r-lg')}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {rows.slice(0, shown).map(row => (
+                  <tr key={`${row.monthId}:${row.expense.id}`} onClick={() => onOpen(row)} className="hover:bg-slate-50 cursor-pointer">
+                    <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{formatDate(row.expense.date)}</td>
+                    <td className="px-3 py-2 text-slate-800">
+                      {row.expense.name}
+                      {row.expense.type === 'fixed' && <span className="ml-2 text-xs bg-orange-50 text-orange-700 px-2 py-0.5 rounded-md border border-orange-100">Fixa</span>}
+                    </td>
+                    <td className="px-3 py-2 text-slate-600">{row.expense.category}</td>
+                    <td className="px-3 py-2 text-slate-600">{memberName(row.expense.paidBy)}</td>
+                    <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{getShortMonthLabel(row.monthId)}</td>
+                    <td className="px-3 py-2 text-right font-medium text-slate-700 whitespace-nowrap">{formatCurrency(row.expense.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {rows.length > shown && (
+            <div className="flex justify-center mt-4">
+              <Button variant="ghost" onClick={() => setShown(prev => prev + PAGE_SIZE)}>
+                Mostrar mais ({rows.length - shown} restantes)
+              </Button>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
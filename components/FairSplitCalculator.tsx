@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Input, Card } from './UIComponents';
+import { calculateFairSplit, calculateTotals, formatCurrency } from '../services/financeService';
+import { FAIR_SPLIT_RULES } from '../constants';
+import { FairSplitConfig, Household, MonthData } from '../types';
+
+interface FairSplitCalculatorProps {
+  month: MonthData;
+  household: Household;
+}
+
+const DEFAULT_CONFIG: FairSplitConfig = { rule: 'proportional', allowances: {} };
+
+// The chosen rule is a preference of the couple on this device, kept per household
+const storageKey = (householdId: string) => `fairSplitConfig:${householdId}`;
+
+const loadConfig = (householdId: string): FairSplitConfig => {
+  try {
+    const saved = localStorage.getItem(storageKey(householdId));
+    return saved ? { ...DEFAULT_CONFIG, ...JSON.parse(saved) } : DEFAULT_CONFIG;
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const FairSplitCalculator: React.FC<FairSplitCalculatorProps> = ({ month, household }) => {
+  const [config, setConfig] = useState<FairSplitConfig>(() => loadConfig(household.id));
+
+  useEffect(() => {
+    localStorage.setItem(storageKey(household.id), JSON.stringify(config));
+  }, [config, household.id]);
+
+  const { fixed } = calculateTotals(month);
+  const shares = calculateFairSplit(month, household.members.map(m => m.userId), config);
+  const nameOf = (userId: string) => household.members.find(m => m.userId === userId)?.name || 'Sem pessoa';
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card title="Divisão justa das contas fixas" subtitle={`Quanto cada um deve transferir para a conta conjunta em ${month.label}.`}>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {FAIR_SPLIT_RULES.map(r => (
+            <button
+              key={r.value}
+              onClick={() => setConfig({ ...config, rule: r.value })}
+              className={`text-left p-4 rounded-xl border transition-all ${config.rule === r.value ? 'border-emerald-500 bg-emerald-50 ring-1 ring-emerald-500' : 'border-slate-200 hover:border-emerald-300'}`}
+            >
+              <p className="font-semibold text-slate-800">{r.label}</p>
+              <p className="text-xs text-slate-500 mt-1">{r.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {config.rule === 'allowance' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+            {household.members.map(m => (
+              <Input
+                key={m.userId}
+                label={`Mesada de ${m.name}`}
+                type="number"
+                placeholder="0.00"
+                value={config.allowances[m.userId] ?? ''}
+                onChange={(e) => setConfig({ ...config, allowances: { ...config.allowances, [m.userId]: Number(e.target.value) || 0 } })}
+              />
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {shares.map(s => (
+          <div key={s.memberId} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100 space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-semibold text-slate-800">{nameOf(s.memberId)}</h3>
+              <span className="text-xs bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-md border border-emerald-100">{s.percentage}%</span>
+            </div>
+            <div className="flex justify-between text-sm text-slate-500">
+              <span>Renda no mês</span>
+              <span className="font-medium text-slate-700">{formatCurrency(s.income)}</span>
+            </div>
+            <div className="flex justify-between items-center pt-2 border-t border-slate-50">
+              <span className="text-sm text-slate-500">Transferir</span>
+              <span className="text-xl font-bold text-emerald-600">{formatCurrency(s.contribution)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center p-4 bg-emerald-50 rounded-xl border border-emerald-100">
+        <span className="font-semibold text-emerald-800">Total de Despesas Fixas</span>
+        <span className="text-2xl font-bold text-emerald-600">{formatCurrency(fixed)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Button, Input, Card, FeedbackMessage } from './UIComponents';
+import { HouseholdAPI } from '../services/householdService';
+import { STORAGE_BACKEND } from '../services/supabaseClient';
+import { Household } from '../types';
+
+interface HouseholdSettingsProps {
+  household: Household;
+  currentUserId: string;
+  onHouseholdChange: (household: Household) => void;
+}
+
+export const HouseholdSettings: React.FC<HouseholdSettingsProps> = ({ household, currentUserId, onHouseholdChange }) => {
+  const [name, setName] = useState(household.name);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const isLocal = STORAGE_BACKEND === 'local';
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Algo deu errado. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = () => run(async () => {
+    await HouseholdAPI.rename(household.id, name.trim());
+    onHouseholdChange({ ...household, name: name.trim() });
+    setFeedback({ message: 'Nome atualizado!', type: 'success' });
+  });
+
+  const handleInvite = () => run(async () => {
+    await HouseholdAPI.inviteByEmail(household.id, inviteEmail);
+    setFeedback({ message: `Convite registrado! Quando ${inviteEmail} entrar no app, vocês já estarão juntos.`, type: 'success' });
+    setInviteEmail('');
+  });
+
+  const handleJoin = () => run(async () => {
+    if (!window.confirm('Você vai sair da sua casa atual e entrar na casa deste código. Continuar?')) return;
+    const joined = await HouseholdAPI.joinByCode(joinCode);
+    onHouseholdChange(joined);
+    setJoinCode('');
+  });
+
+  const handleRegenerateCode = () => run(async () => {
+    if (!window.confirm('O código atual deixará de funcionar. Gerar um novo código?')) return;
+    const inviteCode = await HouseholdAPI.regenerateInviteCode(household.id);
+    onHouseholdChange({ ...household, inviteCode });
+    setFeedback({ message: 'Novo código gerado! O anterior não funciona mais.', type: 'success' });
+  });
+
+  const handleCopyCode = () => {
+    navigator.clipboard?.writeText(household.inviteCode);
+    setFeedback({ message: 'Código copiado!', type: 'success' });
+  };
+
+  return (
+    <div className="max-w-xl mx-auto space-y-6 animate-fade-in">
+      <Card title="Nossa casa" subtitle="Os dois editam os mesmos meses, cada um com seu próprio login.">
+        <div className="space-y-6">
+          <div className="flex gap-3 items-end">
+            <Input label="Nome da casa" value={name} onChange={(e) => setName(e.target.value)} disabled={loading} />
+            <Button variant="secondary" onClick={handleRename} disabled={loading || !name.trim() || name === household.name}>
+              Salvar
+            </Button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 mb-3">Membros</h4>
+            <div className="space-y-2">
+              {household.members.map(member => (
+                <div key={member.userId} className="flex items-center p-3 rounded-xl border border-slate-100 bg-slate-50">
+                  <div className="w-9 h-9 rounded-full bg-emerald-600 text-white flex items-center justify-center font-bold text-sm mr-3">
+                    {member.name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1">
+                    <p className="font-semibold text-slate-800">
+                      {member.name} {member.userId === currentUserId && <span className="text-xs text-slate-400 font-normal">(você)</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">{member.email}</p>
+                  </div>
+                  {member.role === 'owner' && (
+                    <span className="text-xs bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-md">Criador(a)</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+        </div>
+      </Card>
+
+      {isLocal ? (
+        <Card title="Convidar parceiro(a)">
+          <p className="text-slate-500 text-sm">Convites não estão disponíveis no modo local. Os dados ficam apenas neste navegador.</p>
+        </Card>
+      ) : (
+        <>
+          <Card title="Convidar parceiro(a)" subtitle="Compartilhe o código ou envie um convite por email.">
+            <div className="space-y-6">
+              <div className="flex items-center justify-between p-4 bg-emerald-50 rounded-xl border border-emerald-100">
+                <div>
+                  <p className="text-xs text-emerald-700 uppercase tracking-wide font-medium">Código de convite</p>
+                  <p className="text-2xl font-bold text-emerald-800 tracking-widest">{household.inviteCode}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={handleCopyCode}>Copiar</Button>
+                  <Button variant="ghost" onClick={handleRegenerateCode} disabled={loading}>Gerar novo</Button>
+                </div>
+              </div>
+
+              <div className="flex gap-3 items-end">
+                <Input
+                  label="Email do parceiro(a)"
+                  type="email"
+                  placeholder="parceiro@email.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  disabled={loading}
+                />
+                <Button onClick={handleInvite} disabled={loading || !inviteEmail.includes('@')}>
+                  Convidar
+                </Button>
+              </div>
+            </div>
+          </Card>
+
+          <Card title="Recebeu um código?" subtitle="Entre na casa do seu parceiro(a).">
+            <div className="flex gap-3 items-end">
+              <Input
+                label="Código"
+                placeholder="Ex: 8F3A21BC94D0"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                disabled={loading}
+              />
+              <Button onClick={handleJoin} disabled={loading || joinCode.trim().length < 4}>
+                Entrar
+              </Button>
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Select, Card, EmptyState, FeedbackMessage, PlusIcon, EditIcon, ShoppingBagIcon } from './UIComponents';
+import { SplitFields, SplitFormValues, emptySplitForm, toSplitForm, toExpenseSplit } from './SplitFields';
+import { formatCurrency, generateMonthId, getInstallmentNumber, getInstallmentValue, getLastInstallmentMonth } from '../services/financeService';
+import { CategorySelect } from './CategorySelect';
+import { Category, Household, InstallmentPurchase } from '../types';
+
+interface InstallmentPurchasesProps {
+  purchases: InstallmentPurchase[];
+  categories: Category[];
+  household: Household;
+  defaultMemberId: string;
+  /** Saves the purchase and rewrites its installments in the open months. */
+  onSave: (purchase: InstallmentPurchase) => Promise<void>;
+  /** Cancels the installments from the current month on. */
+  onCancel: (purchase: InstallmentPurchase) => Promise<void>;
+}
+
+interface PurchaseForm extends SplitFormValues {
+  name: string;
+  totalValue: string;
+  installments: string;
+  firstMonth: string;
+  dueDay: string;
+  category: string;
+}
+
+export const InstallmentPurchases: React.FC<InstallmentPurchasesProps> = ({ purchases, categories, household, defaultMemberId, onSave, onCancel }) => {
+  const thisMonth = generateMonthId(new Date());
+
+  const emptyForm = (): PurchaseForm => ({
+    name: '', totalValue: '', installments: '10', firstMonth: thisMonth, dueDay: String(new Date().getDate()), category: 'Outros',
+    ...emptySplitForm(defaultMemberId)
+  });
+
+  const [form, setForm] = useState<PurchaseForm>(emptyForm());
+  const [editing, setEditing] = useState<InstallmentPurchase | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const installments = Math.max(Number(form.installments) || 0, 0);
+  const isValid = !!form.name.trim() && Number(form.totalValue) > 0 && installments >= 1 && !!form.firstMonth;
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+
+    const purchase: InstallmentPurchase = {
+      id: editing?.id || uuidv4(),
+      name: form.name.trim(),
+      totalValue: Number(form.totalValue),
+      installments,
+      firstMonth: form.firstMonth,
+      dueDay: Math.min(Math.max(Number(form.dueDay) || 1, 1), 31),
+      category: form.category,
+      paidBy: form.paidBy || null,
+      split: toExpenseSplit(form),
+      cancelledFrom: editing?.cancelledFrom ?? null
+    };
+
+    run(async () => {
+      await onSave(purchase);
+      reset();
+    }, editing ? 'Compra atualizada! As parcelas restantes foram ajustadas.' : 'Compra parcelada registrada!');
+  };
+
+  const handleEdit = (purchase: InstallmentPurchase) => {
+    setEditing(purchase);
+    setForm({
+      name: purchase.name,
+      totalValue: purchase.totalValue.toString(),
+      installments: purchase.installments.toString(),
+      firstMonth: purchase.firstMonth,
+      dueDay: purchase.dueDay.toString(),
+      category: purchase.category,
+      ...toSplitForm(purchase.paidBy, purchase.split, defaultMemberId)
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCancel = (purchase: InstallmentPurchase) => {
+    if (!window.confirm(`Cancelar as parcelas restantes de "${purchase.name}"? As parcelas de meses fechados e anteriores a este mês são mantidas.`)) return;
+    run(() => onCancel(purchase), 'Parcelas restantes canceladas.', 'danger');
+  };
+
+  // Where the purchase stands this month
+  const describeProgress = (purchase: InstallmentPurchase) => {
+    if (purchase.cancelledFrom) return `Cancelada a partir de ${purchase.cancelledFrom}`;
+    if (thisMonth < purchase.firstMonth) return `Começa em ${purchase.firstMonth}`;
+    const current = getInstallmentNumber(purchase, thisMonth);
+    return current ? `Parcela ${current}/${purchase.installments} este mês · termina em ${getLastInstallmentMonth(purchase)}` : 'Quitada';
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card
+        title={editing ? 'Editar compra parcelada' : 'Nova compra parcelada'}
+        subtitle="Informe o valor total e o número de parcelas. Cada mês recebe a sua parcela automaticamente."
+      >
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-5">
+            <Input label="O que foi comprado" placeholder="Ex: Geladeira, Notebook..." value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="md:col-span-4">
+            <CategorySelect categories={categories} value={form.category} onChange={(category) => setForm({ ...form, category })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Valor total" type="number" placeholder="0.00" value={form.totalValue} onChange={(e) => setForm({ ...form, totalValue: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Parcelas" type="number" min={1} max={120} value={form.installments} onChange={(e) => setForm({ ...form, installments: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Primeira parcela" type="month" value={form.firstMonth} onChange={(e) => setForm({ ...form, firstMonth: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Dia da cobrança" type="number" min={1} max={31} value={form.dueDay} onChange={(e) => setForm({ ...form, dueDay: e.target.value })} />
+          </div>
+          <div className="md:col-span-3 pb-3 text-sm text-slate-500">
+            {isValid && `${installments}x de ${formatCurrency(Number(form.totalValue) / installments)}`}
+          </div>
+          <SplitFields members={household.members} values={form} onChange={(values) => setForm({ ...form, ...values })} />
+          <div className="md:col-span-12 flex justify-end gap-2 mt-4 pt-4 border-t border-slate-50">
+            {editing && <Button variant="ghost" onClick={reset}>Cancelar</Button>}
+            <Button onClick={handleSubmit} disabled={loading || !isValid}>
+              {editing ? 'Salvar Alteração' : <><PlusIcon className="mr-2" /> Adicionar</>}
+            </Button>
+          </div>
+        </div>
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+
+      <div className="space-y-3">
+        {purchases.length === 0 && (
+          <EmptyState
+            title="Nenhuma compra parcelada"
+            description="Registre aqui compras como “10x sem juros” e as parcelas aparecem sozinhas em cada mês."
+            icon={<ShoppingBagIcon className="w-8 h-8" />}
+          />
+        )}
+
+        {purchases.map(p => (
+          <div key={p.id} className={`bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:border-emerald-300 hover:shadow-md transition-all ${p.cancelledFrom ? 'opacity-60' : ''}`}>
+            <div className="flex-1">
+              <div className="flex items-center gap-3">
+                <h4 className="font-semibold text-slate-800">{p.name}</h4>
+                <span className="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded-md border border-slate-200">
+                  {p.installments}x de {formatCurrency(getInstallmentValue(p, p.installments))}
+                </span>
+              </div>
+              <p className="text-xs text-slate-400 mt-1">{describeProgress(p)}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <span className="font-bold text-slate-700 text-lg">{formatCurrency(p.totalValue)}</span>
+              {!p.cancelledFrom && (
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => handleEdit(p)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                    <EditIcon />
+                  </button>
+                  <button onClick={() => handleCancel(p)} className="px-3 py-2 text-xs font-medium text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                    Cancelar
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
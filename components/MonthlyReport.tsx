@@ -0,0 +1,252 @@
+import React from 'react';
+import { Button } from './UIComponents';
+import {
+  calculateSavingsBalance, calculateSpendingByCategory, calculateTotals, compareWithPreviousMonth, formatCurrency,
+  getEntryMonthId, getMonthStatus, getShortMonthLabel
+} from '../services/financeService';
+import { SAVINGS_ENTRY_TYPES } from '../constants';
+import { Category, Expense, ExpenseType, Household, MonthData, MonthStatus, SavingsEntry, YearOverYearRow } from '../types';
+
+interface MonthlyReportProps {
+  month: MonthData;
+  months: MonthData[];
+  categories: Category[];
+  household: Household | null;
+  savingsEntries: SavingsEntry[];
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<MonthStatus, string> = {
+  open: 'Aberto',
+  closed: 'Fechado',
+  reopened: 'Reaberto',
+};
+
+const formatDate = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+// Spending going up is bad; only the income and the balance are better when they grow
+const ChangeCell: React.FC<{ row: YearOverYearRow; higherIsBetter?: boolean }> = ({ row, higherIsBetter = false }) => {
+  if (row.change === null) return <td className="py-1.5 text-right text-slate-400">-</td>;
+  const improved = higherIsBetter ? row.change >= 0 : row.change <= 0;
+  return (
+    <td className={`py-1.5 text-right font-medium ${improved ? 'text-emerald-600' : 'text-red-600'}`}>
+      {row.change > 0 ? '+' : ''}{Math.round(row.change)}%
+    </td>
+  );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mt-8 break-inside-avoid">
+    <h2 className="text-sm font-bold uppercase tracking-wide text-slate-500 border-b border-slate-200 pb-1 mb-3">{title}</h2>
+    {children}
+  </section>
+);
+
+/**
+ * One page summary of a month for the couple's monthly review. Printed (or saved as PDF)
+ * with the browser's print dialog; the print styles in index.css hide the rest of the app.
+ */
+export const MonthlyReport: React.FC<MonthlyReportProps> = ({ month, months, categories, household, savingsEntries, onBack }) => {
+  const totals = calculateTotals(month);
+  const spending = calculateSpendingByCategory(month, categories);
+  const comparison = compareWithPreviousMonth(months, month.id, categories);
+  const status = getMonthStatus(month);
+
+  const monthEntries = savingsEntries
+    .filter(e => getEntryMonthId(e) === month.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const balanceAtMonthEnd = calculateSavingsBalance(savingsEntries.filter(e => getEntryMonthId(e) <= month.id));
+  const currentBalance = calculateSavingsBalance(savingsEntries);
+
+  const memberName = (userId?: string | null) => household?.members.find(m => m.userId === userId)?.name || 'Conta conjunta';
+  const entryLabel = (entry: SavingsEntry) => SAVINGS_ENTRY_TYPES.find(t => t.value === entry.type)?.label || entry.type;
+
+  const renderExpenses = (type: ExpenseType, title: string) => {
+    const expenses: Expense[] = month.expenses
+      .filter(e => e.type === type)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return (
+      <Section title={`${title} (${formatCurrency(type === 'fixed' ? totals.fixed : totals.variable)})`}>
+        {expenses.length === 0 ? (
+          <p className="text-sm text-slate-400">Nenhuma despesa.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500 text-left">
+              <tr>
+                <th className="py-1.5 font-medium">Data</th>
+                <th className="py-1.5 font-medium">Descrição</th>
+                <th className="py-1.5 font-medium">Categoria</th>
+                <th className="py-1.5 font-medium">Pago por</th>
+                <th className="py-1.5 font-medium text-right">Valor</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {expenses.map(e => (
+                <tr key={e.id}>
+                  <td className="py-1.5 text-slate-500 whitespace-nowrap">{formatDate(e.date)}</td>
+                  <td className="py-1.5 text-slate-800">
+                    {e.name}
+                    {e.installment && <span className="text-slate-400"> ({e.installment.number}/{e.installment.total})</span>}
+                  </td>
+                  <td className="py-1.5 text-slate-600">{e.category}</td>
+                  <td className="py-1.5 text-slate-600">{memberName(e.paidBy)}</td>
+                  <td className="py-1.5 text-right text-slate-800 whitespace-nowrap">{formatCurrency(e.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Section>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <Button variant="ghost" onClick={onBack}>Voltar</Button>
+        <Button onClick={() => window.print()}>Imprimir ou salvar PDF</Button>
+      </div>
+
+      <div id="monthly-report" className="bg-white rounded-2xl shadow-sm border border-slate-100 p-8 md:p-12 text-slate-800">
+        <header className="flex justify-between items-start border-b-2 border-emerald-600 pb-4">
+          <div>
+            <p className="text-xs font-bold uppercase tracking-widest text-emerald-700">Casal em Dias</p>
+            <h1 className="text-2xl font-bold mt-1">Relatório de {month.label}</h1>
+            {household && <p className="text-sm text-slate-500">{household.name}</p>}
+          </div>
+          <div className="text-right text-xs text-slate-500">
+            <p>Mês {STATUS_LABELS[status].toLowerCase()}</p>
+            <p>Gerado em {new Date().toLocaleDateString('pt-BR')}</p>
+          </div>
+        </header>
+
+        <Section title="Resumo">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Renda', value: totals.income, color: 'text-emerald-600' },
+              { label: 'Despesas fixas', value: totals.fixed, color: 'text-orange-600' },
+              { label: 'Despesas variáveis', value: totals.variable, color: 'text-red-600' },
+              { label: totals.balance >= 0 ? 'Sobrou' : 'Faltou', value: totals.balance, color: totals.balance >= 0 ? 'text-emerald-600' : 'text-red-600' },
+            ].map(item => (
+              <div key={item.label} className="border border-slate-100 rounded-lg p-3">
+                <p className="text-xs text-slate-500">{item.label}</p>
+                <p className={`text-lg font-bold ${item.color}`}>{formatCurrency(item.value)}</p>
+              </div>
+            ))}
+          </div>
+          {totals.income > 0 && (
+            <p className="text-xs text-slate-500 mt-2">
+              As despesas consumiram {Math.round((totals.totalExpenses / totals.income) * 100)}% da renda.
+            </p>
+          )}
+        </Section>
+
+        <Section title="Gastos por categoria">
+          {spending.length === 0 ? (
+            <p className="text-sm text-slate-400">Nenhuma despesa.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 text-left">
+                <tr>
+                  <th className="py-1.5 font-medium">Categoria</th>
+                  <th className="py-1.5 font-medium text-right">Fixas</th>
+                  <th className="py-1.5 font-medium text-right">Variáveis</th>
+                  <th className="py-1.5 font-medium text-right">Total</th>
+                  <th className="py-1.5 font-medium w-1/4 pl-4">%</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {spending.map(s => (
+                  <tr key={s.category}>
+                    <td className="py-1.5">{s.icon} {s.category}</td>
+                    <td className="py-1.5 text-right text-slate-600">{formatCurrency(s.fixed)}</td>
+                    <td className="py-1.5 text-right text-slate-600">{formatCurrency(s.variable)}</td>
+                    <td className="py-1.5 text-right font-medium">{formatCurrency(s.total)}</td>
+                    <td className="py-1.5 pl-4">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div className="h-full rounded-full" style={{ width: `${s.percentage}%`, backgroundColor: s.color }} />
+                        </div>
+                        <span className="text-xs text-slate-500 w-8 text-right">{Math.round(s.percentage)}%</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Section>
+
+        <Section title={comparison ? `Comparação com ${getShortMonthLabel(comparison.previousMonthId)}` : 'Comparação com o mês anterior'}>
+          {!comparison ? (
+            <p className="text-sm text-slate-400">O mês anterior não foi registrado.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 text-left">
+                <tr>
+                  <th className="py-1.5 font-medium"></th>
+                  <th className="py-1.5 font-medium text-right">{getShortMonthLabel(comparison.monthId)}</th>
+                  <th className="py-1.5 font-medium text-right">{getShortMonthLabel(comparison.previousMonthId)}</th>
+                  <th className="py-1.5 font-medium text-right">Variação</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {comparison.totals.map(row => (
+                  <tr key={row.label} className="font-medium">
+                    <td className="py-1.5">{row.label}</td>
+                    <td className="py-1.5 text-right">{formatCurrency(row.current)}</td>
+                    <td className="py-1.5 text-right text-slate-500">{formatCurrency(row.previous)}</td>
+                    <ChangeCell row={row} higherIsBetter={row.label === 'Renda' || row.label === 'Saldo'} />
+                  </tr>
+                ))}
+                {comparison.categories.map(row => (
+                  <tr key={row.label}>
+                    <td className="py-1.5 pl-4 text-slate-600">{row.label}</td>
+                    <td className="py-1.5 text-right text-slate-600">{formatCurrency(row.current)}</td>
+                    <td className="py-1.5 text-right text-slate-400">{formatCurrency(row.previous)}</td>
+                    <ChangeCell row={row} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Section>
+
+        {renderExpenses('fixed', 'Despesas fixas')}
+        {renderExpenses('variable', 'Despesas variáveis')}
+
+        <Section title="Caixinha">
+          <div className="grid grid-cols-2 gap-4 mb-3">
+            <div className="border border-slate-100 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Saldo ao fim de {month.label}</p>
+              <p className="text-lg font-bold text-emerald-700">{formatCurrency(balanceAtMonthEnd)}</p>
+            </div>
+            <div className="border border-slate-100 rounded-lg p-3">
+              <p className="text-xs text-slate-500">Saldo hoje</p>
+              <p className="text-lg font-bold text-emerald-700">{formatCurrency(currentBalance)}</p>
+            </div>
+          </div>
+          {monthEntries.length === 0 ? (
+            <p className="text-sm text-slate-400">
+              {month.closed ? 'Nenhuma movimentação neste mês.' : 'O mês ainda não foi fechado, então o saldo não foi para a Caixinha.'}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-slate-100">
+                {monthEntries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="py-1.5 text-slate-500 whitespace-nowrap">{formatDate(entry.date)}</td>
+                    <td className="py-1.5">{entryLabel(entry)}{entry.description && <span className="text-slate-500"> · {entry.description}</span>}</td>
+                    <td className={`py-1.5 text-right font-medium ${entry.type === 'withdrawal' ? 'text-red-600' : 'text-emerald-600'}`}>
+                      {entry.type === 'withdrawal' ? '-' : '+'}{formatCurrency(entry.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Select, Card, EmptyState, FeedbackMessage, PlusIcon, TrashIcon, EditIcon, CalendarIcon } from './UIComponents';
+import { formatCurrency, generateMonthId } from '../services/financeService';
+import { SplitFields, SplitFormValues, emptySplitForm, toSplitForm, toExpenseSplit } from './SplitFields';
+import { CategorySelect } from './CategorySelect';
+import { RECURRENCE_FREQUENCIES } from '../constants';
+import { Category, Household, RecurrenceFrequency, RecurringExpense } from '../types';
+
+interface RecurringExpensesProps {
+  templates: RecurringExpense[];
+  categories: Category[];
+  household: Household;
+  defaultMemberId: string;
+  /** `propagate`: also rewrite the expenses of open months from the current month on. */
+  onSave: (template: RecurringExpense, propagate: boolean) => Promise<void>;
+  onDelete: (template: RecurringExpense, propagate: boolean) => Promise<void>;
+}
+
+interface TemplateForm extends SplitFormValues {
+  name: string;
+  value: string;
+  category: string;
+  frequency: RecurrenceFrequency;
+  dueDay: string;
+  startMonth: string;
+  endMonth: string;
+}
+
+export const RecurringExpenses: React.FC<RecurringExpensesProps> = ({ templates, categories, household, defaultMemberId, onSave, onDelete }) => {
+  const emptyForm = (): TemplateForm => ({
+    name: '', value: '', category: 'Casa', frequency: 'monthly', dueDay: '10',
+    startMonth: generateMonthId(new Date()), endMonth: '',
+    ...emptySplitForm(defaultMemberId)
+  });
+
+  const [form, setForm] = useState<TemplateForm>(emptyForm());
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [propagate, setPropagate] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const nameOf = (userId: string | null | undefined) => household.members.find(m => m.userId === userId)?.name || 'Conta conjunta';
+  const frequencyLabel = (f: RecurrenceFrequency) => RECURRENCE_FREQUENCIES.find(r => r.value === f)?.label;
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setPropagate(true);
+  };
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim() || !form.value || !form.startMonth) return;
+
+    const template: RecurringExpense = {
+      id: editing?.id || uuidv4(),
+      name: form.name.trim(),
+      value: Number(form.value),
+      category: form.category,
+      frequency: form.frequency,
+      dueDay: Math.min(Math.max(Number(form.dueDay) || 1, 1), 31),
+      startMonth: form.startMonth,
+      endMonth: form.endMonth || null,
+      paidBy: form.paidBy || null,
+      split: toExpenseSplit(form)
+    };
+
+    run(async () => {
+      await onSave(template, propagate);
+      reset();
+    }, editing ? 'Recorrente atualizada!' : 'Recorrente criada!');
+  };
+
+  const handleEdit = (template: RecurringExpense) => {
+    setEditing(template);
+    setForm({
+      name: template.name,
+      value: template.value.toString(),
+      category: template.category,
+      frequency: template.frequency,
+      dueDay: template.dueDay.toString(),
+      startMonth: template.startMonth,
+      endMonth: template.endMonth || '',
+      ...toSplitForm(template.paidBy, template.split, defaultMemberId)
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    if (!window.confirm(`Excluir a recorrente "${template.name}"?`)) return;
+    const removeFromOpenMonths = window.confirm('Remover também dos meses abertos a partir deste mês? (Cancelar mantém as despesas já geradas.)');
+    run(() => onDelete(template, removeFromOpenMonths), 'Recorrente excluída.', 'danger');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+      <Card
+        title={editing ? 'Editar recorrente' : 'Nova despesa recorrente'}
+        subtitle="Contas que se repetem (aluguel, internet, IPVA...). Cada mês novo já nasce com elas."
+      >
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-5">
+            <Input label="Nome" placeholder="Ex: Aluguel, IPVA..." value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="md:col-span-4">
+            <CategorySelect categories={categories} value={form.category} onChange={(category) => setForm({ ...form, category })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Valor" type="number" placeholder="0.00" value={form.value} onChange={(e) => setForm({ ...form, value: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Select label="Frequência" value={form.frequency} onChange={(e) => setForm({ ...form, frequency: e.target.value as RecurrenceFrequency })}>
+              {RECURRENCE_FREQUENCIES.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </Select>
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Dia do vencimento" type="number" min={1} max={31} value={form.dueDay} onChange={(e) => setForm({ ...form, dueDay: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Primeiro mês" type="month" value={form.startMonth} onChange={(e) => setForm({ ...form, startMonth: e.target.value })} />
+          </div>
+          <div className="md:col-span-3">
+            <Input label="Último mês (opcional)" type="month" value={form.endMonth} onChange={(e) => setForm({ ...form, endMonth: e.target.value })} />
+          </div>
+          <SplitFields members={household.members} values={form} onChange={(values) => setForm({ ...form, ...values })} payerLabel="Quem paga" />
+          <div className="md:col-span-12 flex flex-col md:flex-row md:items-center justify-between gap-4 mt-4 pt-4 border-t border-slate-50">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={propagate} onChange={(e) => setPropagate(e.target.checked)} className="rounded text-emerald-600" />
+              Aplicar também aos meses abertos a partir deste mês
+            </label>
+            <div className="flex gap-2 justify-end">
+              {editing && <Button variant="ghost" onClick={reset}>Cancelar</Button>}
+              <Button onClick={handleSubmit} disabled={loading || !form.name.trim() || !form.value || !form.startMonth}>
+                {editing ? 'Salvar Alteração' : <><PlusIcon className="mr-2" /> Adicionar</>}
+              </Button>
+            </div>
+          </div>
+        </div>
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+
+      <div className="space-y-3">
+        {templates.length === 0 && (
+          <EmptyState
+            title="Nenhuma recorrente ainda"
+            description="Cadastre aqui as contas que se repetem e elas serão lançadas sozinhas em cada mês novo."
+            icon={<CalendarIcon className="w-8 h-8" />}
+          />
+        )}
+
+        {templates.map(t => (
+          <div key={t.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between group hover:border-emerald-300 hover:shadow-md transition-all">
+            <div className="flex-1">
+              <div className="flex items-center gap-3">
+                <h4 className="font-semibold text-slate-800">{t.name}</h4>
+                <span className="text-xs bg-emerald-50 text-emerald-700 px-2 py-0.5 rounded-md border border-emerald-100">{frequencyLabel(t.frequency)}</span>
+              </div>
+              <p className="text-xs text-slate-400 mt-1">
+                Vence dia {t.dueDay} · desde {t.startMonth}{t.endMonth ? ` até ${t.endMonth}` : ''} · {nameOf(t.paidBy)}
+              </p>
+            </div>
+            <div className="flex items-center gap-6">
+              <span className="font-bold text-slate-700 text-lg">{formatCurrency(t.value)}</span>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => handleEdit(t)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                  <EditIcon />
+                </button>
+                <button onClick={() => handleDelete(t)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                  <TrashIcon />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Input, Select, EmptyState, StatCard, TrendingUpIcon, WalletIcon, MoneyIcon, ShoppingBagIcon, PieChartIcon } from './UIComponents';
+import { TrendLineChart, CategoryTrendChart } from './Charts';
+import {
+  calculateMonthlyTrend, calculateTrendAverages, calculateCategoryTrend, compareWithLastYear, formatCurrency, getRootCategoryName
+} from '../services/financeService';
+import { Category, MonthData, YearOverYearRow } from '../types';
+
+interface ReportsProps {
+  months: MonthData[];
+  categories: Category[];
+  currentMonthId: string;
+}
+
+// Categories drawn in the trend chart by default
+const TOP_CATEGORIES = 5;
+
+const ChangeBadge: React.FC<{ row: YearOverYearRow; higherIsBetter?: boolean }> = ({ row, higherIsBetter = false }) => {
+  if (row.change === null) return <span className="text-xs text-slate-400">novo</span>;
+  const improved = higherIsBetter ? row.change >= 0 : row.change <= 0;
+  return (
+    <span className={`text-xs font-medium ${improved ? 'text-emerald-600' : 'text-red-600'}`}>
+      {row.change > 0 ? '+' : ''}{Math.round(row.change)}%
+    </span>
+  );
+};
+
+/**
+ * Trends across the loaded months and a comparison of a month with the same month last year.
+ */
+export const Reports: React.FC<ReportsProps> = ({ months, categories, currentMonthId }) => {
+  const sortedIds = useMemo(() => months.map(m => m.id).sort(), [months]);
+
+  // Last 12 recorded months up to the open one
+  const [toMonthId, setToMonthId] = useState(currentMonthId || sortedIds[sortedIds.length - 1] || '');
+  const [fromMonthId, setFromMonthId] = useState(() => {
+    const upTo = sortedIds.filter(id => id <= toMonthId);
+    return upTo[Math.max(upTo.length - 12, 0)] || toMonthId;
+  });
+  const [comparedMonthId, setComparedMonthId] = useState(currentMonthId || toMonthId);
+  const [selectedCategory, setSelectedCategory] = useState('');
+
+  const trend = useMemo(() => calculateMonthlyTrend(months, fromMonthId, toMonthId), [months, fromMonthId, toMonthId]);
+  const averages = useMemo(() => calculateTrendAverages(trend), [trend]);
+  const categoryTrend = useMemo(
+    () => calculateCategoryTrend(months, fromMonthId, toMonthId, categories),
+    [months, fromMonthId, toMonthId, categories]
+  );
+  const yearOverYear = useMemo(() => compareWithLastYear(months, comparedMonthId, categories), [months, comparedMonthId, categories]);
+
+  // Categories ranked by spending over the range
+  const rankedCategories = useMemo(() => {
+    const totals = new Map<string, number>();
+    categoryTrend.forEach(p => Object.keys(p.values).forEach(name => totals.set(name, (totals.get(name) || 0) + p.values[name])));
+    return [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  }, [categoryTrend]);
+
+  const shownCategories = selectedCategory ? [selectedCategory] : rankedCategories.slice(0, TOP_CATEGORIES);
+  const rootCategories = categories.filter(c => getRootCategoryName(c.name, categories) === c.name);
+
+  if (months.length === 0) {
+    return (
+      <EmptyState
+        title="Nada para comparar ainda"
+        description="Os relatórios aparecem assim que houver meses registrados."
+        icon={<TrendingUpIcon className="w-8 h-8" />}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <Card title="Período" subtitle="Escolha os meses que entram nos relatórios.">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input label="De" type="month" value={fromMonthId} max={toMonthId} onChange={(e) => setFromMonthId(e.target.value)} />
+          <Input label="Até" type="month" value={toMonthId} min={fromMonthId} onChange={(e) => setToMonthId(e.target.value)} />
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard label="Renda média" value={formatCurrency(averages.income)} color="text-emerald-600" icon={<WalletIcon />} />
+        <StatCard label="Fixas em média" value={formatCurrency(averages.fixed)} color="text-orange-600" icon={<MoneyIcon />} />
+        <StatCard label="Variáveis em média" value={formatCurrency(averages.variable)} color="text-red-600" icon={<ShoppingBagIcon />} />
+        <StatCard
+          label="Saldo médio"
+          value={formatCurrency(averages.balance)}
+          color={averages.balance >= 0 ? "text-emerald-600" : "text-red-600"}
+          icon={<PieChartIcon />}
+        />
+      </div>
+
+      <Card title="Evolução mês a mês" subtitle={`${trend.length} ${trend.length === 1 ? 'mês registrado' : 'meses registrados'} no período.`}>
+        {trend.length === 0 ? (
+          <p className="text-sm text-slate-400">Nenhum mês registrado neste período.</p>
+        ) : (
+          <TrendLineChart data={trend} />
+        )}
+      </Card>
+
+      <Card title="Gastos por categoria ao longo do tempo">
+        <div className="max-w-xs mb-4">
+          <Select value={selectedCategory} onChange={(e) => setSelectedCategory(e.target.value)}>
+            <option value="">As {TOP_CATEGORIES} maiores categorias</option>
+            {rootCategories.map(c => <option key={c.id} value={c.name}>{c.icon} {c.name}</option>)}
+          </Select>
+        </div>
+        {categoryTrend.length === 0 ? (
+          <p className="text-sm text-slate-400">Nenhum gasto neste período.</p>
+        ) : (
+          <CategoryTrendChart data={categoryTrend} categories={categories} shown={shownCategories} />
+        )}
+      </Card>
+
+      <Card title="Comparar com o ano passado" subtitle="O mesmo mês, um ano antes.">
+        <div className="max-w-xs mb-6">
+          <Select value={comparedMonthId} onChange={(e) => setComparedMonthId(e.target.value)}>
+            {[...months].sort((a, b) => b.id.localeCompare(a.id)).map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </Select>
+        </div>
+        {!yearOverYear ? (
+          <p className="text-sm text-slate-400">Não há registro do mesmo mês no ano anterior.</p>
+        ) : (
+          <table className="w-full text-sm text-left">
+            <thead className="text-slate-500 uppercase font-medium text-xs">
+              <tr>
+                <th className="px-4 py-3 bg-slate-50 rounded-l-lg"></th>
+                <th className="px-4 py-3 bg-slate-50 text-right">{months.find(m => m.id === yearOverYear.previousMonthId)?.label}</th>
+                <th className="px-4 py-3 bg-slate-50 text-right">{months.find(m => m.id === yearOverYear.monthId)?.label}</th>
+                <th className="px-4 py-3 bg-slate-50 text-right rounded-r-lg">Variação</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {yearOverYear.totals.map((row, index) => (
+                <tr key={row.label} className="font-medium">
+                  <td className="px-4 py-3 text-slate-800">{row.label}</td>
+                  <td className="px-4 py-3 text-right text-slate-500">{formatCurrency(row.previous)}</td>
+                  <td className="px-4 py-3 text-right text-slate-800">{formatCurrency(row.current)}</td>
+                  {/* Income (first) and balance (last) are better when they grow */}
+                  <td className="px-4 py-3 text-right"><ChangeBadge row={row} higherIsBetter={index === 0 || index === yearOverYear.totals.length - 1} /></td>
+                </tr>
+              ))}
+              {yearOverYear.categories.map(row => (
+                <tr key={row.label}>
+                  <td className="px-4 py-3 pl-8 text-slate-600">{categories.find(c => c.name === row.label)?.icon} {row.label}</td>
+                  <td className="px-4 py-3 text-right text-slate-500">{formatCurrency(row.previous)}</td>
+                  <td className="px-4 py-3 text-right text-slate-700">{formatCurrency(row.current)}</td>
+                  <td className="px-4 py-3 text-right"><ChangeBadge row={row} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+    </div>
+  );
+};
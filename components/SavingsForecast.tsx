@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Input, Select } from './UIComponents';
+import { ForecastChart } from './Charts';
+import { formatCurrency, generateMonthId } from '../services/financeService';
+import { ForecastAssumptions, projectSavings } from '../services/forecast';
+import { InstallmentPurchase, MonthData, RecurringExpense, SavingsEntry } from '../types';
+
+interface SavingsForecastProps {
+  months: MonthData[];
+  savingsEntries: SavingsEntry[];
+  recurringExpenses: RecurringExpense[];
+  purchases: InstallmentPurchase[];
+  currentMonthId: string; // Today's month: the projection starts here when no month was closed
+}
+
+const HORIZONS = [6, 12, 18, 24];
+
+/**
+ * Caixinha projection with editable "what if" assumptions (a raise, a new fixed cost).
+ */
+export const SavingsForecast: React.FC<SavingsForecastProps> = ({ months, savingsEntries, recurringExpenses, purchases, currentMonthId }) => {
+  // "What if" changes start this month unless the user picks another one
+  const [assumptions, setAssumptions] = useState<ForecastAssumptions>(() => {
+    const today = generateMonthId(new Date());
+    return { horizonMonths: 12, raisePercentage: 0, raiseFrom: today, extraFixedCost: 0, extraFixedCostFrom: today };
+  });
+
+  const { points, baseline } = useMemo(
+    () => projectSavings(months, savingsEntries, recurringExpenses, purchases, currentMonthId, assumptions),
+    [months, savingsEntries, recurringExpenses, purchases, currentMonthId, assumptions]
+  );
+
+  const update = (changes: Partial<ForecastAssumptions>) => setAssumptions(prev => ({ ...prev, ...changes }));
+
+  const lastReal = [...points].reverse().find(p => p.type === 'real');
+  const last = points[points.length - 1];
+  const projectedGain = (last?.value || 0) - (lastReal?.value || 0);
+
+  return (
+    <Card title="Projeção da Caixinha" subtitle="Quanto vocês terão guardado se o ritmo dos últimos meses continuar.">
+      {baseline.sampleSize === 0 ? (
+        <p className="text-sm text-slate-400">Registre rendas e despesas de pelo menos um mês para ver a projeção.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="p-4 bg-emerald-50 rounded-xl border border-emerald-100">
+              <p className="text-xs uppercase tracking-wide font-medium text-emerald-700">Em {last?.name}</p>
+              <p className="text-2xl font-bold text-emerald-800 mt-1">{formatCurrency(last?.value || 0)}</p>
+            </div>
+            <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+              <p className="text-xs uppercase tracking-wide font-medium text-slate-500">Guardando no período</p>
+              <p className="text-2xl font-bold text-slate-800 mt-1">{formatCurrency(projectedGain)}</p>
+            </div>
+          </div>
+
+          <ForecastChart data={points} />
+
+          <p className="text-xs text-slate-400 mt-2">
+            Base: média dos últimos {baseline.sampleSize} {baseline.sampleSize === 1 ? 'mês' : 'meses'} (renda {formatCurrency(baseline.income)},
+            variáveis {formatCurrency(baseline.variable)}) mais as recorrentes e parcelas já agendadas.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end mt-6 pt-6 border-t border-slate-50">
+            <div className="md:col-span-4">
+              <Select label="Projetar" value={assumptions.horizonMonths} onChange={(e) => update({ horizonMonths: Number(e.target.value) })}>
+                {HORIZONS.map(h => <option key={h} value={h}>{h} meses</option>)}
+              </Select>
+            </div>
+            <div className="md:col-span-4">
+              <Input label="Aumento de renda (%)" type="number" value={assumptions.raisePercentage || ''} placeholder="0" onChange={(e) => update({ raisePercentage: Number(e.target.value) || 0 })} />
+            </div>
+            <div className="md:col-span-4">
+              <Input label="A partir de" type="month" value={assumptions.raiseFrom} onChange={(e) => update({ raiseFrom: e.target.value })} />
+            </div>
+            <div className="md:col-span-4 md:col-start-5">
+              <Input label="Novo custo fixo (R$/mês)" type="number" value={assumptions.extraFixedCost || ''} placeholder="0.00" onChange={(e) => update({ extraFixedCost: Number(e.target.value) || 0 })} />
+            </div>
+            <div className="md:col-span-4">
+              <Input label="A partir de" type="month" value={assumptions.extraFixedCostFrom} onChange={(e) => update({ extraFixedCostFrom: e.target.value })} />
+            </div>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Select, Card, FeedbackMessage, PlusIcon, TrashIcon, EditIcon } from './UIComponents';
+import { calculateGoalProgress, calculateTotals, formatCurrency, getUnallocatedBalance } from '../services/financeService';
+import { MonthData, SavingsGoal } from '../types';
+
+interface SavingsGoalsProps {
+  goals: SavingsGoal[];
+  months: MonthData[];
+  currentMonthId: string;
+  onSave: (goal: SavingsGoal) => Promise<void>;
+  onDelete: (goal: SavingsGoal) => Promise<void>;
+}
+
+interface GoalForm {
+  name: string;
+  targetAmount: string;
+  deadline: string; // YYYY-MM
+}
+
+// Amounts typed for each goal while splitting a closed month's balance
+interface AllocationForm {
+  monthId: string;
+  amounts: Record<string, string>;
+}
+
+const emptyForm = (deadline: string): GoalForm => ({ name: '', targetAmount: '', deadline });
+
+const sumOf = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100;
+
+/**
+ * Named savings goals funded by splitting the positive balance of closed months.
+ */
+export const SavingsGoals: React.FC<SavingsGoalsProps> = ({ goals, months, currentMonthId, onSave, onDelete }) => {
+  const [form, setForm] = useState<GoalForm>(emptyForm(currentMonthId));
+  const [editing, setEditing] = useState<SavingsGoal | null>(null);
+  const [allocation, setAllocation] = useState<AllocationForm | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const sortedGoals = [...goals].sort((a, b) => a.deadline.localeCompare(b.deadline) || a.name.localeCompare(b.name));
+
+  // Closed months with money to split, newest first
+  const fundingMonths = months
+    .filter(m => m.closed && calculateTotals(m).balance > 0)
+    .sort((a, b) => b.id.localeCompare(a.id));
+  const unallocated = sumOf(fundingMonths.map(m => getUnallocatedBalance(m, goals)));
+
+  const allocationMonth = allocation ? months.find(m => m.id === allocation.monthId) : undefined;
+  const allocationAvailable = allocationMonth ? Math.max(calculateTotals(allocationMonth).balance, 0) : 0;
+  const allocationTotal = allocation ? sumOf(Object.values(allocation.amounts).map(v => Number(v) || 0)) : 0;
+  const allocationExceeded = allocationTotal > allocationAvailable;
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm(currentMonthId));
+  };
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const targetAmount = Number(form.targetAmount);
+    if (!form.name.trim() || !(targetAmount > 0) || !form.deadline) return;
+
+    const goal: SavingsGoal = {
+      id: editing?.id || uuidv4(),
+      name: form.name.trim(),
+      targetAmount,
+      deadline: form.deadline,
+      allocations: editing?.allocations || []
+    };
+
+    run(async () => {
+      await onSave(goal);
+      reset();
+    }, editing ? 'Meta atualizada!' : 'Meta criada!');
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditing(goal);
+    setForm({ name: goal.name, targetAmount: goal.targetAmount.toString(), deadline: goal.deadline });
+  };
+
+  const handleDelete = (goal: SavingsGoal) => {
+    if (!window.confirm(`Excluir a meta "${goal.name}"? O valor guardado nela volta a ficar livre na Caixinha.`)) return;
+    run(async () => {
+      await onDelete(goal);
+      if (editing?.id === goal.id) reset();
+    }, 'Meta excluída.');
+  };
+
+  // Pre-fills the form with what each goal already received from the month
+  const startAllocation = (monthId: string) => {
+    setAllocation({
+      monthId,
+      amounts: Object.fromEntries(goals.map(g => {
+        const amount = sumOf(g.allocations.filter(a => a.monthId === monthId).map(a => a.amount));
+        return [g.id, amount > 0 ? amount.toString() : ''];
+      }))
+    });
+  };
+
+  const handleAllocate = () => {
+    if (!allocation || allocationExceeded) return;
+
+    const changed = goals
+      .map(goal => {
+        const amount = Number(allocation.amounts[goal.id]) || 0;
+        const others = goal.allocations.filter(a => a.monthId !== allocation.monthId);
+        return { ...goal, allocations: amount > 0 ? [...others, { monthId: allocation.monthId, amount }] : others };
+      })
+      .filter(goal => JSON.stringify(goal.allocations) !== JSON.stringify(goals.find(g => g.id === goal.id)?.allocations));
+
+    run(async () => {
+      await Promise.all(changed.map(onSave));
+      setAllocation(null);
+    }, `Saldo de ${allocationMonth?.label} distribuído entre as metas.`);
+  };
+
+  return (
+    <Card title="Metas" subtitle="Separe o saldo dos meses fechados entre os objetivos de vocês.">
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+        <div className="md:col-span-5">
+          <Input label="Meta" placeholder="Ex: Viagem, Reserva de emergência..." value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        </div>
+        <div className="md:col-span-4">
+          <Input label="Valor (R$)" type="number" placeholder="0.00" value={form.targetAmount} onChange={(e) => setForm({ ...form, targetAmount: e.target.value })} />
+        </div>
+        <div className="md:col-span-3">
+          <Input label="Prazo" type="month" value={form.deadline} onChange={(e) => setForm({ ...form, deadline: e.target.value })} />
+        </div>
+        <div className="md:col-span-12 flex justify-end gap-2">
+          {editing && <Button variant="ghost" onClick={reset}>Cancelar</Button>}
+          <Button onClick={handleSubmit} disabled={loading || !form.name.trim() || !(Number(form.targetAmount) > 0) || !form.deadline}>
+            {editing ? 'Salvar Alteração' : <><PlusIcon className="mr-2" /> Criar meta</>}
+          </Button>
+        </div>
+      </div>
+      {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+
+      <div className="space-y-4 mt-6 pt-6 border-t border-slate-50">
+        {sortedGoals.length === 0 && (
+          <p className="text-sm text-slate-400">Nenhuma meta criada ainda.</p>
+        )}
+        {sortedGoals.map(goal => {
+          const progress = calculateGoalProgress(goal, currentMonthId);
+          const done = progress.remaining === 0;
+          const deadlineLabel = new Date(goal.deadline + '-01T12:00:00').toLocaleDateString('pt-BR', { month: 'short', year: 'numeric' });
+          return (
+            <div key={goal.id} className="p-4 rounded-xl border border-slate-100 group hover:border-emerald-300 transition-all">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h4 className="font-semibold text-slate-800">{goal.name}</h4>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {formatCurrency(progress.saved)} de {formatCurrency(goal.targetAmount)} · prazo {deadlineLabel}
+                  </p>
+                </div>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => handleEdit(goal)} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors">
+                    <EditIcon />
+                  </button>
+                  <button onClick={() => handleDelete(goal)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                    <TrashIcon />
+                  </button>
+                </div>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden mt-3">
+                <div className="h-full rounded-full bg-emerald-500 transition-all" style={{ width: `${progress.percentage}%` }} />
+              </div>
+              <p className={`text-xs mt-2 ${done ? 'text-emerald-600 font-medium' : progress.monthsLeft === 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                {done
+                  ? 'Meta alcançada!'
+                  : progress.monthsLeft === 0
+                    ? `O prazo passou. Faltam ${formatCurrency(progress.remaining)}.`
+                    : `Guardem ${formatCurrency(progress.monthlyContribution)} por mês nos próximos ${progress.monthsLeft} ${progress.monthsLeft === 1 ? 'mês' : 'meses'}.`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {goals.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-slate-50">
+          <div className="flex justify-between items-baseline mb-4">
+            <h4 className="font-semibold text-slate-800">Distribuir saldo</h4>
+            <span className="text-sm text-slate-500">Livre na Caixinha: <span className="font-medium text-emerald-700">{formatCurrency(unallocated)}</span></span>
+          </div>
+          {fundingMonths.length === 0 ? (
+            <p className="text-sm text-slate-400">Feche um mês com saldo positivo para distribuir entre as metas.</p>
+          ) : (
+            <div className="space-y-3">
+              <Select value={allocation?.monthId || ''} onChange={(e) => e.target.value ? startAllocation(e.target.value) : setAllocation(null)}>
+                <option value="">Escolha um mês fechado</option>
+                {fundingMonths.map(m => (
+                  <option key={m.id} value={m.id}>{m.label} · {formatCurrency(getUnallocatedBalance(m, goals))} livre</option>
+                ))}
+              </Select>
+              {allocation && (
+                <>
+                  {sortedGoals.map(goal => (
+                    <div key={goal.id} className="grid grid-cols-12 gap-4 items-center">
+                      <span className="col-span-6 text-sm font-medium text-slate-700">{goal.name}</span>
+                      <div className="col-span-6">
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="0.00"
+                          value={allocation.amounts[goal.id] || ''}
+                          onChange={(e) => setAllocation({ ...allocation, amounts: { ...allocation.amounts, [goal.id]: e.target.value } })}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-end gap-2 pt-2">
+                    <span className={`text-xs mr-auto ${allocationExceeded ? 'text-red-600' : 'text-slate-500'}`}>
+                      {formatCurrency(allocationTotal)} de {formatCurrency(allocationAvailable)} do saldo de {allocationMonth?.label}
+                    </span>
+                    <Button variant="ghost" onClick={() => setAllocation(null)}>Cancelar</Button>
+                    <Button onClick={handleAllocate} disabled={loading || allocationExceeded}>Salvar distribuição</Button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button, Input, Select, Card, FeedbackMessage, PlusIcon, TrashIcon } from './UIComponents';
+import { calculateSavingsBalance, calculateSavingsHistory, formatCurrency } from '../services/financeService';
+import { SAVINGS_ENTRY_TYPES } from '../constants';
+import { SavingsEntry, SavingsEntryType } from '../types';
+
+interface SavingsLedgerProps {
+  entries: SavingsEntry[];
+  onSave: (entry: SavingsEntry) => Promise<void>;
+  onDelete: (entry: SavingsEntry) => Promise<void>;
+}
+
+interface EntryForm {
+  type: SavingsEntryType;
+  amount: string;
+  date: string;
+  description: string;
+}
+
+const emptyForm = (): EntryForm => ({ type: 'deposit', amount: '', date: new Date().toISOString().split('T')[0], description: '' });
+
+// Closing entries come from "Guardar na Caixinha"; only the others are typed here
+const MANUAL_TYPES = SAVINGS_ENTRY_TYPES.filter(t => t.value !== 'closing');
+
+const typeLabel = (type: SavingsEntryType) => SAVINGS_ENTRY_TYPES.find(t => t.value === type)?.label || type;
+
+const formatDate = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+/**
+ * Movements of the Caixinha (closings, deposits, withdrawals, interest) with the running balance.
+ */
+export const SavingsLedger: React.FC<SavingsLedgerProps> = ({ entries, onSave, onDelete }) => {
+  const [form, setForm] = useState<EntryForm>(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const balance = calculateSavingsBalance(entries);
+  const history = calculateSavingsHistory(entries).reverse(); // Newest first
+
+  const amount = Number(form.amount);
+  const overdrawn = form.type === 'withdrawal' && amount > balance;
+
+  const run = async (action: () => Promise<void>, message: string, type: 'success' | 'danger' = 'success') => {
+    setLoading(true);
+    setFeedback(null);
+    try {
+      await action();
+      setFeedback({ message, type });
+    } catch (err: any) {
+      setFeedback({ message: err.message || 'Não foi possível salvar. Tente novamente.', type: 'danger' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!(amount > 0) || !form.date || overdrawn) return;
+
+    const entry: SavingsEntry = {
+      id: uuidv4(),
+      type: form.type,
+      amount,
+      date: form.date,
+      description: form.description.trim() || typeLabel(form.type)
+    };
+
+    run(async () => {
+      await onSave(entry);
+      setForm(emptyForm());
+    }, `${typeLabel(entry.type)} de ${formatCurrency(entry.amount)} registrado.`);
+  };
+
+  const handleDelete = (entry: SavingsEntry) => {
+    if (!window.confirm(`Excluir "${entry.description}" de ${formatCurrency(entry.amount)}?`)) return;
+    run(() => onDelete(entry), 'Movimentação excluída.');
+  };
+
+  return (
+    <Card title="Extrato da Caixinha" subtitle="Registre depósitos, retiradas e rendimentos para o saldo bater com o banco.">
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+        <div className="md:col-span-3">
+          <Select label="Tipo" value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as SavingsEntryType })}>
+            {MANUAL_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </Select>
+        </div>
+        <div className="md:col-span-3">
+          <Input label="Valor (R$)" type="number" placeholder="0.00" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} />
+        </div>
+        <div className="md:col-span-3">
+          <Input label="Data" type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+        </div>
+        <div className="md:col-span-3">
+          <Input label="Descrição" placeholder="Ex: Bônus, CDI de março..." value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+        </div>
+        <div className="md:col-span-12 flex items-center justify-end gap-2">
+          {overdrawn && <span className="text-xs text-red-600 mr-auto">A retirada é maior que o saldo da Caixinha ({formatCurrency(balance)}).</span>}
+          <Button onClick={handleSubmit} disabled={loading || !(amount > 0) || !form.date || overdrawn}>
+            <PlusIcon className="mr-2" /> Registrar
+          </Button>
+        </div>
+      </div>
+      {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+
+      <div className="mt-6 pt-6 border-t border-slate-50">
+        {history.length === 0 ? (
+          <p className="text-sm text-slate-400">Nenhuma movimentação ainda. Feche um mês ou registre um depósito.</p>
+        ) : (
+          <table className="w-full text-sm text-left">
+            <thead className="text-slate-500 uppercase font-medium text-xs">
+              <tr>
+                <th className="px-4 py-3 bg-slate-50 rounded-l-lg">Data</th>
+                <th className="px-4 py-3 bg-slate-50">Descrição</th>
+                <th className="px-4 py-3 bg-slate-50 text-right">Valor</th>
+                <th className="px-4 py-3 bg-slate-50 text-right">Saldo</th>
+                <th className="px-4 py-3 bg-slate-50 rounded-r-lg"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {history.map(({ entry, balance: running }) => (
+                <tr key={entry.id} className="group">
+                  <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{formatDate(entry.date)}</td>
+                  <td className="px-4 py-3">
+                    <span className="text-slate-800">{entry.description}</span>
+                    <span className="ml-2 text-xs text-slate-400">{typeLabel(entry.type)}</span>
+                  </td>
+                  <td className={`px-4 py-3 text-right font-medium whitespace-nowrap ${entry.type === 'withdrawal' ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {entry.type === 'withdrawal' ? '-' : '+'}{formatCurrency(entry.amount)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-slate-700 whitespace-nowrap">{formatCurrency(running)}</td>
+                  <td className="px-4 py-3 text-right">
+                    {entry.type !== 'closing' && (
+                      <button onClick={() => handleDelete(entry)} className="p-1 text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </Card>
+  );
+};
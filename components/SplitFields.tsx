@@ -0,0 +1,74 @@
+import React from 'react';
+import { Input, Select } from './UIComponents';
+import { SPLIT_RULES } from '../constants';
+import { ExpenseSplit, HouseholdMember, SplitRule } from '../types';
+
+// Form state of "who paid / how it is split", shared by every form that creates expenses
+export interface SplitFormValues {
+  paidBy: string; // '' = joint account
+  splitRule: SplitRule;
+  splitPercentage: string;
+  splitMemberId: string;
+}
+
+export const emptySplitForm = (defaultMemberId: string): SplitFormValues => ({
+  paidBy: defaultMemberId, splitRule: 'equal', splitPercentage: '50', splitMemberId: defaultMemberId
+});
+
+export const toSplitForm = (paidBy: string | null | undefined, split: ExpenseSplit | undefined, defaultMemberId: string): SplitFormValues => ({
+  paidBy: paidBy || '',
+  splitRule: split?.rule || 'equal',
+  splitPercentage: String(split?.percentage ?? 50),
+  splitMemberId: split?.memberId || defaultMemberId
+});
+
+export const toExpenseSplit = (values: SplitFormValues): ExpenseSplit => {
+  if (values.splitRule === 'custom') return { rule: 'custom', percentage: Number(values.splitPercentage) || 0 };
+  if (values.splitRule === 'single') return { rule: 'single', memberId: values.splitMemberId };
+  return { rule: values.splitRule };
+};
+
+interface SplitFieldsProps {
+  members: HouseholdMember[];
+  values: SplitFormValues;
+  onChange: (values: Partial<SplitFormValues>) => void;
+  payerLabel?: string;
+}
+
+/**
+ * Grid cells (md:col-span-4 each) for the payer, the split rule and the rule's extra field.
+ */
+export const SplitFields: React.FC<SplitFieldsProps> = ({ members, values, onChange, payerLabel = 'Quem pagou' }) => (
+  <>
+    <div className="md:col-span-4">
+      <Select label={payerLabel} value={values.paidBy} onChange={(e) => onChange({ paidBy: e.target.value })}>
+        {members.map(m => <option key={m.userId} value={m.userId}>{m.name}</option>)}
+        <option value="">Conta conjunta</option>
+      </Select>
+    </div>
+    <div className="md:col-span-4">
+      <Select label="Divisão" value={values.splitRule} onChange={(e) => onChange({ splitRule: e.target.value as SplitRule })}>
+        {SPLIT_RULES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+      </Select>
+    </div>
+    {values.splitRule === 'custom' && (
+      <div className="md:col-span-4">
+        <Input
+          label="Parte de quem pagou (%)"
+          type="number"
+          min={0}
+          max={100}
+          value={values.splitPercentage}
+          onChange={(e) => onChange({ splitPercentage: e.target.value })}
+        />
+      </div>
+    )}
+    {values.splitRule === 'single' && (
+      <div className="md:col-span-4">
+        <Select label="Quem arca com o gasto" value={values.splitMemberId} onChange={(e) => onChange({ splitMemberId: e.target.value })}>
+          {members.map(m => <option key={m.userId} value={m.userId}>{m.name}</option>)}
+        </Select>
+      </div>
+    )}
+  </>
+);
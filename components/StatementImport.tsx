@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Button, Card, Select, FeedbackMessage } from './UIComponents';
+import { CategorySelect } from './CategorySelect';
+import { formatCurrency } from '../services/financeService';
+import {
+  ParsedStatement, StatementImportResult, StatementRow, StatementRowStatus, STATEMENT_FORMAT_LABELS,
+  buildImportedExpense, getStatementRowCard, getStatementRowStatus, parseStatement
+} from '../services/statementImport';
+import { findMatchingRule } from '../services/categoryRules';
+import { FALLBACK_CATEGORY } from '../constants';
+import { Category, CategoryRule, CreditCard, Expense, ExpenseType, HouseholdMember, MonthData } from '../types';
+
+interface StatementImportProps {
+  months: MonthData[];
+  categories: Category[];
+  cards: CreditCard[];
+  members: HouseholdMember[];
+  rules: CategoryRule[];
+  /** Adds the expenses to the months they belong to, leaving out months closed in the meantime. */
+  onImport: (expenses: Expense[]) => StatementImportResult;
+}
+
+// What the user picked for each row in the preview
+interface RowChoice {
+  selected: boolean;
+  category: string;
+  type: ExpenseType;
+}
+
+const STATUS_BADGES: Record<StatementRowStatus, { label: string; className: string } | null> = {
+  new: null,
+  imported: { label: 'Já importado', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+  possibleDuplicate: { label: 'Possível duplicado', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+  closed: { label: 'Mês fechado', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+const formatDate = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+/**
+ * Upload of an OFX/CSV statement, preview of its debits and import into the right months.
+ */
+export const StatementImport: React.FC<StatementImportProps> = ({ months, categories, cards, members, rules, onImport }) => {
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [choices, setChoices] = useState<Record<string, RowChoice>>({});
+  const [cardId, setCardId] = useState('');
+  const [paidBy, setPaidBy] = useState('');
+  const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'danger' } | null>(null);
+
+  const card = cards.find(c => c.id === cardId);
+  // Fixed rows are not charged to the card, so their month is the month of their date
+  const cardOf = (row: StatementRow) => getStatementRowCard(choices[row.importId]?.type || 'variable', card);
+  const statusOf = (row: StatementRow) => getStatementRowStatus(row, months, cardOf(row));
+  // Already imported rows and rows of closed months can't be picked
+  const canImport = (row: StatementRow) => statusOf(row) !== 'imported' && statusOf(row) !== 'closed';
+  const selectedRows = statement ? statement.rows.filter(r => canImport(r) && choices[r.importId]?.selected) : [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFeedback(null);
+    try {
+      const parsed = parseStatement(file.name, await file.text());
+      setStatement(parsed);
+      // Possible duplicates start unchecked so they are only imported on purpose;
+      // category and type come from the matching rule when there is one
+      setChoices(Object.fromEntries(parsed.rows.map(r => {
+        const rule = findMatchingRule(rules, r.description, r.value);
+        const type: ExpenseType = rule?.type || 'variable';
+        return [
+          r.importId,
+          { selected: getStatementRowStatus(r, months, getStatementRowCard(type, card)) === 'new', category: rule?.category || FALLBACK_CATEGORY, type }
+        ];
+      })));
+      if (parsed.rows.length === 0) setFeedback({ message: 'Nenhuma saída encontrada neste extrato.', type: 'danger' });
+    } catch (err: any) {
+      setStatement(null);
+      setFeedback({ message: err.message || 'Não foi possível ler o arquivo.', type: 'danger' });
+    }
+  };
+
+  const updateChoice = (importId: string, choice: Partial<RowChoice>) =>
+    setChoices(prev => ({ ...prev, [importId]: { ...prev[importId], ...choice } }));
+
+  const handleImport = () => {
+    if (selectedRows.length === 0) return;
+    const expenses = selectedRows.map(row => buildImportedExpense(row, {
+      category: choices[row.importId].category,
+      type: choices[row.importId].type,
+      paidBy: paidBy || null,
+      cardId: cardOf(row)?.id
+    }));
+    const result = onImport(expenses);
+
+    const imported = `${result.imported} ${result.imported === 1 ? 'lançamento importado' : 'lançamentos importados'} em ${result.months} ${result.months === 1 ? 'mês' : 'meses'}.`;
+    const skipped = result.skippedClosed > 0
+      ? ` ${result.skippedClosed} ${result.skippedClosed === 1 ? 'ficou de fora porque o mês' : 'ficaram de fora porque o mês'} foi fechado.`
+      : '';
+    setFeedback({ message: imported + skipped, type: result.imported > 0 ? 'success' : 'danger' });
+    setStatement(null);
+    setChoices({});
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+      <Card title="Importar extrato" subtitle="Envie o arquivo OFX ou CSV do banco (Nubank, Itaú, Inter). Só as saídas viram despesas.">
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+          <div className="md:col-span-4 flex flex-col gap-1.5">
+            <label className="text-sm font-medium text-slate-700">Arquivo</label>
+            <input
+              type="file"
+              accept=".ofx,.csv,.txt"
+              onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+              className="block w-full text-sm text-slate-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-emerald-50 file:text-emerald-700 hover:file:bg-emerald-100"
+            />
+          </div>
+          {cards.length > 0 && (
+            <div className="md:col-span-4">
+              <Select label="É fatura de cartão?" value={cardId} onChange={(e) => setCardId(e.target.value)}>
+                <option value="">Não, extrato da conta</option>
+                {cards.map(c => <option key={c.id} value={c.id}>Cartão {c.name}</option>)}
+              </Select>
+            </div>
+          )}
+          <div className="md:col-span-4">
+            <Select label="Pago por" value={paidBy} onChange={(e) => setPaidBy(e.target.value)}>
+              <option value="">Conta conjunta</option>
+              {members.map(m => <option key={m.userId} value={m.userId}>{m.name}</option>)}
+            </Select>
+          </div>
+        </div>
+        {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} />}
+      </Card>
+
+      {statement && statement.rows.length > 0 && (
+        <Card
+          title={`${statement.rows.length} saídas encontradas`}
+          subtitle={`Formato: ${STATEMENT_FORMAT_LABELS[statement.format]}${statement.skipped > 0 ? ` · ${statement.skipped} entradas ignoradas` : ''}`}
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-slate-500 uppercase font-medium text-xs">
+                <tr>
+                  <th className="px-3 py-3 bg-slate-50 rounded-l-lg"></th>
+                  <th className="px-3 py-3 bg-slate-50">Data</th>
+                  <th className="px-3 py-3 bg-slate-50">Descrição</th>
+                  <th className="px-3 py-3 bg-slate-50 text-right">Valor</th>
+                  <th className="px-3 py-3 bg-slate-50">Categoria</th>
+                  <th className="px-3 py-3 bg-slate-50 rounded-r-lg">Tipo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {statement.rows.map(row => {
+                  const choice = choices[row.importId];
+                  const badge = STATUS_BADGES[statusOf(row)];
+                  const enabled = canImport(row);
+                  return (
+                    <tr key={row.importId} className={enabled ? '' : 'opacity-50'}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          disabled={!enabled}
+                          checked={enabled && !!choice?.selected}
+                          onChange={(e) => updateChoice(row.importId, { selected: e.target.checked })}
+                          className="rounded text-emerald-600"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{formatDate(row.date)}</td>
+                      <td className="px-3 py-2">
+                        <span className="text-slate-800">{row.description}</span>
+                        {badge && <span className={`ml-2 text-xs px-2 py-0.5 rounded-md border ${badge.className}`}>{badge.label}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium text-slate-700 whitespace-nowrap">{formatCurrency(row.value)}</td>
+                      <td className="px-3 py-2 min-w-[10rem]">
+                        <CategorySelect label="" categories={categories} value={choice?.category || FALLBACK_CATEGORY} onChange={(category) => updateChoice(row.importId, { category })} />
+                      </td>
+                      <td className="px-3 py-2 min-w-[8rem]">
+                        <Select value={choice?.type || 'variable'} onChange={(e) => updateChoice(row.importId, { type: e.target.value as ExpenseType })}>
+                          <option value="variable">Variável</option>
+                          <option value="fixed">Fixa</option>
+                        </Select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center justify-end gap-2 mt-6 pt-4 border-t border-slate-50">
+            <span className="text-xs text-slate-500 mr-auto">
+              {selectedRows.length} selecionados · {formatCurrency(selectedRows.reduce((acc, r) => acc + r.value, 0))}
+            </span>
+            <Button variant="ghost" onClick={() => { setStatement(null); setChoices({}); }}>Cancelar</Button>
+            <Button onClick={handleImport} disabled={selectedRows.length === 0}>
+              Importar {selectedRows.length} {selectedRows.length === 1 ? 'lançamento' : 'lançamentos'}
+            </Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,59 @@
-export const CATEGORIES = [
-  'Casa',
-  'Alimentação',
-  'Transporte',
-  'Lazer',
-  'Saúde',
-  'Educação',
-  'Outros'
+import { FairSplitRule, IncomeType, RecurrenceFrequency, SavingsEntryType, SplitRule } from './types';
+
+// Categories every new household starts with (then editable in "Categorias")
+export const DEFAULT_CATEGORIES: { name: string; color: string; icon: string }[] = [
+  { name: 'Casa', color: '#10b981', icon: '🏠' },
+  { name: 'Alimentação', color: '#f97316', icon: '🛒' },
+  { name: 'Transporte', color: '#3b82f6', icon: '🚗' },
+  { name: 'Lazer', color: '#a855f7', icon: '🎉' },
+  { name: 'Saúde', color: '#ef4444', icon: '💊' },
+  { name: 'Educação', color: '#eab308', icon: '📚' },
+  { name: 'Outros', color: '#64748b', icon: '📦' },
+];
+
+// Expenses whose category no longer exists fall back to this name
+export const FALLBACK_CATEGORY = 'Outros';
+
+export const CATEGORY_COLORS = ['#10b981', '#f97316', '#3b82f6', '#a855f7', '#ef4444', '#eab308', '#ec4899', '#14b8a6', '#64748b'];
+
+export const CATEGORY_ICONS = ['🏠', '🛒', '🍽️', '🚗', '🎉', '💊', '📚', '👶', '🐶', '✈️', '👕', '💡', '📱', '🎁', '💼', '📦'];
+
+export const INCOME_TYPES: { value: IncomeType; label: string }[] = [
+  { value: 'salary', label: 'Salário' },
+  { value: 'extra', label: 'Extra' },
+  { value: 'benefit', label: 'Benefício' },
+];
+
+export const SAVINGS_ENTRY_TYPES: { value: SavingsEntryType; label: string }[] = [
+  { value: 'closing', label: 'Fechamento de mês' },
+  { value: 'deposit', label: 'Depósito' },
+  { value: 'withdrawal', label: 'Retirada' },
+  { value: 'interest', label: 'Rendimento' },
 ];
 
 export const MONTH_NAMES = [
   'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
   'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
 ];
+
+// Share of a category budget (in %) after which adding expenses raises a warning
+export const BUDGET_WARNING_PERCENTAGE = 80;
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'monthly', label: 'Mensal' },
+  { value: 'bimonthly', label: 'Bimestral' },
+  { value: 'yearly', label: 'Anual' },
+];
+
+export const SPLIT_RULES: { value: SplitRule; label: string }[] = [
+  { value: 'equal', label: '50/50' },
+  { value: 'proportional', label: 'Proporcional à renda' },
+  { value: 'custom', label: 'Percentual personalizado' },
+  { value: 'single', label: '100% de uma pessoa' },
+];
+
+export const FAIR_SPLIT_RULES: { value: FairSplitRule; label: string; description: string }[] = [
+  { value: 'equal', label: 'Meio a meio', description: 'Cada um paga a mesma parte das contas fixas.' },
+  { value: 'proportional', label: 'Proporcional à renda', description: 'Quem ganha mais contribui com uma parte maior.' },
+  { value: 'allowance', label: 'Proporcional após mesada', description: 'Cada um reserva uma mesada pessoal e o resto da renda define a proporção.' },
+];
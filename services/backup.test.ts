@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { BackupData, buildBackup, parseBackup } from './backup';
+
+const validData = (): BackupData => ({
+    months: [{
+        id: '2025-03', label: 'Março 2025', closed: false,
+        incomes: [{ id: 'i1', name: 'Salário', value: 5000, type: 'salary', memberId: null, receivedDate: '2025-03-05' }],
+        expenses: [{ id: 'e1', name: 'Mercado', value: 120, category: 'Alimentação', date: '2025-03-10', type: 'variable' }]
+    }],
+    recurringExpenses: [{
+        id: 'r1', name: 'Aluguel', value: 2000, category: 'Moradia', frequency: 'monthly', dueDay: 10, startMonth: '2025-01', endMonth: null
+    }],
+    purchases: [{
+        id: 'p1', name: 'Celular', totalValue: 3000, installments: 10, firstMonth: '2025-01', dueDay: 10,
+        category: 'Outros', paidBy: null, cancelledFrom: null
+    }],
+    cards: [{ id: 'c1', name: 'Nubank', closingDay: 5, dueDay: 12 }],
+    categories: [{ id: 'k1', name: 'Moradia', color: '#10b981', icon: '🏠', parentId: null, archived: false }],
+    goals: [{ id: 'g1', name: 'Viagem', targetAmount: 6000, deadline: '2025-12', allocations: [{ monthId: '2025-02', amount: 500 }] }],
+    savingsEntries: [{ id: 's1', type: 'closing', amount: 500, date: '2025-02-28', monthId: '2025-02', description: 'Fechamento de Fevereiro 2025' }],
+    rules: [{ id: 'u1', matchType: 'contains', pattern: 'uber', minValue: null, maxValue: null, category: 'Transporte', type: null, learned: true }]
+});
+
+// A backup file where the first item of one collection has some fields replaced
+const withBroken = <K extends keyof BackupData>(key: K, changes: Record<string, unknown>): string => {
+    const data = validData();
+    const [first, ...rest] = data[key];
+    return JSON.stringify(buildBackup({ ...data, [key]: [{ ...first, ...changes }, ...rest] }));
+};
+
+describe('parseBackup', () => {
+    it('reads a backup with every collection', () => {
+        const backup = parseBackup(JSON.stringify(buildBackup(validData())));
+
+        expect(backup.goals[0].allocations).toEqual([{ monthId: '2025-02', amount: 500 }]);
+    });
+
+    it.each<[keyof BackupData, Record<string, unknown>]>([
+        ['goals', { allocations: undefined }],
+        ['goals', { allocations: [{ monthId: '2025-02', amount: '500' }] }],
+        ['goals', { deadline: 'dezembro' }],
+        ['savingsEntries', { type: 'transfer' }],
+        ['savingsEntries', { amount: null }],
+        ['recurringExpenses', { frequency: 'weekly' }],
+        ['recurringExpenses', { dueDay: 0 }],
+        ['purchases', { installments: 0 }],
+        ['purchases', { firstMonth: undefined }],
+        ['purchases', { split: { rule: 'half' } }],
+        ['recurringExpenses', { paidBy: 5 }],
+        ['cards', { closingDay: '5' }],
+        ['categories', { archived: 'no' }],
+        ['categories', { name: undefined }],
+        ['rules', { matchType: 'startsWith' }],
+        ['rules', { minValue: '10' }],
+    ])('rejects %s with %o', (key, changes) => {
+        expect(() => parseBackup(withBroken(key, changes))).toThrow('Backup corrompido');
+    });
+
+    it.each<[string, Record<string, unknown>]>([
+        ['incomes', { type: 'bonus' }],
+        ['incomes', { memberId: undefined }],
+        ['incomes', { memberId: 42 }],
+        ['expenses', { split: { rule: 'half' } }],
+        ['expenses', { split: { rule: 'custom', percentage: 150 } }],
+        ['expenses', { split: { rule: 'single', memberId: 7 } }],
+        ['expenses', { installment: { purchaseId: 'p1', number: 3 } }],
+        ['expenses', { installment: { purchaseId: 'p1', number: 11, total: 10 } }],
+        ['expenses', { cardId: 12 }],
+        ['expenses', { paidBy: {} }],
+        ['expenses', { recurringId: true }],
+        ['expenses', { importId: 99 }],
+    ])('rejects month %s with %o', (list, changes) => {
+        const data = validData();
+        const [month] = data.months;
+        const items = list === 'incomes' ? month.incomes : month.expenses;
+        const broken = { ...month, [list]: [{ ...items[0], ...changes }] };
+
+        expect(() => parseBackup(JSON.stringify(buildBackup({ ...data, months: [broken] })))).toThrow('Backup corrompido');
+    });
+
+    it('reads expenses with a split, an installment and a card', () => {
+        const data = validData();
+        const expense = {
+            ...data.months[0].expenses[0],
+            paidBy: 'user-1',
+            split: { rule: 'custom' as const, percentage: 70 },
+            installment: { purchaseId: 'p1', number: 3, total: 10 },
+            cardId: 'c1',
+            importId: 'ofx-123'
+        };
+        const text = JSON.stringify(buildBackup({ ...data, months: [{ ...data.months[0], expenses: [expense] }] }));
+
+        expect(parseBackup(text).months[0].expenses[0]).toEqual(expense);
+    });
+
+    it('accepts optional fields missing from older records', () => {
+        const text = withBroken('purchases', { cancelledFrom: undefined, paidBy: undefined });
+
+        expect(parseBackup(text).purchases).toHaveLength(1);
+    });
+});
@@ -0,0 +1,287 @@
+import {
+    Category, CategoryRule, CreditCard, Expense, HouseholdMember, InstallmentPurchase, MonthData,
+    RecurringExpense, SavingsEntry, SavingsGoal
+} from '../types';
+import { sameMonthContent } from './monthMerge';
+import { buildXlsx, SheetCell } from './xlsx';
+
+// --- BACKUP AND RESTORE ---
+// A backup is one JSON file with everything the household keeps in the app. Restoring writes
+// the file back over the current data: whatever is in the file wins, whatever is not in the
+// file is left alone.
+
+export const BACKUP_APP = 'casal-em-dias';
+
+// Bump when the shape changes, and teach parseBackup to upgrade the older versions
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+    months: MonthData[];
+    recurringExpenses: RecurringExpense[];
+    purchases: InstallmentPurchase[];
+    cards: CreditCard[];
+    categories: Category[];
+    goals: SavingsGoal[];
+    savingsEntries: SavingsEntry[];
+    rules: CategoryRule[];
+}
+
+export interface Backup extends BackupData {
+    app: typeof BACKUP_APP;
+    version: number;
+    exportedAt: string; // ISO timestamp
+}
+
+// How a collection of the backup compares with the current data
+export interface CollectionDiff<T> {
+    added: T[];
+    changed: T[];
+    unchanged: number;
+}
+
+export type BackupPreview = { [K in keyof BackupData]: CollectionDiff<BackupData[K][number]> };
+
+// Entity names used in the preview and in validation errors
+export const BACKUP_COLLECTION_LABELS: Record<keyof BackupData, string> = {
+    months: 'Meses',
+    recurringExpenses: 'Despesas recorrentes',
+    purchases: 'Compras parceladas',
+    cards: 'Cartões',
+    categories: 'Categorias',
+    goals: 'Metas',
+    savingsEntries: 'Lançamentos da Caixinha',
+    rules: 'Regras de categoria',
+};
+
+const COLLECTIONS = Object.keys(BACKUP_COLLECTION_LABELS) as (keyof BackupData)[];
+
+// Row versions belong to the backend the data came from, not to the data
+const withoutVersions = (month: MonthData): MonthData => {
+    const { version, ...rest } = month;
+    return {
+        ...rest,
+        incomes: month.incomes.map(({ version, ...income }) => income),
+        expenses: month.expenses.map(({ version, ...expense }) => expense),
+    };
+};
+
+export const buildBackup = (data: BackupData, exportedAt = new Date()): Backup => ({
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    ...data,
+    months: data.months.map(withoutVersions),
+});
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isMonthId = (value: unknown): boolean => isText(value) && /^\d{4}-\d{2}$/.test(value);
+
+const isDay = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 31;
+
+const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 1;
+
+const isOneOf = <T>(values: readonly T[]) => (value: unknown): boolean => values.includes(value as T);
+
+// Optional fields: missing (older records) or null is fine, anything else must pass the check
+const isNoneOr = (check: (value: unknown) => boolean) => (value: unknown): boolean => value == null || check(value);
+
+const isExpenseType = isOneOf(['fixed', 'variable']);
+
+const isPercentage = (value: unknown): boolean => isAmount(value) && value >= 0 && value <= 100;
+
+const isSplit = (s: unknown): boolean =>
+    isObject(s) && isOneOf(['equal', 'proportional', 'custom', 'single'])(s.rule)
+    && isNoneOr(isPercentage)(s.percentage) && isNoneOr(isText)(s.memberId);
+
+const isInstallment = (i: unknown): boolean =>
+    isObject(i) && isText(i.purchaseId) && isCount(i.number) && isCount(i.total)
+    && (i.number as number) <= (i.total as number);
+
+const isExpense = (e: unknown): boolean =>
+    isObject(e) && isText(e.id) && isText(e.name) && isAmount(e.value) && isText(e.category)
+    && isText(e.date) && isExpenseType(e.type) && isNoneOr(isText)(e.paidBy) && isNoneOr(isSplit)(e.split)
+    && isNoneOr(isText)(e.recurringId) && isNoneOr(isInstallment)(e.installment)
+    && isNoneOr(isText)(e.cardId) && isNoneOr(isText)(e.importId);
+
+const isIncome = (i: unknown): boolean =>
+    isObject(i) && isText(i.id) && isText(i.name) && isAmount(i.value)
+    && isOneOf(['salary', 'extra', 'benefit'])(i.type) && (i.memberId === null || isText(i.memberId))
+    && isText(i.receivedDate);
+
+const isMonth = (m: unknown): boolean =>
+    isObject(m) && isMonthId(m.id) && isText(m.label) && typeof m.closed === 'boolean'
+    && Array.isArray(m.incomes) && m.incomes.every(isIncome)
+    && Array.isArray(m.expenses) && m.expenses.every(isExpense);
+
+const isRecurringExpense = (t: unknown): boolean =>
+    isObject(t) && isText(t.id) && isText(t.name) && isAmount(t.value) && isText(t.category)
+    && isOneOf(['monthly', 'bimonthly', 'yearly'])(t.frequency) && isDay(t.dueDay)
+    && isMonthId(t.startMonth) && isNoneOr(isMonthId)(t.endMonth)
+    && isNoneOr(isText)(t.paidBy) && isNoneOr(isSplit)(t.split);
+
+const isPurchase = (p: unknown): boolean =>
+    isObject(p) && isText(p.id) && isText(p.name) && isAmount(p.totalValue)
+    && isCount(p.installments) && isMonthId(p.firstMonth) && isDay(p.dueDay)
+    && isText(p.category) && isNoneOr(isMonthId)(p.cancelledFrom)
+    && isNoneOr(isText)(p.paidBy) && isNoneOr(isSplit)(p.split);
+
+const isCard = (c: unknown): boolean =>
+    isObject(c) && isText(c.id) && isText(c.name) && isDay(c.closingDay) && isDay(c.dueDay);
+
+const isCategory = (c: unknown): boolean =>
+    isObject(c) && isText(c.id) && isText(c.name) && isText(c.color) && isText(c.icon)
+    && isNoneOr(isText)(c.parentId) && typeof c.archived === 'boolean';
+
+const isAllocation = (a: unknown): boolean => isObject(a) && isMonthId(a.monthId) && isAmount(a.amount);
+
+const isGoal = (g: unknown): boolean =>
+    isObject(g) && isText(g.id) && isText(g.name) && isAmount(g.targetAmount) && isMonthId(g.deadline)
+    && Array.isArray(g.allocations) && g.allocations.every(isAllocation);
+
+const isSavingsEntry = (e: unknown): boolean =>
+    isObject(e) && isText(e.id) && isOneOf(['closing', 'deposit', 'withdrawal', 'interest'])(e.type)
+    && isAmount(e.amount) && isText(e.date) && isText(e.description)
+    && isNoneOr(isMonthId)(e.monthId);
+
+const isRule = (r: unknown): boolean =>
+    isObject(r) && isText(r.id) && isOneOf(['contains', 'regex'])(r.matchType) && isText(r.pattern)
+    && isNoneOr(isAmount)(r.minValue) && isNoneOr(isAmount)(r.maxValue) && isText(r.category)
+    && isNoneOr(isExpenseType)(r.type) && typeof r.learned === 'boolean';
+
+// Each collection is checked for the fields the app reads from it
+const VALIDATORS: Record<keyof BackupData, (item: unknown) => boolean> = {
+    months: isMonth,
+    recurringExpenses: isRecurringExpense,
+    purchases: isPurchase,
+    cards: isCard,
+    categories: isCategory,
+    goals: isGoal,
+    savingsEntries: isSavingsEntry,
+    rules: isRule,
+};
+
+/**
+ * Reads a backup file. Throws with a message for the user when the file is not a valid backup.
+ */
+export const parseBackup = (text: string): Backup => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('O arquivo não é um JSON válido.');
+    }
+
+    if (!isObject(data) || data.app !== BACKUP_APP || !Number.isInteger(data.version)) {
+        throw new Error('Este arquivo não é um backup do Casal em Dias.');
+    }
+    if ((data.version as number) > BACKUP_VERSION) {
+        throw new Error('Este backup foi gerado por uma versão mais nova do app. Atualize a página e tente de novo.');
+    }
+
+    COLLECTIONS.forEach(key => {
+        const list = data[key] ?? [];
+        if (!Array.isArray(list) || !list.every(VALIDATORS[key])) {
+            throw new Error(`Backup corrompido: ${BACKUP_COLLECTION_LABELS[key]} com dados inválidos.`);
+        }
+        data[key] = list;
+    });
+
+    // Every collection passed its validator above
+    return data as unknown as Backup;
+};
+
+// --- Preview ---
+
+const sameRecord = <T>(a: T, b: T): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const diffCollection = <T extends { id: string }>(current: T[], incoming: T[], same: (a: T, b: T) => boolean): CollectionDiff<T> => {
+    const diff: CollectionDiff<T> = { added: [], changed: [], unchanged: 0 };
+    incoming.forEach(item => {
+        const existing = current.find(c => c.id === item.id);
+        if (!existing) diff.added.push(item);
+        else if (same(existing, item)) diff.unchanged++;
+        else diff.changed.push(item);
+    });
+    return diff;
+};
+
+/**
+ * What restoring the backup would add and overwrite. Months are matched by their YYYY-MM id,
+ * everything else by id.
+ */
+export const previewRestore = (current: BackupData, backup: BackupData): BackupPreview => ({
+    months: diffCollection(current.months, backup.months, sameMonthContent),
+    recurringExpenses: diffCollection(current.recurringExpenses, backup.recurringExpenses, sameRecord),
+    purchases: diffCollection(current.purchases, backup.purchases, sameRecord),
+    cards: diffCollection(current.cards, backup.cards, sameRecord),
+    categories: diffCollection(current.categories, backup.categories, sameRecord),
+    goals: diffCollection(current.goals, backup.goals, sameRecord),
+    savingsEntries: diffCollection(current.savingsEntries, backup.savingsEntries, sameRecord),
+    rules: diffCollection(current.rules, backup.rules, sameRecord),
+});
+
+/**
+ * Items of a collection that restoring writes.
+ */
+export const itemsToWrite = <T>(diff: CollectionDiff<T>): T[] => [...diff.added, ...diff.changed];
+
+/**
+ * Caixinha entries to delete on restore: the ones of a restored month that the backup doesn't
+ * have, so a month closed again since the backup doesn't end up with two closing entries.
+ */
+export const findReplacedSavingsEntries = (current: SavingsEntry[], backup: BackupData): SavingsEntry[] => {
+    const restoredMonths = new Set(backup.months.map(m => m.id));
+    return current.filter(e => e.monthId && restoredMonths.has(e.monthId) && !backup.savingsEntries.some(b => b.id === e.id));
+};
+
+// --- Spreadsheet export ---
+
+// Semicolons and decimal commas, the way spreadsheets set to Portuguese open CSV files
+const csvCell = (value: string | number): string => {
+    const text = typeof value === 'number' ? value.toFixed(2).replace('.', ',') : value;
+    return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Header and one row per expense of every month, oldest month first
+const expenseSheetRows = (months: MonthData[], members: HouseholdMember[], cards: CreditCard[]): SheetCell[][] => {
+    const header = ['Mês', 'Data', 'Descrição', 'Categoria', 'Tipo', 'Valor', 'Pago por', 'Cartão', 'Parcela'];
+    const nameOf = (userId?: string | null) => members.find(m => m.userId === userId)?.name || 'Conta conjunta';
+
+    const rows = [...months]
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .flatMap(month => [...month.expenses]
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map((e: Expense) => [
+                month.id,
+                e.date,
+                e.name,
+                e.category,
+                e.type === 'fixed' ? 'Fixa' : 'Variável',
+                e.value,
+                nameOf(e.paidBy),
+                cards.find(c => c.id === e.cardId)?.name || '',
+                e.installment ? `${e.installment.number}/${e.installment.total}` : '',
+            ]));
+
+    return [header, ...rows];
+};
+
+/**
+ * Every expense of every month as CSV, oldest month first.
+ */
+export const expensesToCsv = (months: MonthData[], members: HouseholdMember[], cards: CreditCard[]): string =>
+    expenseSheetRows(months, members, cards).map(row => row.map(csvCell).join(';')).join('\r\n');
+
+/**
+ * The same table as expensesToCsv as an Excel workbook, with the values as numbers.
+ */
+export const expensesToXlsx = (months: MonthData[], members: HouseholdMember[], cards: CreditCard[]): Uint8Array =>
+    buildXlsx('Despesas', expenseSheetRows(months, members, cards));
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PATTERN_LENGTH, findMatchingRule, hasNestedRepetition, isValidPattern } from './categoryRules';
+import { CategoryRule } from '../types';
+
+const rule = (pattern: string, fields: Partial<CategoryRule> = {}): CategoryRule => ({
+    id: pattern, matchType: 'regex', pattern, minValue: null, maxValue: null, category: 'Transporte', type: null, learned: false, ...fields
+});
+
+describe('regex rules', () => {
+    it('rejects patterns longer than the limit', () => {
+        expect(isValidPattern('regex', 'a'.repeat(MAX_PATTERN_LENGTH))).toBe(true);
+        expect(isValidPattern('regex', 'a'.repeat(MAX_PATTERN_LENGTH + 1))).toBe(false);
+        expect(findMatchingRule([rule('a'.repeat(MAX_PATTERN_LENGTH + 1))], 'a'.repeat(300), 10)).toBeUndefined();
+    });
+
+    it('gives the same answer every time the same pattern is matched', () => {
+        const rules = [rule('^(uber|99) ')];
+        const names = ['uber trip', '99 pop', 'padaria', 'UBER eats'];
+
+        const first = names.map(name => findMatchingRule(rules, name, 20)?.category);
+        const again = names.map(name => findMatchingRule(rules, name, 20)?.category);
+
+        expect(first).toEqual(['Transporte', 'Transporte', undefined, 'Transporte']);
+        expect(again).toEqual(first);
+    });
+
+    it('still rejects patterns that do not compile', () => {
+        expect(isValidPattern('regex', '(uber')).toBe(false);
+        expect(findMatchingRule([rule('(uber')], 'uber trip', 20)).toBeUndefined();
+    });
+
+    it.each(['(a+)+$', '(a*)*b', '(a|aa)+$', '((ab)+)*', '(\\d+){2,}', '(?:x+y?)+'])('rejects %s, which can backtrack exponentially', pattern => {
+        expect(hasNestedRepetition(pattern)).toBe(true);
+        expect(isValidPattern('regex', pattern)).toBe(false);
+    });
+
+    it.each(['^(uber|99) ', 'uber.*trip', '(ab)+', '(a+)?', '[(+)]+', '\\(a+\\)+', 'ifood|rappi'])('accepts %s', pattern => {
+        expect(hasNestedRepetition(pattern)).toBe(false);
+        expect(isValidPattern('regex', pattern)).toBe(true);
+    });
+
+    it('answers quickly for a long name that a nested pattern would hang on', () => {
+        const started = Date.now();
+
+        expect(findMatchingRule([rule('(a+)+$')], 'a'.repeat(40) + '!', 20)).toBeUndefined();
+        expect(Date.now() - started).toBeLessThan(100);
+    });
+});
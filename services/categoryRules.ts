@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CategoryRule, Expense, ExpenseType, MonthData } from '../types';
+import { FALLBACK_CATEGORY } from '../constants';
+
+// --- CATEGORIZATION RULES ---
+// Rules suggest the category (and type) of an expense from its name and value. Rules typed in
+// the rules screen run before the learned ones; within each group the longest pattern, i.e. the
+// most specific one, wins.
+
+// Times a name must have been given the same category before the history turns it into a rule
+const MIN_OCCURRENCES = 2;
+
+// Lowercase, no accents, punctuation as spaces: "UBER *Trip" -> "uber trip"
+const normalize = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Pattern learned from an expense name. Words with digits (card numbers, dates, order ids)
+ * are dropped so "UBER *TRIP 4521" and "Uber trip 0312" learn the same rule.
+ */
+export const learnedPattern = (name: string): string =>
+    normalize(name).split(' ').filter(word => !/\d/.test(word)).join(' ');
+
+// Longest pattern a rule may have (a sanity limit on what is stored, see hasNestedRepetition
+// for what keeps regex rules fast)
+export const MAX_PATTERN_LENGTH = 200;
+
+// *, + or {n,}: repeats without a bound (? and {n,m} only repeat a fixed number of times)
+const UNBOUNDED_QUANTIFIER = /^(\*|\+|\{\d+,\})/;
+
+/**
+ * Whether a regex repeats without a bound a group that itself repeats or has alternatives,
+ * like (a+)+ or (a|ab)*. Those can backtrack exponentially on a long name and freeze the
+ * page, so regex rules can't use them.
+ */
+export const hasNestedRepetition = (pattern: string): boolean => {
+    const groups: boolean[] = []; // Per open group: repeats or branches inside
+    let inClass = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\') {
+            i++;
+            continue;
+        }
+        if (inClass) {
+            if (char === ']') inClass = false;
+            continue;
+        }
+        if (char === '[') {
+            inClass = true;
+        } else if (char === '(') {
+            groups.push(false);
+        } else if (char === ')') {
+            const risky = groups.pop();
+            if (risky && UNBOUNDED_QUANTIFIER.test(pattern.slice(i + 1))) return true;
+            if (risky && groups.length > 0) groups[groups.length - 1] = true;
+        } else if (groups.length > 0 && (char === '|' || UNBOUNDED_QUANTIFIER.test(pattern.slice(i)))) {
+            groups[groups.length - 1] = true;
+        }
+    }
+    return false;
+};
+
+// Regex patterns compiled so far (null when the pattern doesn't compile), so matching a whole
+// statement against the rules doesn't build the same RegExp for every row
+const compiledPatterns = new Map<string, RegExp | null>();
+const MAX_COMPILED_PATTERNS = 500;
+
+const compilePattern = (pattern: string): RegExp | null => {
+    if (!compiledPatterns.has(pattern)) {
+        // Patterns typed and discarded in the rules screen would otherwise pile up
+        if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+        let regex: RegExp | null = null;
+        try {
+            regex = new RegExp(pattern, 'i');
+        } catch {
+            regex = null;
+        }
+        compiledPatterns.set(pattern, regex);
+    }
+    return compiledPatterns.get(pattern) ?? null;
+};
+
+export const isValidPattern = (matchType: CategoryRule['matchType'], pattern: string): boolean => {
+    if (!pattern.trim() || pattern.length > MAX_PATTERN_LENGTH) return false;
+    if (matchType === 'contains') return normalize(pattern) !== '';
+    return !hasNestedRepetition(pattern) && compilePattern(pattern) !== null;
+};
+
+export const ruleMatches = (rule: CategoryRule, name: string, value: number): boolean => {
+    if (rule.minValue !== null && value < rule.minValue) return false;
+    if (rule.maxValue !== null && value > rule.maxValue) return false;
+    if (!isValidPattern(rule.matchType, rule.pattern)) return false;
+    return rule.matchType === 'regex'
+        ? compilePattern(rule.pattern)!.test(name)
+        : normalize(name).includes(normalize(rule.pattern));
+};
+
+/**
+ * Rules in the order they are tried.
+ */
+export const sortRules = (rules: CategoryRule[]): CategoryRule[] =>
+    [...rules].sort((a, b) => Number(a.learned) - Number(b.learned) || b.pattern.length - a.pattern.length);
+
+export const findMatchingRule = (rules: CategoryRule[], name: string, value: number): CategoryRule | undefined =>
+    sortRules(rules).find(rule => ruleMatches(rule, name, value));
+
+/**
+ * Rule to save after the user picked a category by hand: a new learned rule, an updated one,
+ * or null when the rules already agree (or a typed rule says otherwise; those are only
+ * changed in the rules screen). The fallback category teaches nothing.
+ */
+export const learnRule = (
+    rules: CategoryRule[],
+    expense: Pick<Expense, 'name' | 'value' | 'category' | 'type'>
+): CategoryRule | null => {
+    const pattern = learnedPattern(expense.name);
+    if (!pattern || expense.category === FALLBACK_CATEGORY) return null;
+
+    const match = findMatchingRule(rules, expense.name, expense.value);
+    if (match && (match.category === expense.category || !match.learned)) return null;
+
+    const existing = rules.find(r => r.learned && r.matchType === 'contains' && r.pattern === pattern);
+    if (existing) return { ...existing, category: expense.category, type: expense.type };
+
+    return {
+        id: uuidv4(),
+        matchType: 'contains',
+        pattern,
+        minValue: null,
+        maxValue: null,
+        category: expense.category,
+        type: expense.type,
+        learned: true
+    };
+};
+
+/**
+ * Learned rules for names the couple keeps giving the same category in past months and that
+ * no rule covers yet. Expenses generated from templates and installments are left out.
+ */
+export const learnRulesFromHistory = (months: MonthData[], rules: CategoryRule[]): CategoryRule[] => {
+    const choices = new Map<string, Map<string, { count: number; type: ExpenseType }>>();
+    months
+        .flatMap(m => m.expenses)
+        .filter(e => !e.recurringId && !e.installment && e.category !== FALLBACK_CATEGORY)
+        .forEach(e => {
+            const pattern = learnedPattern(e.name);
+            if (!pattern) return;
+            const byCategory = choices.get(pattern) || new Map();
+            byCategory.set(e.category, { count: (byCategory.get(e.category)?.count || 0) + 1, type: e.type });
+            choices.set(pattern, byCategory);
+        });
+
+    const learned: CategoryRule[] = [];
+    choices.forEach((byCategory, pattern) => {
+        const [category, { count, type }] = [...byCategory.entries()].sort((a, b) => b[1].count - a[1].count)[0];
+        if (count < MIN_OCCURRENCES || rules.some(r => r.matchType === 'contains' && normalize(r.pattern) === pattern)) return;
+        learned.push({ id: uuidv4(), matchType: 'contains', pattern, minValue: null, maxValue: null, category, type, learned: true });
+    });
+    return learned;
+};
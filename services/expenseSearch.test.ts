@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ExpenseFilters, ExpenseSort, JOINT_ACCOUNT, calculateSearchTotals, emptyExpenseFilters, searchExpenses } from './expenseSearch';
+import { Category, Expense, MonthData } from '../types';
+
+const categories: Category[] = [
+    { id: 'c1', name: 'Saúde', color: '#ef4444', icon: '💊', parentId: null, archived: false },
+    { id: 'c2', name: 'Farmácia', color: '#ef4444', icon: '💊', parentId: 'c1', archived: false },
+    { id: 'c3', name: 'Moradia', color: '#3b82f6', icon: '🏠', parentId: null, archived: false },
+];
+
+const expense = (id: string, fields: Partial<Expense>): Expense => ({
+    id, name: id, value: 0, category: 'Outros', date: '2025-01-10', type: 'variable', ...fields
+});
+
+const months: MonthData[] = [
+    {
+        id: '2025-01', label: 'Janeiro 2025', closed: true, incomes: [],
+        expenses: [
+            expense('remedio', { name: 'Remédio Drogasil', value: 85.9, category: 'Farmácia', date: '2025-01-12', paidBy: 'ana' }),
+            expense('aluguel-jan', { name: 'Aluguel', value: 2000, category: 'Moradia', date: '2025-01-05', type: 'fixed' }),
+        ]
+    },
+    {
+        id: '2025-02', label: 'Fevereiro 2025', closed: false, incomes: [],
+        expenses: [
+            expense('consulta', { name: 'Consulta dermatologista', value: 300, category: 'Saúde', date: '2025-02-03', paidBy: 'bia' }),
+            expense('aluguel-fev', { name: 'Aluguel', value: 2000, category: 'Moradia', date: '2025-02-05', type: 'fixed' }),
+            // Card purchase of January recorded in the month its invoice is due
+            expense('vitamina', { name: 'Vitamina D drogasil', value: 42.15, category: 'Farmácia', date: '2025-01-28', paidBy: 'ana' }),
+        ]
+    },
+];
+
+const search = (filters: Partial<ExpenseFilters>, sort: ExpenseSort = { key: 'date', direction: 'desc' }) =>
+    searchExpenses(months, { ...emptyExpenseFilters(), ...filters }, sort, categories).map(r => r.expense.id);
+
+describe('searchExpenses', () => {
+    it('finds every word of the text in any order, ignoring accents and case', () => {
+        expect(search({ text: 'drogasil remedio' })).toEqual(['remedio']);
+        expect(search({ text: 'DROGASIL' })).toEqual(['vitamina', 'remedio']);
+    });
+
+    it('includes the subcategories of a top-level category', () => {
+        expect(search({ category: 'Saúde' })).toEqual(['consulta', 'vitamina', 'remedio']);
+        expect(search({ category: 'Farmácia' })).toEqual(['vitamina', 'remedio']);
+    });
+
+    it('filters by type, value and date, limits included', () => {
+        expect(search({ type: 'fixed' })).toEqual(['aluguel-fev', 'aluguel-jan']);
+        expect(search({ minValue: 85.9, maxValue: 300 })).toEqual(['consulta', 'remedio']);
+        expect(search({ fromDate: '2025-01-12', toDate: '2025-01-28' })).toEqual(['vitamina', 'remedio']);
+    });
+
+    it('filters by payer, with the joint account matching expenses nobody paid alone', () => {
+        expect(search({ paidBy: 'ana' })).toEqual(['vitamina', 'remedio']);
+        expect(search({ paidBy: JOINT_ACCOUNT })).toEqual(['aluguel-fev', 'aluguel-jan']);
+    });
+
+    it('sorts by the requested key and breaks ties with the newest date first', () => {
+        expect(search({}, { key: 'value', direction: 'desc' })).toEqual(['aluguel-fev', 'aluguel-jan', 'consulta', 'remedio', 'vitamina']);
+        expect(search({}, { key: 'name', direction: 'asc' })).toEqual(['aluguel-fev', 'aluguel-jan', 'consulta', 'remedio', 'vitamina']);
+        expect(search({}, { key: 'month', direction: 'asc' })).toEqual(['remedio', 'aluguel-jan', 'aluguel-fev', 'consulta', 'vitamina']);
+    });
+});
+
+describe('calculateSearchTotals', () => {
+    it('adds up the rows found, per type and on average', () => {
+        const rows = searchExpenses(months, { ...emptyExpenseFilters(), category: 'Saúde' }, { key: 'date', direction: 'desc' }, categories);
+
+        expect(calculateSearchTotals(rows)).toEqual({ count: 3, total: 428.05, fixed: 0, variable: 428.05, average: 142.68 });
+    });
+
+    it('is zero when nothing was found', () => {
+        expect(calculateSearchTotals([])).toEqual({ count: 0, total: 0, fixed: 0, variable: 0, average: 0 });
+    });
+});
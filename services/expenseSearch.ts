@@ -0,0 +1,106 @@
+import { Category, Expense, ExpenseType, MonthData } from '../types';
+import { getRootCategoryName, roundCents } from './financeService';
+
+// --- EXPENSE SEARCH ---
+// Filters and sorts the expenses of every loaded month, for questions like
+// "how much did we spend on farmácia this year?".
+
+// Payer filter value for expenses paid from the joint account
+export const JOINT_ACCOUNT = 'joint';
+
+export interface ExpenseFilters {
+    text: string; // Words the name must contain, in any order; accents and case are ignored
+    category: string; // Category name; a top-level category also matches its subcategories
+    type: ExpenseType | '';
+    minValue: number | null;
+    maxValue: number | null;
+    fromDate: string; // YYYY-MM-DD, inclusive; empty = no limit
+    toDate: string;
+    paidBy: string; // HouseholdMember.userId, JOINT_ACCOUNT or empty for anyone
+}
+
+export type ExpenseSortKey = 'date' | 'name' | 'category' | 'value' | 'month';
+
+export interface ExpenseSort {
+    key: ExpenseSortKey;
+    direction: 'asc' | 'desc';
+}
+
+export interface ExpenseSearchRow {
+    expense: Expense;
+    monthId: string; // Month the expense was recorded in (the invoice month for card expenses)
+}
+
+export interface ExpenseSearchTotals {
+    count: number;
+    total: number;
+    fixed: number;
+    variable: number;
+    average: number;
+}
+
+export const emptyExpenseFilters = (): ExpenseFilters => ({
+    text: '', category: '', type: '', minValue: null, maxValue: null, fromDate: '', toDate: '', paidBy: ''
+});
+
+const normalize = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const matches = (expense: Expense, filters: ExpenseFilters, words: string[], categories: Category[]): boolean => {
+    const name = normalize(expense.name);
+    if (!words.every(word => name.includes(word))) return false;
+    if (filters.category && expense.category !== filters.category
+        && getRootCategoryName(expense.category, categories) !== filters.category) return false;
+    if (filters.type && expense.type !== filters.type) return false;
+    if (filters.minValue !== null && expense.value < filters.minValue) return false;
+    if (filters.maxValue !== null && expense.value > filters.maxValue) return false;
+    if (filters.fromDate && expense.date < filters.fromDate) return false;
+    if (filters.toDate && expense.date > filters.toDate) return false;
+    if (filters.paidBy === JOINT_ACCOUNT) return !expense.paidBy;
+    return !filters.paidBy || expense.paidBy === filters.paidBy;
+};
+
+const compareRows = (key: ExpenseSortKey) => (a: ExpenseSearchRow, b: ExpenseSearchRow): number => {
+    switch (key) {
+        case 'value': return a.expense.value - b.expense.value;
+        case 'name': return a.expense.name.localeCompare(b.expense.name, 'pt-BR');
+        case 'category': return a.expense.category.localeCompare(b.expense.category, 'pt-BR');
+        case 'month': return a.monthId.localeCompare(b.monthId);
+        default: return a.expense.date.localeCompare(b.expense.date);
+    }
+};
+
+/**
+ * Expenses of all months that pass the filters, in the requested order
+ * (ties keep the date order, newest first).
+ */
+export const searchExpenses = (
+    months: MonthData[],
+    filters: ExpenseFilters,
+    sort: ExpenseSort,
+    categories: Category[]
+): ExpenseSearchRow[] => {
+    const words = normalize(filters.text).split(/\s+/).filter(Boolean);
+    const byDate = compareRows('date');
+    const bySortKey = compareRows(sort.key);
+    const sign = sort.direction === 'asc' ? 1 : -1;
+
+    return months
+        .flatMap(month => month.expenses.map(expense => ({ expense, monthId: month.id })))
+        .filter(row => matches(row.expense, filters, words, categories))
+        .sort((a, b) => sign * bySortKey(a, b) || -byDate(a, b));
+};
+
+export const calculateSearchTotals = (rows: ExpenseSearchRow[]): ExpenseSearchTotals => {
+    const sum = (type?: ExpenseType) => roundCents(rows
+        .filter(r => !type || r.expense.type === type)
+        .reduce((acc, r) => acc + r.expense.value, 0));
+    const total = sum();
+    return {
+        count: rows.length,
+        total,
+        fixed: sum('fixed'),
+        variable: sum('variable'),
+        average: rows.length > 0 ? roundCents(total / rows.length) : 0
+    };
+};
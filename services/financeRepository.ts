@@ -0,0 +1,63 @@
+import { Category, CategoryRule, CreditCard, InstallmentPurchase, MonthData, RecurringExpense, SaveMonthResult, SavingsEntry, SavingsGoal } from '../types';
+
+/**
+ * Storage contract used by FinanceAPI.
+ * Every backend (Supabase, IndexedDB...) must implement these operations
+ * so the app can switch adapters through configuration only.
+ */
+export interface FinanceRepository {
+    /** Loads every month (with its expenses) owned by the household. */
+    getMonths: (householdId: string) => Promise<MonthData[]>;
+    /** Full sync of a list of months. */
+    saveMonths: (householdId: string, months: MonthData[]) => Promise<void>;
+    /**
+     * Saves a single month (used by auto-save).
+     * `base` is the last version of the month this session got from the backend; only changes made
+     * since then are written, and changes both sides made to the same data come back as a conflict.
+     */
+    saveMonth: (householdId: string, month: MonthData, base?: MonthData) => Promise<SaveMonthResult>;
+    /** Permanently deletes a month and all of its expenses. */
+    deleteMonth: (householdId: string, monthId: string) => Promise<void>;
+    /** Loads the household's recurring expense templates. */
+    getRecurringExpenses: (householdId: string) => Promise<RecurringExpense[]>;
+    /** Creates or replaces a recurring expense template. */
+    saveRecurringExpense: (householdId: string, template: RecurringExpense) => Promise<void>;
+    /** Deletes a template. Expenses already generated from it are kept. */
+    deleteRecurringExpense: (householdId: string, templateId: string) => Promise<void>;
+    /** Loads the household's installment purchases (including cancelled ones). */
+    getPurchases: (householdId: string) => Promise<InstallmentPurchase[]>;
+    /** Creates or replaces an installment purchase. */
+    savePurchase: (householdId: string, purchase: InstallmentPurchase) => Promise<void>;
+    /** Deletes a purchase. Installments already generated from it are kept. */
+    deletePurchase: (householdId: string, purchaseId: string) => Promise<void>;
+    /** Loads the household's credit cards. */
+    getCards: (householdId: string) => Promise<CreditCard[]>;
+    /** Creates or replaces a credit card. */
+    saveCard: (householdId: string, card: CreditCard) => Promise<void>;
+    /** Deletes a card. Its expenses stay, no longer linked to a card. */
+    deleteCard: (householdId: string, cardId: string) => Promise<void>;
+    /** Loads the household's categories (including archived ones). */
+    getCategories: (householdId: string) => Promise<Category[]>;
+    /** Creates or replaces a category. Renaming does not touch expenses; callers re-map them. */
+    saveCategory: (householdId: string, category: Category) => Promise<void>;
+    /** Deletes a category (used after merging it into another). */
+    deleteCategory: (householdId: string, categoryId: string) => Promise<void>;
+    /** Loads the household's savings goals with their allocations. */
+    getGoals: (householdId: string) => Promise<SavingsGoal[]>;
+    /** Creates or replaces a goal (allocations included). */
+    saveGoal: (householdId: string, goal: SavingsGoal) => Promise<void>;
+    /** Deletes a goal; its allocated money goes back to the free Caixinha balance. */
+    deleteGoal: (householdId: string, goalId: string) => Promise<void>;
+    /** Loads every Caixinha ledger entry of the household. */
+    getSavingsEntries: (householdId: string) => Promise<SavingsEntry[]>;
+    /** Creates or replaces a ledger entry. */
+    saveSavingsEntry: (householdId: string, entry: SavingsEntry) => Promise<void>;
+    /** Deletes a ledger entry. */
+    deleteSavingsEntry: (householdId: string, entryId: string) => Promise<void>;
+    /** Loads the household's categorization rules. */
+    getRules: (householdId: string) => Promise<CategoryRule[]>;
+    /** Creates or replaces a categorization rule. */
+    saveRule: (householdId: string, rule: CategoryRule) => Promise<void>;
+    /** Deletes a categorization rule. */
+    deleteRule: (householdId: string, ruleId: string) => Promise<void>;
+}
@@ -0,0 +1,570 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applyInstallments, applyRecurringExpenses, calculateBudgetStatus, calculateCategoryTrend, calculateFairSplit, calculateGoalProgress,
+    calculateInvoices, calculateMonthlyTrend, calculateSettlement, calculateSpendingByCategory, calculateTrendAverages,
+    compareWithLastYear, compareWithPreviousMonth, findBudgetAlert, findMissingClosingEntries, getInstallmentNumber, getInstallmentValue, getInvoiceMonth, getLastInstallmentMonth, getUnallocatedBalance,
+    isRecurringDueInMonth, propagatePurchase, propagateRecurringExpense, remapCategoryInMonths
+} from './financeService';
+import { Category, CreditCard, Expense, Income, InstallmentPurchase, MonthData, RecurringExpense, SavingsGoal } from '../types';
+
+const closedMonth = (id: string, income: number, spent: number): MonthData => ({
+    id,
+    label: id,
+    incomes: [{ id: `i-${id}`, name: 'Salário', value: income, type: 'salary', memberId: null, receivedDate: `${id}-05` }],
+    expenses: [{ id: `e-${id}`, name: 'Mercado', value: spent, category: 'Outros', date: `${id}-10`, type: 'variable' }],
+    closed: true
+});
+
+// Open month of March 2025 with the given incomes and expenses (only the fields a test cares about)
+const marchWith = (incomes: Partial<Income>[], expenses: Partial<Expense>[]): MonthData => ({
+    id: '2025-03',
+    label: 'Março 2025',
+    closed: false,
+    incomes: incomes.map((i, index) => ({
+        id: `i${index}`, name: 'Salário', value: 0, type: 'salary', memberId: null, receivedDate: '2025-03-05', ...i
+    })),
+    expenses: expenses.map((e, index) => ({
+        id: `e${index}`, name: `Despesa ${index}`, value: 0, category: 'Outros', date: '2025-03-10', type: 'variable', ...e
+    }))
+});
+
+const emptyMonth = (id: string, closed = false): MonthData => ({ id, label: id, incomes: [], expenses: [], closed });
+
+// Alimentação has the subcategory Mercado
+const categories: Category[] = [
+    { id: 'c1', name: 'Alimentação', color: '#f97316', icon: '🍽️', parentId: null, archived: false },
+    { id: 'c2', name: 'Mercado', color: '#f97316', icon: '🛒', parentId: 'c1', archived: false },
+    { id: 'c3', name: 'Lazer', color: '#8b5cf6', icon: '🎉', parentId: null, archived: false },
+];
+
+const ANA = 'ana';
+const BIA = 'bia';
+
+describe('findMissingClosingEntries', () => {
+    const months = [closedMonth('2025-01', 5000, 4000), closedMonth('2025-02', 3000, 3500)];
+
+    it('gives two sessions backfilling the same household the same entry ids', () => {
+        const first = findMissingClosingEntries('h1', months, []);
+        const second = findMissingClosingEntries('h1', months, []);
+
+        expect(first.map(e => e.id)).toEqual(second.map(e => e.id));
+        expect(first.map(e => [e.type, e.amount])).toEqual([['closing', 1000], ['withdrawal', 500]]);
+    });
+
+    it('derives different ids for other households and months', () => {
+        const ids = [
+            ...findMissingClosingEntries('h1', months, []),
+            ...findMissingClosingEntries('h2', months, [])
+        ].map(e => e.id);
+
+        expect(new Set(ids).size).toBe(4);
+    });
+
+    it('skips months that already have an entry', () => {
+        const [january] = findMissingClosingEntries('h1', months, []);
+
+        expect(findMissingClosingEntries('h1', months, [january]).map(e => e.monthId)).toEqual(['2025-02']);
+    });
+});
+
+describe('calculateSettlement', () => {
+    it('evens out an equal split with one transfer', () => {
+        const month = marchWith([], [
+            { value: 300, paidBy: ANA },
+            { value: 100, paidBy: BIA }
+        ]);
+
+        const settlement = calculateSettlement(month, [ANA, BIA]);
+
+        expect(settlement.members).toEqual([
+            { memberId: ANA, paid: 300, share: 200 },
+            { memberId: BIA, paid: 100, share: 200 }
+        ]);
+        expect(settlement.transfers).toEqual([{ from: BIA, to: ANA, value: 100 }]);
+    });
+
+    it('weighs proportional expenses by each partner income', () => {
+        const month = marchWith(
+            [{ value: 6000, memberId: ANA }, { value: 2000, memberId: BIA }],
+            [{ value: 400, paidBy: BIA, split: { rule: 'proportional' } }]
+        );
+
+        expect(calculateSettlement(month, [ANA, BIA]).transfers).toEqual([{ from: ANA, to: BIA, value: 300 }]);
+    });
+
+    it('gives the payer the custom percentage and the rest to the partner', () => {
+        const month = marchWith([], [{ value: 200, paidBy: ANA, split: { rule: 'custom', percentage: 30 } }]);
+
+        expect(calculateSettlement(month, [ANA, BIA]).transfers).toEqual([{ from: BIA, to: ANA, value: 140 }]);
+    });
+
+    it('charges a single-member expense to that member only', () => {
+        const month = marchWith([], [{ value: 80, paidBy: ANA, split: { rule: 'single', memberId: BIA } }]);
+
+        expect(calculateSettlement(month, [ANA, BIA]).transfers).toEqual([{ from: BIA, to: ANA, value: 80 }]);
+    });
+
+    it('falls back to 50/50 for proportional expenses when nobody has income', () => {
+        const month = marchWith([], [{ value: 100, paidBy: ANA, split: { rule: 'proportional' } }]);
+
+        expect(calculateSettlement(month, [ANA, BIA]).transfers).toEqual([{ from: BIA, to: ANA, value: 50 }]);
+    });
+
+    it('leaves joint-account expenses and payers outside the household unattributed', () => {
+        const month = marchWith([], [
+            { value: 120 },
+            { value: 30, paidBy: 'ex-member' },
+            { value: 50, paidBy: ANA }
+        ]);
+
+        const settlement = calculateSettlement(month, [ANA, BIA]);
+
+        expect(settlement.unattributed).toBe(150);
+        expect(settlement.transfers).toEqual([{ from: BIA, to: ANA, value: 25 }]);
+    });
+
+    it('needs no transfer when everyone paid their share', () => {
+        const month = marchWith([], [{ value: 100, paidBy: ANA }, { value: 100, paidBy: BIA }]);
+
+        expect(calculateSettlement(month, [ANA, BIA]).transfers).toEqual([]);
+        expect(calculateSettlement(undefined, [ANA, BIA])).toEqual({
+            members: [{ memberId: ANA, paid: 0, share: 0 }, { memberId: BIA, paid: 0, share: 0 }],
+            transfers: [],
+            unattributed: 0
+        });
+    });
+});
+
+describe('calculateFairSplit', () => {
+    // R$ 3.000 of fixed costs; variable expenses are not split
+    const month = marchWith(
+        [{ value: 6000, memberId: ANA }, { value: 2000, memberId: BIA }, { value: 500, memberId: null }],
+        [{ value: 2000, type: 'fixed' }, { value: 1000, type: 'fixed' }, { value: 700, type: 'variable' }]
+    );
+
+    it('splits the fixed costs equally', () => {
+        const shares = calculateFairSplit(month, [ANA, BIA], { rule: 'equal', allowances: {} });
+
+        expect(shares.map(s => [s.percentage, s.contribution])).toEqual([[50, 1500], [50, 1500]]);
+    });
+
+    it('splits in proportion to income, leaving unassigned income out', () => {
+        const shares = calculateFairSplit(month, [ANA, BIA], { rule: 'proportional', allowances: {} });
+
+        expect(shares).toEqual([
+            { memberId: ANA, income: 6000, percentage: 75, contribution: 2250 },
+            { memberId: BIA, income: 2000, percentage: 25, contribution: 750 }
+        ]);
+    });
+
+    it('splits what is left after each allowance, never below zero', () => {
+        const shares = calculateFairSplit(month, [ANA, BIA], { rule: 'allowance', allowances: { [ANA]: 1000, [BIA]: 1000 } });
+
+        expect(shares.map(s => s.contribution)).toEqual([2500, 500]);
+
+        const broke = calculateFairSplit(month, [ANA, BIA], { rule: 'allowance', allowances: { [BIA]: 5000 } });
+        expect(broke.map(s => s.contribution)).toEqual([3000, 0]);
+    });
+
+    it('falls back to an equal split when there is no income to weigh by', () => {
+        const noIncome = marchWith([], [{ value: 900, type: 'fixed' }]);
+
+        const shares = calculateFairSplit(noIncome, [ANA, BIA], { rule: 'proportional', allowances: {} });
+
+        expect(shares.map(s => s.contribution)).toEqual([450, 450]);
+    });
+
+    it('rounds percentages to one decimal and contributions to cents', () => {
+        const thirds = marchWith([{ value: 1000, memberId: ANA }, { value: 2000, memberId: BIA }], [{ value: 100, type: 'fixed' }]);
+
+        const shares = calculateFairSplit(thirds, [ANA, BIA], { rule: 'proportional', allowances: {} });
+
+        expect(shares.map(s => [s.percentage, s.contribution])).toEqual([[33.3, 33.33], [66.7, 66.67]]);
+    });
+});
+
+describe('recurring expenses', () => {
+    const rent: RecurringExpense = {
+        id: 'rent', name: 'Aluguel', value: 2000, category: 'Moradia', frequency: 'monthly', dueDay: 31,
+        startMonth: '2025-01', endMonth: null, paidBy: ANA, split: { rule: 'proportional' }
+    };
+
+    it.each<[RecurringExpense['frequency'], string[]]>([
+        ['monthly', ['2025-01', '2025-02', '2025-03', '2025-04', '2025-05', '2025-06', '2025-07']],
+        ['bimonthly', ['2025-01', '2025-03', '2025-05', '2025-07']],
+        ['yearly', ['2025-01']],
+    ])('is due %s from the start month until the end month', (frequency, due) => {
+        const template = { ...rent, frequency, endMonth: '2025-07' };
+        const months = ['2024-12', '2025-01', '2025-02', '2025-03', '2025-04', '2025-05', '2025-06', '2025-07', '2025-08', '2026-01'];
+
+        expect(months.filter(m => isRecurringDueInMonth(template, m))).toEqual(due);
+    });
+
+    it('keeps a yearly template due every year with no end', () => {
+        const ipva = { ...rent, frequency: 'yearly' as const, startMonth: '2025-03' };
+
+        expect(['2025-03', '2026-02', '2026-03', '2027-03'].map(m => isRecurringDueInMonth(ipva, m))).toEqual([true, false, true, true]);
+    });
+
+    it('adds a fixed expense on the due day, clamped to the length of the month', () => {
+        const february = applyRecurringExpenses(emptyMonth('2025-02'), [rent]);
+
+        expect(february.expenses).toEqual([expect.objectContaining({
+            name: 'Aluguel', value: 2000, category: 'Moradia', date: '2025-02-28', type: 'fixed',
+            paidBy: ANA, split: { rule: 'proportional' }, recurringId: 'rent'
+        })]);
+    });
+
+    it('does not add a template twice nor touch months it is not due in', () => {
+        const march = applyRecurringExpenses(emptyMonth('2025-03'), [rent]);
+        const before = emptyMonth('2024-12');
+
+        expect(applyRecurringExpenses(march, [rent])).toBe(march);
+        expect(applyRecurringExpenses(before, [rent])).toBe(before);
+    });
+
+    it('rewrites the expense of the open months from the edited month on', () => {
+        const months = [
+            applyRecurringExpenses(emptyMonth('2025-01'), [rent]),
+            { ...applyRecurringExpenses(emptyMonth('2025-02'), [rent]), closed: true },
+            applyRecurringExpenses(emptyMonth('2025-03'), [rent]),
+            applyRecurringExpenses(emptyMonth('2025-04'), [rent]),
+        ];
+
+        const changed = propagateRecurringExpense(months, 'rent', { ...rent, value: 2200, dueDay: 5 }, '2025-02');
+
+        expect(changed.map(m => m.id)).toEqual(['2025-03', '2025-04']);
+        expect(changed[0].expenses).toEqual([{ ...months[2].expenses[0], value: 2200, date: '2025-03-05' }]);
+    });
+
+    it('removes the expense from the open months once the template is deleted or ended', () => {
+        const months = ['2025-03', '2025-04', '2025-05'].map(id => applyRecurringExpenses(emptyMonth(id), [rent]));
+
+        expect(propagateRecurringExpense(months, 'rent', null, '2025-04').map(m => [m.id, m.expenses.length]))
+            .toEqual([['2025-04', 0], ['2025-05', 0]]);
+        expect(propagateRecurringExpense(months, 'rent', { ...rent, endMonth: '2025-04' }, '2025-03').map(m => m.id))
+            .toEqual(['2025-05']);
+    });
+});
+
+describe('installment purchases', () => {
+    const tv: InstallmentPurchase = {
+        id: 'tv', name: 'TV', totalValue: 1000, installments: 3, firstMonth: '2024-12', dueDay: 30,
+        category: 'Casa', paidBy: BIA, split: { rule: 'equal' }, cancelledFrom: null
+    };
+
+    it('numbers the installments from the first month to the last, across the year', () => {
+        const months = ['2024-11', '2024-12', '2025-01', '2025-02', '2025-03'];
+
+        expect(months.map(m => getInstallmentNumber(tv, m))).toEqual([null, 1, 2, 3, null]);
+        expect(getLastInstallmentMonth(tv)).toBe('2025-02');
+    });
+
+    it('has no installment from the month it was cancelled on', () => {
+        const cancelled = { ...tv, cancelledFrom: '2025-01' };
+
+        expect(['2024-12', '2025-01', '2025-02'].map(m => getInstallmentNumber(cancelled, m))).toEqual([1, null, null]);
+    });
+
+    it('puts the cents that do not divide evenly in the first installment', () => {
+        expect([1, 2, 3].map(n => getInstallmentValue(tv, n))).toEqual([333.34, 333.33, 333.33]);
+        expect([1, 2].map(n => getInstallmentValue({ ...tv, totalValue: 99.99, installments: 2 }, n))).toEqual([50, 49.99]);
+    });
+
+    it('adds the installment of the month once, on the due day clamped to the month', () => {
+        const february = applyInstallments(emptyMonth('2025-02'), [tv]);
+
+        expect(february.expenses).toEqual([expect.objectContaining({
+            name: 'TV', value: 333.33, category: 'Casa', date: '2025-02-28', type: 'variable',
+            paidBy: BIA, split: { rule: 'equal' }, installment: { purchaseId: 'tv', number: 3, total: 3 }
+        })]);
+        expect(applyInstallments(february, [tv])).toBe(february);
+        expect(applyInstallments(emptyMonth('2025-03'), [tv]).expenses).toEqual([]);
+    });
+
+    it('drops the installments of the open months once the purchase is cancelled', () => {
+        const months = [
+            { ...applyInstallments(emptyMonth('2024-12'), [tv]), closed: true },
+            applyInstallments(emptyMonth('2025-01'), [tv]),
+            applyInstallments(emptyMonth('2025-02'), [tv]),
+        ];
+
+        const changed = propagatePurchase(months, 'tv', { ...tv, cancelledFrom: '2025-02' }, '2024-12');
+
+        expect(changed.map(m => [m.id, m.expenses.length])).toEqual([['2025-02', 0]]);
+    });
+
+    it('rewrites the open installments when the purchase is edited and removes them when it is deleted', () => {
+        const months = ['2024-12', '2025-01', '2025-02'].map(id => applyInstallments(emptyMonth(id), [tv]));
+
+        const edited = propagatePurchase(months, 'tv', { ...tv, totalValue: 1200 }, '2025-01');
+        expect(edited.map(m => m.expenses.map(e => [e.id, e.value]))).toEqual([
+            [[months[1].expenses[0].id, 400]], [[months[2].expenses[0].id, 400]]
+        ]);
+
+        expect(propagatePurchase(months, 'tv', null, '2024-12').every(m => m.expenses.length === 0)).toBe(true);
+    });
+});
+
+describe('credit card invoices', () => {
+    // Closes on the 5th and is due on the 12th of the same month
+    const nubank: CreditCard = { id: 'nu', name: 'Nubank', closingDay: 5, dueDay: 12 };
+    // Closes on the 25th and is due on the 5th of the following month
+    const itau: CreditCard = { id: 'itau', name: 'Itaú', closingDay: 25, dueDay: 5 };
+
+    it.each([
+        ['2025-03-01', '2025-03'],
+        ['2025-03-05', '2025-03'],
+        ['2025-03-06', '2025-04'],
+        ['2025-12-31', '2026-01'],
+    ])('sends a purchase on %s to the invoice due in %s when the card is due after it closes', (date, invoice) => {
+        expect(getInvoiceMonth(nubank, date)).toBe(invoice);
+    });
+
+    it.each([
+        ['2025-03-01', '2025-04'],
+        ['2025-03-25', '2025-04'],
+        ['2025-03-26', '2025-05'],
+        ['2025-12-26', '2026-02'],
+    ])('sends a purchase on %s to the invoice due in %s when the card is due the month after it closes', (date, invoice) => {
+        expect(getInvoiceMonth(itau, date)).toBe(invoice);
+    });
+
+    it('puts the closing date of an invoice in the month before it is due when needed', () => {
+        const march = marchWith([], [
+            { value: 80, cardId: 'itau' }, { value: 20.1, cardId: 'itau' }, { value: 50, cardId: 'nu' }, { value: 10 }
+        ]);
+
+        expect(calculateInvoices(march, [nubank, itau]).map(({ cardId, closingDate, dueDate, total }) => ({ cardId, closingDate, dueDate, total })))
+            .toEqual([
+                { cardId: 'nu', closingDate: '2025-03-05', dueDate: '2025-03-12', total: 50 },
+                { cardId: 'itau', closingDate: '2025-02-25', dueDate: '2025-03-05', total: 100.1 },
+            ]);
+    });
+});
+
+describe('budgets', () => {
+    const withBudgets = (expenses: Partial<Expense>[]): MonthData => ({
+        ...marchWith([], expenses),
+        budgets: [
+            { category: 'Alimentação', limit: 1000, carryOver: true },
+            { category: 'Lazer', limit: 200, carryOver: false },
+            { category: 'Viagem', limit: 0, carryOver: false },
+        ]
+    });
+
+    it('counts the subcategories of a budget and sets the level at 80% and 100%', () => {
+        const march = withBudgets([
+            { value: 300, category: 'Alimentação' }, { value: 500.5, category: 'Mercado' }, { value: 200, category: 'Lazer' }, { value: 90, category: 'Viagem' }
+        ]);
+
+        expect(calculateBudgetStatus(march, categories)).toEqual([
+            { category: 'Alimentação', limit: 1000, spent: 800.5, percentage: 80.05, level: 'warning' },
+            { category: 'Lazer', limit: 200, spent: 200, percentage: 100, level: 'over' },
+            { category: 'Viagem', limit: 0, spent: 90, percentage: 0, level: 'ok' },
+        ]);
+    });
+
+    it('has no status for a month without budgets', () => {
+        expect(calculateBudgetStatus(marchWith([], [{ value: 100 }]), categories)).toEqual([]);
+        expect(calculateBudgetStatus(undefined)).toEqual([]);
+    });
+
+    it('alerts when an expense of a subcategory moves its parent budget to a worse level', () => {
+        const before = withBudgets([{ value: 700, category: 'Alimentação' }]);
+        const warning = withBudgets([{ value: 700, category: 'Alimentação' }, { value: 150, category: 'Mercado' }]);
+        const over = withBudgets([{ value: 700, category: 'Alimentação' }, { value: 350, category: 'Mercado' }]);
+
+        expect(findBudgetAlert(before, warning, 'Mercado', categories)).toMatchObject({ category: 'Alimentação', level: 'warning' });
+        expect(findBudgetAlert(warning, over, 'Mercado', categories)).toMatchObject({ category: 'Alimentação', level: 'over' });
+    });
+
+    it('does not alert twice for the same level nor for other categories', () => {
+        const warning = withBudgets([{ value: 850, category: 'Alimentação' }]);
+        const stillWarning = withBudgets([{ value: 850, category: 'Alimentação' }, { value: 50, category: 'Mercado' }]);
+        const lazerOver = withBudgets([{ value: 850, category: 'Alimentação' }, { value: 250, category: 'Lazer' }]);
+
+        expect(findBudgetAlert(warning, stillWarning, 'Mercado', categories)).toBeNull();
+        expect(findBudgetAlert(warning, lazerOver, 'Alimentação', categories)).toBeNull();
+    });
+});
+
+describe('remapCategoryInMonths', () => {
+    const withLazer = (id: string, closed: boolean, budgets: MonthData['budgets']): MonthData => ({
+        ...emptyMonth(id, closed),
+        expenses: [
+            { id: `${id}-1`, name: 'Cinema', value: 60, category: 'Lazer', date: `${id}-02`, type: 'variable' },
+            { id: `${id}-2`, name: 'Feira', value: 80, category: 'Mercado', date: `${id}-03`, type: 'variable' },
+        ],
+        budgets
+    });
+
+    it('renames the category in the expenses and budgets of every month, closed ones included', () => {
+        const months = [
+            withLazer('2025-01', true, [{ category: 'Lazer', limit: 300, carryOver: true }]),
+            withLazer('2025-02', false, undefined),
+            emptyMonth('2025-03'),
+        ];
+
+        const changed = remapCategoryInMonths(months, 'Lazer', 'Diversão');
+
+        expect(changed.map(m => m.id)).toEqual(['2025-01', '2025-02']);
+        expect(changed.map(m => m.expenses.map(e => e.category))).toEqual([['Diversão', 'Mercado'], ['Diversão', 'Mercado']]);
+        expect(changed[0].budgets).toEqual([{ category: 'Diversão', limit: 300, carryOver: true }]);
+    });
+
+    it('keeps the budget of the category it merges into', () => {
+        const january = withLazer('2025-01', false, [
+            { category: 'Lazer', limit: 300, carryOver: true }, { category: 'Mercado', limit: 900, carryOver: false }
+        ]);
+
+        const [merged] = remapCategoryInMonths([january], 'Lazer', 'Mercado');
+
+        expect(merged.expenses.map(e => e.category)).toEqual(['Mercado', 'Mercado']);
+        expect(merged.budgets).toEqual([{ category: 'Mercado', limit: 900, carryOver: false }]);
+    });
+
+    it('changes a month that only has a budget of the category', () => {
+        const march = { ...emptyMonth('2025-03'), budgets: [{ category: 'Lazer', limit: 100, carryOver: false }] };
+
+        expect(remapCategoryInMonths([march], 'Lazer', 'Diversão')).toEqual([
+            { ...march, budgets: [{ category: 'Diversão', limit: 100, carryOver: false }] }
+        ]);
+    });
+});
+
+describe('calculateSpendingByCategory', () => {
+    it('rolls subcategories up into their parent and sorts the largest first', () => {
+        const march = marchWith([], [
+            { value: 100, category: 'Lazer', type: 'variable' },
+            { value: 250.1, category: 'Mercado', type: 'variable' },
+            { value: 149.9, category: 'Alimentação', type: 'fixed' },
+        ]);
+
+        expect(calculateSpendingByCategory(march, categories)).toEqual([
+            { category: 'Alimentação', color: '#f97316', icon: '🍽️', fixed: 149.9, variable: 250.1, total: 400, percentage: 80 },
+            { category: 'Lazer', color: '#8b5cf6', icon: '🎉', fixed: 0, variable: 100, total: 100, percentage: 20 },
+        ]);
+    });
+
+    it('shows a category that is not in the table anymore in grey', () => {
+        expect(calculateSpendingByCategory(marchWith([], [{ value: 30, category: 'Antiga' }]), categories)).toEqual([
+            { category: 'Antiga', color: '#94a3b8', icon: '', fixed: 0, variable: 30, total: 30, percentage: 100 },
+        ]);
+    });
+
+    it('is empty without expenses', () => {
+        expect(calculateSpendingByCategory(marchWith([], []), categories)).toEqual([]);
+        expect(calculateSpendingByCategory(undefined, categories)).toEqual([]);
+    });
+});
+
+describe('reports', () => {
+    const monthOf = (id: string, income: number, expenses: Partial<Expense>[]): MonthData =>
+        ({ ...marchWith([{ value: income }], expenses), id, label: id });
+
+    // Given out of order, as they come from the repository
+    const months = [
+        monthOf('2025-03', 6000, [
+            { value: 2200, category: 'Alimentação', type: 'fixed' }, { value: 300, category: 'Lazer' }, { value: 300, category: 'Mercado' }
+        ]),
+        monthOf('2024-03', 5000, [{ value: 2000, category: 'Alimentação', type: 'fixed' }, { value: 500, category: 'Lazer' }]),
+        monthOf('2025-02', 6000, [{ value: 2000, category: 'Alimentação', type: 'fixed' }, { value: 1000, category: 'Mercado' }]),
+    ];
+
+    it('lists the totals of the recorded months in the range, oldest first', () => {
+        expect(calculateMonthlyTrend(months, '2025-01', '2025-03')).toEqual([
+            { monthId: '2025-02', label: 'Fev/25', income: 6000, fixed: 2000, variable: 1000, balance: 3000 },
+            { monthId: '2025-03', label: 'Mar/25', income: 6000, fixed: 2200, variable: 600, balance: 3200 },
+        ]);
+    });
+
+    it('averages each line of the trend', () => {
+        expect(calculateTrendAverages(calculateMonthlyTrend(months, '2025-01', '2025-03')))
+            .toEqual({ income: 6000, fixed: 2100, variable: 800, balance: 3100 });
+        expect(calculateTrendAverages([])).toEqual({ income: 0, fixed: 0, variable: 0, balance: 0 });
+    });
+
+    it('lists the spending per top-level category of every month in the range', () => {
+        expect(calculateCategoryTrend(months, '2025-02', '2025-03', categories)).toEqual([
+            { monthId: '2025-02', label: 'Fev/25', values: { 'Alimentação': 3000 } },
+            { monthId: '2025-03', label: 'Mar/25', values: { 'Alimentação': 2500, Lazer: 300 } },
+        ]);
+    });
+
+    it('compares a month with the same month of the previous year', () => {
+        expect(compareWithLastYear(months, '2025-03', categories)).toEqual({
+            monthId: '2025-03',
+            previousMonthId: '2024-03',
+            totals: [
+                { label: 'Renda', current: 6000, previous: 5000, change: 20 },
+                { label: 'Despesas fixas', current: 2200, previous: 2000, change: 10 },
+                { label: 'Despesas variáveis', current: 600, previous: 500, change: 20 },
+                { label: 'Saldo', current: 3200, previous: 2500, change: expect.closeTo(28) },
+            ],
+            categories: [
+                { label: 'Alimentação', current: 2500, previous: 2000, change: 25 },
+                { label: 'Lazer', current: 300, previous: 500, change: -40 },
+            ]
+        });
+    });
+
+    it('compares a month with the month before, with no change for categories new this month', () => {
+        const comparison = compareWithPreviousMonth(months, '2025-03', categories);
+
+        expect(comparison?.previousMonthId).toBe('2025-02');
+        expect(comparison?.categories.map(c => [c.label, c.current, c.previous])).toEqual([
+            ['Alimentação', 2500, 3000], ['Lazer', 300, 0]
+        ]);
+        expect(comparison?.categories[1].change).toBeNull();
+    });
+
+    it('measures the change of a negative balance against its size', () => {
+        const overspent = [monthOf('2025-01', 1000, [{ value: 1500 }]), monthOf('2025-02', 1000, [{ value: 500 }])];
+
+        expect(compareWithPreviousMonth(overspent, '2025-02', categories)?.totals[3])
+            .toEqual({ label: 'Saldo', current: 500, previous: -500, change: 200 });
+    });
+
+    it('has no comparison when the earlier month was not recorded', () => {
+        expect(compareWithLastYear(months, '2025-02', categories)).toBeNull();
+        expect(compareWithPreviousMonth(months, '2024-03', categories)).toBeNull();
+    });
+});
+
+describe('savings goals', () => {
+    const trip: SavingsGoal = {
+        id: 'g1', name: 'Viagem', targetAmount: 6000, deadline: '2025-12',
+        allocations: [{ monthId: '2025-01', amount: 1000 }, { monthId: '2025-02', amount: 500.5 }]
+    };
+
+    it('spreads what is missing over the months left, counting the current one', () => {
+        expect(calculateGoalProgress(trip, '2025-03')).toEqual({
+            saved: 1500.5, remaining: 4499.5, percentage: expect.closeTo(25.008), monthsLeft: 10, monthlyContribution: 449.95
+        });
+        expect(calculateGoalProgress(trip, '2025-12')).toMatchObject({ monthsLeft: 1, monthlyContribution: 4499.5 });
+    });
+
+    it('asks for everything that is missing once the deadline has passed', () => {
+        expect(calculateGoalProgress(trip, '2026-01')).toMatchObject({ monthsLeft: 0, monthlyContribution: 4499.5 });
+    });
+
+    it('stops at 100% and asks for nothing once the target is reached', () => {
+        const reached = { ...trip, allocations: [...trip.allocations, { monthId: '2025-03', amount: 5000 }] };
+
+        expect(calculateGoalProgress(reached, '2025-03')).toMatchObject({ remaining: 0, percentage: 100, monthlyContribution: 0 });
+        expect(calculateGoalProgress({ ...trip, targetAmount: 0 }, '2025-03').percentage).toBe(0);
+    });
+
+    it('leaves the positive balance of a closed month that no goal took', () => {
+        const march = { ...marchWith([{ value: 5000 }], [{ value: 3000 }]), closed: true };
+        const goals = [
+            { ...trip, allocations: [{ monthId: '2025-03', amount: 500 }, { monthId: '2025-02', amount: 300 }] },
+            { ...trip, id: 'g2', allocations: [{ monthId: '2025-03', amount: 200.25 }] },
+        ];
+
+        expect(getUnallocatedBalance(march, goals)).toBe(1299.75);
+        expect(getUnallocatedBalance({ ...march, closed: false }, goals)).toBe(0);
+        expect(getUnallocatedBalance({ ...marchWith([{ value: 1000 }], [{ value: 3000 }]), closed: true }, [])).toBe(0);
+    });
+});
@@ -1,5 +1,6 @@
-import { MonthData, Expense } from '../types';
-import { MONTH_NAMES } from '../constants';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { BudgetLevel, BudgetStatus, CardInvoice, Category, CategoryRule, CategorySpending, CategoryTrendPoint, MonthTrend, YearOverYear, YearOverYearRow, CreditCard, Expense, FairShare, FairSplitConfig, GoalProgress, InstallmentPurchase, MonthData, MonthStatus, RecurrenceFrequency, RecurringExpense, SaveMonthResult, SavingsEntry, SavingsGoal, SavingsHistoryRow, Settlement, Transfer } from '../types';
+import { BUDGET_WARNING_PERCENTAGE, DEFAULT_CATEGORIES, MONTH_NAMES } from '../constants';
 
 export const formatCurrency = (value: number): string => {
   return new Intl.NumberFormat('pt-BR', {
@@ -22,10 +23,226 @@ export const generateMonthId = (date: Date): string => {
   return `${year}-${month}`;
 };
 
+// Compact label for chart axes, e.g. "2025-01" -> "Jan/25"
+export const getShortMonthLabel = (monthId: string): string => {
+  const [year, month] = monthId.split('-');
+  return `${MONTH_NAMES[Number(month) - 1].slice(0, 3)}/${year.slice(2)}`;
+};
+
+/**
+ * Builds a YYYY-MM-DD date inside a month (YYYY-MM), clamping the day to the month's length
+ * (e.g. day 31 in February becomes the 28th/29th).
+ */
+export const buildDateInMonth = (monthId: string, day: number): string => {
+  const [year, month] = monthId.split('-').map(Number);
+  const lastDay = new Date(year, month, 0).getDate();
+  const clamped = Math.min(Math.max(day, 1), lastDay);
+  return `${monthId}-${String(clamped).padStart(2, '0')}`;
+};
+
+export const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// --- GENERATED EXPENSES (recurring templates, installment purchases) ---
+
+// Months since year 0, so the distance between two YYYY-MM ids is a subtraction
+const monthIndex = (monthId: string): number => {
+  const [year, month] = monthId.split('-').map(Number);
+  return year * 12 + (month - 1);
+};
+
+const monthIdFromIndex = (index: number): string =>
+  `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+
+// Month id `delta` months after (or before, when negative) the given one
+export const shiftMonthId = (monthId: string, delta: number): string => monthIdFromIndex(monthIndex(monthId) + delta);
+
+type GeneratedFields = Omit<Expense, 'id' | 'version'>;
+
+/**
+ * Brings the expenses generated by one source (template, purchase...) up to date in the open months
+ * from `fromMonthId` on; closed months are history and stay as they are.
+ * `isLinked` finds the source's expense in a month and `fieldsFor` returns what it should contain
+ * (null when the source has nothing due that month). Returns only the months that changed.
+ */
+const syncGeneratedExpenses = (
+  months: MonthData[],
+  fromMonthId: string,
+  isLinked: (e: Expense) => boolean,
+  fieldsFor: (monthId: string) => GeneratedFields | null
+): MonthData[] => {
+  return months
+    .filter(m => !m.closed && m.id >= fromMonthId)
+    .map(m => {
+      const existing = m.expenses.find(isLinked);
+      const fields = fieldsFor(m.id);
+
+      if (!fields) {
+        return existing ? { ...m, expenses: m.expenses.filter(e => e !== existing) } : m;
+      }
+      if (!existing) return { ...m, expenses: [...m.expenses, { id: uuidv4(), ...fields }] };
+
+      const updated = { ...existing, ...fields };
+      return JSON.stringify(updated) === JSON.stringify(existing)
+        ? m
+        : { ...m, expenses: m.expenses.map(e => e === existing ? updated : e) };
+    })
+    .filter(m => !months.includes(m));
+};
+
+// --- Recurring expenses ---
+
+const RECURRENCE_STEP: Record<RecurrenceFrequency, number> = { monthly: 1, bimonthly: 2, yearly: 12 };
+
+export const isRecurringDueInMonth = (template: RecurringExpense, monthId: string): boolean => {
+  if (monthId < template.startMonth) return false;
+  if (template.endMonth && monthId > template.endMonth) return false;
+  return (monthIndex(monthId) - monthIndex(template.startMonth)) % RECURRENCE_STEP[template.frequency] === 0;
+};
+
+const recurringFields = (template: RecurringExpense, monthId: string): GeneratedFields | null =>
+  isRecurringDueInMonth(template, monthId) ? {
+    name: template.name,
+    value: template.value,
+    category: template.category,
+    date: buildDateInMonth(monthId, template.dueDay),
+    type: 'fixed',
+    paidBy: template.paidBy ?? null,
+    split: template.split,
+    recurringId: template.id,
+  } : null;
+
+/**
+ * Adds to the month the expense of every template due in it that the month does not have yet.
+ * Returns the same object when nothing was added.
+ */
+export const applyRecurringExpenses = (month: MonthData, templates: RecurringExpense[]): MonthData => {
+  const generated: Expense[] = templates
+    .filter(t => !month.expenses.some(e => e.recurringId === t.id))
+    .map(t => recurringFields(t, month.id))
+    .filter((fields): fields is GeneratedFields => !!fields)
+    .map(fields => ({ id: uuidv4(), ...fields }));
+
+  return generated.length === 0 ? month : { ...month, expenses: [...month.expenses, ...generated] };
+};
+
+/**
+ * Rewrites the expenses of a template in the open months from `fromMonthId` on.
+ * `template` is null when it was deleted. Returns only the months that changed.
+ */
+export const propagateRecurringExpense = (
+  months: MonthData[],
+  templateId: string,
+  template: RecurringExpense | null,
+  fromMonthId: string
+): MonthData[] =>
+  syncGeneratedExpenses(months, fromMonthId, e => e.recurringId === templateId, monthId =>
+    template ? recurringFields(template, monthId) : null
+  );
+
+// --- Installment purchases ---
+
+/**
+ * Number (1-based) of the purchase's installment that falls in the month, or null if none does
+ * (before the first one, after the last one or after the purchase was cancelled).
+ */
+export const getInstallmentNumber = (purchase: InstallmentPurchase, monthId: string): number | null => {
+  if (purchase.cancelledFrom && monthId >= purchase.cancelledFrom) return null;
+  const number = monthIndex(monthId) - monthIndex(purchase.firstMonth) + 1;
+  return number >= 1 && number <= purchase.installments ? number : null;
+};
+
+/**
+ * Value of one installment. Cents that do not divide evenly go to the first installment,
+ * so the installments always add up to the total.
+ */
+export const getInstallmentValue = (purchase: InstallmentPurchase, number: number): number => {
+  const regular = Math.floor(purchase.totalValue * 100 / purchase.installments) / 100;
+  return number === 1 ? roundCents(purchase.totalValue - regular * (purchase.installments - 1)) : regular;
+};
+
+/** YYYY-MM of the purchase's last installment. */
+export const getLastInstallmentMonth = (purchase: InstallmentPurchase): string =>
+  monthIdFromIndex(monthIndex(purchase.firstMonth) + purchase.installments - 1);
+
+const installmentFields = (purchase: InstallmentPurchase, monthId: string): GeneratedFields | null => {
+  const number = getInstallmentNumber(purchase, monthId);
+  return number === null ? null : {
+    name: purchase.name,
+    value: getInstallmentValue(purchase, number),
+    category: purchase.category,
+    date: buildDateInMonth(monthId, purchase.dueDay),
+    type: 'variable',
+    paidBy: purchase.paidBy ?? null,
+    split: purchase.split,
+    installment: { purchaseId: purchase.id, number, total: purchase.installments },
+  };
+};
+
+/**
+ * Adds to the month the installment of every purchase that falls in it and is not there yet.
+ * Returns the same object when nothing was added.
+ */
+export const applyInstallments = (month: MonthData, purchases: InstallmentPurchase[]): MonthData => {
+  const generated: Expense[] = purchases
+    .filter(p => !month.expenses.some(e => e.installment?.purchaseId === p.id))
+    .map(p => installmentFields(p, month.id))
+    .filter((fields): fields is GeneratedFields => !!fields)
+    .map(fields => ({ id: uuidv4(), ...fields }));
+
+  return generated.length === 0 ? month : { ...month, expenses: [...month.expenses, ...generated] };
+};
+
+/**
+ * Rewrites the installments of a purchase in the open months from `fromMonthId` on
+ * (after it was created, edited or cancelled). `purchase` is null when it was deleted.
+ * Returns only the months that changed.
+ */
+export const propagatePurchase = (
+  months: MonthData[],
+  purchaseId: string,
+  purchase: InstallmentPurchase | null,
+  fromMonthId: string
+): MonthData[] =>
+  syncGeneratedExpenses(months, fromMonthId, e => e.installment?.purchaseId === purchaseId, monthId =>
+    purchase ? installmentFields(purchase, monthId) : null
+  );
+
+// --- Credit cards ---
+
+/**
+ * Month (YYYY-MM) of the invoice a card purchase falls in, i.e. the month its invoice is due.
+ * Purchases after the closing day go to the next statement, and a due day on or before the
+ * closing day means the invoice is due in the month after it closes.
+ */
+export const getInvoiceMonth = (card: CreditCard, purchaseDate: string): string => {
+  const [year, month, day] = purchaseDate.split('-').map(Number);
+  let closingIndex = year * 12 + (month - 1);
+  if (day > card.closingDay) closingIndex += 1;
+  return monthIdFromIndex(card.dueDay <= card.closingDay ? closingIndex + 1 : closingIndex);
+};
+
+/**
+ * The invoice of each card due in the month (cards without expenses have an empty invoice).
+ */
+export const calculateInvoices = (monthData: MonthData | undefined, cards: CreditCard[]): CardInvoice[] => {
+  if (!monthData) return [];
+  return cards.map(card => {
+    const expenses = monthData.expenses.filter(e => e.cardId === card.id);
+    const closingMonth = card.dueDay <= card.closingDay ? monthIdFromIndex(monthIndex(monthData.id) - 1) : monthData.id;
+    return {
+      cardId: card.id,
+      closingDate: buildDateInMonth(closingMonth, card.closingDay),
+      dueDate: buildDateInMonth(monthData.id, card.dueDay),
+      expenses,
+      total: roundCents(expenses.reduce((acc, e) => acc + e.value, 0)),
+    };
+  });
+};
+
 export const calculateTotals = (monthData: MonthData | undefined) => {
   if (!monthData) return { income: 0, fixed: 0, variable: 0, totalExpenses: 0, balance: 0 };
 
-  const income = monthData.salary1 + monthData.salary2;
+  const income = monthData.incomes.reduce((acc, curr) => acc + curr.value, 0);
   const fixed = monthData.expenses
     .filter(e => e.type === 'fixed')
     .reduce((acc, curr) => acc + curr.value, 0);
@@ -39,218 +256,503 @@ export const calculateTotals = (monthData: MonthData | undefined) => {
   return { income, fixed, variable, totalExpenses, balance };
 };
 
-export const calculateAccumulatedSavings = (months: MonthData[]): number => {
+// --- Categories ---
+
+export const buildDefaultCategories = (): Category[] =>
+  DEFAULT_CATEGORIES.map(c => ({ id: uuidv4(), ...c, parentId: null, archived: false }));
+
+/**
+ * Name of the top-level category an expense category belongs to (itself when it is not a subcategory).
+ */
+export const getRootCategoryName = (name: string, categories: Category[]): string => {
+  const category = categories.find(c => c.name === name);
+  const parent = category?.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+  return parent ? parent.name : name;
+};
+
+/**
+ * Points every expense and budget of `from` at `to` (rename or merge).
+ * Touches closed months too, since a category is the same everywhere. Returns the months that changed.
+ */
+export const remapCategoryInMonths = (months: MonthData[], from: string, to: string): MonthData[] =>
+  months
+    .filter(m => m.expenses.some(e => e.category === from) || (m.budgets || []).some(b => b.category === from))
+    .map(m => {
+      const budgets = m.budgets || [];
+      // When merging into a category that already has a budget, that budget wins
+      const remappedBudgets = budgets.some(b => b.category === to)
+        ? budgets.filter(b => b.category !== from)
+        : budgets.map(b => b.category === from ? { ...b, category: to } : b);
+      return {
+        ...m,
+        expenses: m.expenses.map(e => e.category === from ? { ...e, category: to } : e),
+        budgets: remappedBudgets
+      };
+    });
+
+/**
+ * Spending per top-level category (subcategories roll up into their parent), largest first.
+ * Categories that are not in the household's table anymore still show up, in grey.
+ */
+export const calculateSpendingByCategory = (monthData: MonthData | undefined, categories: Category[]): CategorySpending[] => {
+  const expenses = monthData?.expenses || [];
+  const grandTotal = expenses.reduce((acc, e) => acc + e.value, 0);
+  const byCategory = new Map<string, CategorySpending>();
+
+  expenses.forEach(e => {
+    const name = getRootCategoryName(e.category, categories);
+    const category = categories.find(c => c.name === name);
+    const entry = byCategory.get(name) || {
+      category: name, color: category?.color || '#94a3b8', icon: category?.icon || '', fixed: 0, variable: 0, total: 0, percentage: 0
+    };
+    entry[e.type] += e.value;
+    entry.total += e.value;
+    byCategory.set(name, entry);
+  });
+
+  return [...byCategory.values()]
+    .map(s => ({
+      ...s,
+      fixed: roundCents(s.fixed),
+      variable: roundCents(s.variable),
+      total: roundCents(s.total),
+      percentage: grandTotal > 0 ? (s.total / grandTotal) * 100 : 0
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+// --- Budgets ---
+
+const getBudgetLevel = (percentage: number): BudgetLevel =>
+  percentage >= 100 ? 'over' : percentage >= BUDGET_WARNING_PERCENTAGE ? 'warning' : 'ok';
+
+/**
+ * How much of each category budget of the month was spent (fixed and variable expenses alike).
+ * A category's budget also covers the expenses of its subcategories.
+ */
+export const calculateBudgetStatus = (monthData: MonthData | undefined, categories: Category[] = []): BudgetStatus[] =>
+  (monthData?.budgets || []).map(budget => {
+    const spent = roundCents(monthData!.expenses
+      .filter(e => e.category === budget.category || getRootCategoryName(e.category, categories) === budget.category)
+      .reduce((acc, e) => acc + e.value, 0));
+    const percentage = budget.limit > 0 ? (spent / budget.limit) * 100 : 0;
+    return { category: budget.category, limit: budget.limit, spent, percentage, level: getBudgetLevel(percentage) };
+  });
+
+/**
+ * Budget (of the category or of its parent) that moved to a worse level (warning or over) between
+ * two versions of a month, e.g. before and after adding an expense. Null when nothing crossed a threshold.
+ */
+export const findBudgetAlert = (before: MonthData, after: MonthData, category: string, categories: Category[] = []): BudgetStatus | null => {
+  const severity: Record<BudgetLevel, number> = { ok: 0, warning: 1, over: 2 };
+  const affected = new Set([category, getRootCategoryName(category, categories)]);
+  const previous = calculateBudgetStatus(before, categories);
+  return calculateBudgetStatus(after, categories)
+    .filter(s => affected.has(s.category) && s.level !== 'ok')
+    .find(s => severity[s.level] > severity[previous.find(p => p.category === s.category)?.level || 'ok']) || null;
+};
+
+// --- Reports ---
+
+const monthsInRange = (months: MonthData[], fromMonthId: string, toMonthId: string): MonthData[] =>
+  months
+    .filter(m => m.id >= fromMonthId && m.id <= toMonthId)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+/**
+ * Income, fixed, variable and balance of every loaded month in the range (inclusive), oldest first.
+ */
+export const calculateMonthlyTrend = (months: MonthData[], fromMonthId: string, toMonthId: string): MonthTrend[] =>
+  monthsInRange(months, fromMonthId, toMonthId).map(m => {
+    const totals = calculateTotals(m);
+    return {
+      monthId: m.id,
+      label: getShortMonthLabel(m.id),
+      income: roundCents(totals.income),
+      fixed: roundCents(totals.fixed),
+      variable: roundCents(totals.variable),
+      balance: roundCents(totals.balance)
+    };
+  });
+
+/**
+ * Monthly average of each line of a trend.
+ */
+export const calculateTrendAverages = (trend: MonthTrend[]): Omit<MonthTrend, 'monthId' | 'label'> => {
+  const average = (pick: (t: MonthTrend) => number) =>
+    trend.length > 0 ? roundCents(trend.reduce((acc, t) => acc + pick(t), 0) / trend.length) : 0;
+  return {
+    income: average(t => t.income),
+    fixed: average(t => t.fixed),
+    variable: average(t => t.variable),
+    balance: average(t => t.balance)
+  };
+};
+
+/**
+ * Spending per top-level category of every loaded month in the range, oldest first.
+ */
+export const calculateCategoryTrend = (months: MonthData[], fromMonthId: string, toMonthId: string, categories: Category[]): CategoryTrendPoint[] =>
+  monthsInRange(months, fromMonthId, toMonthId).map(m => ({
+    monthId: m.id,
+    label: getShortMonthLabel(m.id),
+    values: Object.fromEntries(calculateSpendingByCategory(m, categories).map(s => [s.category, s.total]))
+  }));
+
+const compareRow = (label: string, current: number, previous: number): YearOverYearRow => ({
+  label,
+  current: roundCents(current),
+  previous: roundCents(previous),
+  change: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+});
+
+/**
+ * A month against an earlier one. Null when either month was not recorded.
+ */
+export const compareMonths = (months: MonthData[], monthId: string, previousMonthId: string, categories: Category[]): YearOverYear | null => {
+  const current = months.find(m => m.id === monthId);
+  const previous = months.find(m => m.id === previousMonthId);
+  if (!current || !previous) return null;
+
+  const now = calculateTotals(current);
+  const before = calculateTotals(previous);
+  const nowByCategory = calculateSpendingByCategory(current, categories);
+  const beforeByCategory = calculateSpendingByCategory(previous, categories);
+  const names = [...new Set([...nowByCategory, ...beforeByCategory].map(s => s.category))];
+
+  return {
+    monthId,
+    previousMonthId,
+    totals: [
+      compareRow('Renda', now.income, before.income),
+      compareRow('Despesas fixas', now.fixed, before.fixed),
+      compareRow('Despesas variáveis', now.variable, before.variable),
+      compareRow('Saldo', now.balance, before.balance)
+    ],
+    categories: names
+      .map(name => compareRow(
+        name,
+        nowByCategory.find(s => s.category === name)?.total || 0,
+        beforeByCategory.find(s => s.category === name)?.total || 0
+      ))
+      .sort((a, b) => b.current - a.current)
+  };
+};
+
+/**
+ * A month against the same month of the previous year. Null when that month was not recorded.
+ */
+export const compareWithLastYear = (months: MonthData[], monthId: string, categories: Category[]): YearOverYear | null => {
+  const [year, month] = monthId.split('-');
+  return compareMonths(months, monthId, `${Number(year) - 1}-${month}`, categories);
+};
+
+/**
+ * A month against the month before it. Null when that month was not recorded.
+ */
+export const compareWithPreviousMonth = (months: MonthData[], monthId: string, categories: Category[]): YearOverYear | null =>
+  compareMonths(months, monthId, shiftMonthId(monthId, -1), categories);
+
+/**
+ * Sums the month's incomes per household member (key `null` = not assigned).
+ */
+export const calculateIncomeByMember = (monthData: MonthData | undefined): Map<string | null, number> => {
+  const byMember = new Map<string | null, number>();
+  (monthData?.incomes || []).forEach(i => {
+    byMember.set(i.memberId, (byMember.get(i.memberId) || 0) + i.value);
+  });
+  return byMember;
+};
+
+/**
+ * Splits one expense between the members according to its split rule.
+ * The proportional rule weighs by `incomeByMember`; rules that cannot be applied
+ * (no income, payer or member outside the household) fall back to 50/50.
+ */
+export const calculateExpenseShares = (
+  expense: Expense,
+  memberIds: string[],
+  incomeByMember: Map<string | null, number>
+): Map<string, number> => {
+  const split = expense.split || { rule: 'equal' };
+  const weights = new Map(memberIds.map(id => [id, 1]));
+
+  if (split.rule === 'single' && split.memberId && weights.has(split.memberId)) {
+    memberIds.forEach(id => weights.set(id, id === split.memberId ? 1 : 0));
+  } else if (split.rule === 'custom' && expense.paidBy && weights.has(expense.paidBy) && memberIds.length > 1) {
+    const payerShare = Math.min(Math.max(split.percentage ?? 50, 0), 100) / 100;
+    memberIds.forEach(id => weights.set(id, id === expense.paidBy ? payerShare : (1 - payerShare) / (memberIds.length - 1)));
+  } else if (split.rule === 'proportional' && memberIds.some(id => (incomeByMember.get(id) || 0) > 0)) {
+    memberIds.forEach(id => weights.set(id, incomeByMember.get(id) || 0));
+  }
+
+  const totalWeight = memberIds.reduce((acc, id) => acc + weights.get(id)!, 0);
+  return new Map(memberIds.map(id => [id, expense.value * weights.get(id)! / totalWeight]));
+};
+
+/**
+ * Works out "quem deve para quem" for a month: what each partner paid, what they should
+ * have paid according to each expense's split rule, and the transfers that even it out.
+ * Expenses without a payer (joint account) only count towards `unattributed`.
+ */
+export const calculateSettlement = (monthData: MonthData | undefined, memberIds: string[]): Settlement => {
+  const { totalExpenses } = calculateTotals(monthData);
+  const incomeByMember = calculateIncomeByMember(monthData);
+  const paid = new Map(memberIds.map(id => [id, 0]));
+  const share = new Map(memberIds.map(id => [id, 0]));
+
+  let attributed = 0;
+  (monthData?.expenses || [])
+    .filter(e => e.paidBy && paid.has(e.paidBy))
+    .forEach(e => {
+      attributed += e.value;
+      paid.set(e.paidBy!, paid.get(e.paidBy!)! + e.value);
+      calculateExpenseShares(e, memberIds, incomeByMember).forEach((value, id) => share.set(id, share.get(id)! + value));
+    });
+
+  const members = memberIds.map(id => ({ memberId: id, paid: roundCents(paid.get(id)!), share: roundCents(share.get(id)!) }));
+
+  // Whoever paid less than their share pays whoever paid more, largest amounts first
+  const debtors = members.map(m => ({ id: m.memberId, amount: m.share - m.paid })).filter(d => d.amount > 0.005).sort((a, b) => b.amount - a.amount);
+  const creditors = members.map(m => ({ id: m.memberId, amount: m.paid - m.share })).filter(c => c.amount > 0.005).sort((a, b) => b.amount - a.amount);
+  const transfers: Transfer[] = [];
+  debtors.forEach(debtor => {
+    creditors.forEach(creditor => {
+      const value = Math.min(debtor.amount, creditor.amount);
+      if (value <= 0.005) return;
+      transfers.push({ from: debtor.id, to: creditor.id, value: roundCents(value) });
+      debtor.amount -= value;
+      creditor.amount -= value;
+    });
+  });
+
+  return { members, transfers, unattributed: roundCents(totalExpenses - attributed) };
+};
+
+/**
+ * Splits the month's fixed expenses between the members according to the fair split rule:
+ * equally, in proportion to income, or in proportion to what is left after each one's allowance.
+ * Without any income to weigh by, it falls back to an equal split.
+ */
+export const calculateFairSplit = (monthData: MonthData | undefined, memberIds: string[], config: FairSplitConfig): FairShare[] => {
+  const { fixed } = calculateTotals(monthData);
+  const incomeByMember = calculateIncomeByMember(monthData);
+
+  const weightOf = (id: string) => {
+    const income = incomeByMember.get(id) || 0;
+    if (config.rule === 'proportional') return income;
+    if (config.rule === 'allowance') return Math.max(income - (config.allowances[id] || 0), 0);
+    return 1;
+  };
+  const weights = memberIds.map(weightOf);
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+
+  return memberIds.map((id, index) => {
+    const ratio = totalWeight > 0 ? weights[index] / totalWeight : 1 / memberIds.length;
+    return {
+      memberId: id,
+      income: incomeByMember.get(id) || 0,
+      percentage: Math.round(ratio * 1000) / 10,
+      contribution: roundCents(fixed * ratio)
+    };
+  });
+};
+
+// Withdrawals take money out of the Caixinha; every other entry adds to it
+const signedAmount = (entry: SavingsEntry): number => entry.type === 'withdrawal' ? -entry.amount : entry.amount;
+
+/**
+ * Month an entry belongs to: the closed month for a closing entry, otherwise the month of its date.
+ */
+export const getEntryMonthId = (entry: SavingsEntry): string => entry.monthId || entry.date.slice(0, 7);
+
+export const calculateSavingsBalance = (entries: SavingsEntry[]): number =>
+  roundCents(entries.reduce((acc, e) => acc + signedAmount(e), 0));
+
+/**
+ * Ledger in chronological order with the running Caixinha balance after each entry.
+ */
+export const calculateSavingsHistory = (entries: SavingsEntry[]): SavingsHistoryRow[] => {
+  let balance = 0;
+  return [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date) || getEntryMonthId(a).localeCompare(getEntryMonthId(b)))
+    .map(entry => {
+      balance = roundCents(balance + signedAmount(entry));
+      return { entry, balance };
+    });
+};
+
+/**
+ * Ledger entry written when a month is closed: a positive balance goes into the Caixinha and a
+ * deficit is drawn from it. A month that broke even moves nothing (null).
+ */
+export const buildClosingEntry = (month: MonthData, date: string): SavingsEntry | null => {
+  const balance = roundCents(calculateTotals(month).balance);
+  if (balance === 0) return null;
+  return {
+    id: uuidv4(),
+    type: balance > 0 ? 'closing' : 'withdrawal',
+    amount: Math.abs(balance),
+    date,
+    monthId: month.id,
+    description: balance > 0 ? `Fechamento de ${month.label}` : `Déficit de ${month.label}`
+  };
+};
+
+export const getMonthStatus = (month: MonthData): MonthStatus => {
+  if (month.closed) return 'closed';
+  return (month.history || []).some(e => e.action === 'reopened') ? 'reopened' : 'open';
+};
+
+// Namespace for backfilled closing entry ids (013_savings_ledger.sql derives the same ones)
+const CLOSING_ENTRY_NAMESPACE = '8a74c1f9-62e1-49cc-b417-e9c55fad9eea';
+
+/**
+ * Closing entries for closed months that have none yet, i.e. months closed before the
+ * Caixinha had a ledger. They are dated on the last day of the month. The id comes from the
+ * household and month, so two sessions backfilling at once write the same row instead of two.
+ */
+export const findMissingClosingEntries = (householdId: string, months: MonthData[], entries: SavingsEntry[]): SavingsEntry[] => {
+  const recorded = new Set(entries.map(e => e.monthId).filter(Boolean));
   return months
-    .filter(m => m.closed) // Only closed months
-    .reduce((acc, m) => {
-      const { balance } = calculateTotals(m);
-      return acc + (balance > 0 ? balance : 0); // Only positive balances
-    }, 0);
+    .filter(m => m.closed && !recorded.has(m.id))
+    .map(m => buildClosingEntry(m, buildDateInMonth(m.id, 31)))
+    .filter((e): e is SavingsEntry => !!e)
+    .map(e => ({ ...e, id: uuidv5(`${householdId}:${e.monthId}`, CLOSING_ENTRY_NAMESPACE) }));
 };
 
-// --- BACKEND ABSTRACTION LAYER (SUPABASE) ---
-import { supabase } from './supabaseClient';
+/**
+ * Part of a closed month's positive balance not yet allocated to any goal.
+ */
+export const getUnallocatedBalance = (month: MonthData, goals: SavingsGoal[]): number => {
+  if (!month.closed) return 0;
+  const { balance } = calculateTotals(month);
+  const allocated = goals.reduce(
+    (sum, g) => sum + g.allocations.filter(a => a.monthId === month.id).reduce((s, a) => s + a.amount, 0),
+    0
+  );
+  return roundCents(Math.max(balance, 0) - allocated);
+};
+
+/**
+ * Progress of a goal and the monthly contribution still needed to reach it by the deadline,
+ * counting the current month as the first contribution.
+ */
+export const calculateGoalProgress = (goal: SavingsGoal, currentMonthId: string): GoalProgress => {
+  const saved = roundCents(goal.allocations.reduce((sum, a) => sum + a.amount, 0));
+  const remaining = roundCents(Math.max(goal.targetAmount - saved, 0));
+  const monthsLeft = Math.max(monthIndex(goal.deadline) - monthIndex(currentMonthId) + 1, 0);
+  const monthlyContribution = remaining === 0 ? 0 : roundCents(remaining / Math.max(monthsLeft, 1));
+
+  return {
+    saved,
+    remaining,
+    percentage: goal.targetAmount > 0 ? Math.min((saved / goal.targetAmount) * 100, 100) : 0,
+    monthsLeft,
+    monthlyContribution
+  };
+};
+
+/**
+ * Merges months fetched from the server (e.g. after a Realtime notification) into local state.
+ * Months in `keepLocal` have edits that were not saved yet, so the local copy wins.
+ * Unchanged months keep their object identity to avoid needless re-renders and re-saves.
+ */
+export const mergeRemoteMonths = (local: MonthData[], remote: MonthData[], keepLocal: Set<string>): MonthData[] => {
+  const remoteIds = new Set(remote.map(m => m.id));
+
+  const merged = remote.map(r => {
+    const l = local.find(m => m.id === r.id);
+    if (!l) return r;
+    if (keepLocal.has(r.id)) return l;
+    return JSON.stringify(l) === JSON.stringify(r) ? l : r;
+  });
+
+  // Months that only exist locally survive only while they still have unsaved edits
+  const localOnly = local.filter(m => !remoteIds.has(m.id) && keepLocal.has(m.id));
+
+  return [...merged, ...localOnly];
+};
+
+// --- BACKEND ABSTRACTION LAYER ---
+import { FinanceRepository } from './financeRepository';
+import { supabaseFinanceRepository } from './supabaseFinanceRepository';
+import { localFinanceRepository } from './localFinanceRepository';
+import { STORAGE_BACKEND } from './supabaseClient';
+
+const repository: FinanceRepository = STORAGE_BACKEND === 'local'
+  ? localFinanceRepository
+  : supabaseFinanceRepository;
 
 export const FinanceAPI = {
   /**
-   * Fetches full month data from Supabase including salaries and expenses.
+   * Fetches full month data (incomes and expenses) from the configured backend.
    */
-  getMonths: async (userId: string): Promise<MonthData[]> => {
-    // 1. Fetch Months
-    const { data: monthsData, error: monthsError } = await supabase
-      .from('months')
-      .select('*')
-      .eq('user_id', userId);
-
-    if (monthsError) {
-      console.error("Error fetching months:", monthsError);
-      throw monthsError;
-    }
-    if (!monthsData || monthsData.length === 0) return [];
-
-    // 2. Fetch Expenses for these months
-    const monthIds = monthsData.map(m => m.id);
-    const { data: expensesData, error: expensesError } = await supabase
-      .from('expenses')
-      .select('*')
-      .in('month_id', monthIds);
-
-    if (expensesError) {
-      console.error("Error fetching expenses:", expensesError);
-      throw expensesError;
-    }
-
-    // 3. Reconstruct MonthData structure
-    const joinedMonths: MonthData[] = monthsData.map(m => {
-      const monthExpenses = expensesData
-        ? expensesData.filter(e => e.month_id === m.id)
-        : [];
+  getMonths: (householdId: string): Promise<MonthData[]> => repository.getMonths(householdId),
 
-      return {
-        id: m.month_code, // Use month_code (YYYY-MM) as ID in app state
-        label: m.label,
-        salary1: Number(m.salary1),
-        salary2: Number(m.salary2),
-        expenses: monthExpenses.map(e => ({
-          id: e.id,
-          name: e.name,
-          value: Number(e.value),
-          category: e.category,
-          date: e.date,
-          type: e.type as "fixed" | "variable"
-        })),
-        closed: m.closed
-      };
-    });
+  /**
+   * Full sync of every given month.
+   */
+  saveMonths: (householdId: string, months: MonthData[]): Promise<void> => repository.saveMonths(householdId, months),
 
-    return joinedMonths;
-  },
+  /**
+   * Saves a single month (optimized for auto-save).
+   * Returns the month as stored after the save, plus any conflicts with changes made elsewhere.
+   */
+  saveMonth: (householdId: string, month: MonthData, base?: MonthData): Promise<SaveMonthResult> =>
+    repository.saveMonth(householdId, month, base),
 
   /**
-   * Upserts month data. 
-   * CAUTION: This implementation does a full sync (upsert month, upsert salaries, upsert expenses).
-   * For the "Save" feature, this is acceptable for now.
+   * Permanently deletes a month and its expenses.
    */
-  saveMonths: async (userId: string, months: MonthData[]): Promise<void> => {
-    // Loop through each month to save (Inefficient for bulk, but safe for app usage)
-    for (const month of months) {
-      // 1. Upsert Month Record
-      const { data: savedMonth, error: monthError } = await supabase
-        .from('months')
-        .upsert({
-          user_id: userId,
-          month_code: month.id,
-          label: month.label,
-          salary1: month.salary1,
-          salary2: month.salary2,
-          closed: month.closed
-        }, { onConflict: 'user_id, month_code' }) // Requires unique constraint or index if not PK
-        .select()
-        .single();
-
-      if (monthError) {
-        console.error("Error saving month:", monthError);
-        continue;
-      }
+  deleteMonth: (householdId: string, monthId: string): Promise<void> => repository.deleteMonth(householdId, monthId),
 
-      if (!savedMonth) continue;
+  getRecurringExpenses: (householdId: string): Promise<RecurringExpense[]> => repository.getRecurringExpenses(householdId),
 
-      const monthUUID = savedMonth.id;
+  saveRecurringExpense: (householdId: string, template: RecurringExpense): Promise<void> =>
+    repository.saveRecurringExpense(householdId, template),
 
-      // 2. Sync Expenses
-      // Strategy: Delete all for this month and re-insert. 
-      // This allows handling deletions without complex tracking.
-      // Might strictly require Row Level Security policies to be safe.
+  deleteRecurringExpense: (householdId: string, templateId: string): Promise<void> =>
+    repository.deleteRecurringExpense(householdId, templateId),
 
-      const { error: deleteError } = await supabase
-        .from('expenses')
-        .delete()
-        .eq('month_id', monthUUID);
+  getPurchases: (householdId: string): Promise<InstallmentPurchase[]> => repository.getPurchases(householdId),
 
-      if (deleteError) {
-        console.error("Error clearing expenses for sync:", deleteError);
-        // Don't stop, try to insert anyway/handle error
-      }
+  savePurchase: (householdId: string, purchase: InstallmentPurchase): Promise<void> =>
+    repository.savePurchase(householdId, purchase),
 
-      if (month.expenses.length > 0) {
-        const expensesToInsert = month.expenses.map(e => ({
-          // id: e.id, // Let Supabase generate new IDs to avoid conflicts or just use the UI-generated ones if valid UUIDs? 
-          // Better: Let's assume UI generates valid UUIDs, but if we delete-reinsert, fresh IDs might be safer unless we strictly need to keep them.
-          // For this MVP refactor, let's let Supabase generate new IDs or use provided ones if we were doing true upsert.
-          // Since we delete all, we can just insert.
-          user_id: userId,
-          month_id: monthUUID,
-          name: e.name,
-          value: e.value,
-          category: e.category,
-          date: e.date,
-          type: e.type
-        }));
-
-        const { error: insertError } = await supabase
-          .from('expenses')
-          .insert(expensesToInsert);
-
-        if (insertError) console.error("Error inserting expenses:", insertError);
-      }
-    }
-  },
+  deletePurchase: (householdId: string, purchaseId: string): Promise<void> =>
+    repository.deletePurchase(householdId, purchaseId),
 
-  /**
-   * Saves a single month efficiently (optimized for auto-save).
-   * Uses upsert for expenses instead of delete+insert to prevent data loss.
-   */
-  saveMonth: async (userId: string, month: MonthData): Promise<void> => {
-    // 1. Upsert Month Record
-    const { data: savedMonth, error: monthError } = await supabase
-      .from('months')
-      .upsert({
-        user_id: userId,
-        month_code: month.id,
-        label: month.label,
-        salary1: month.salary1,
-        salary2: month.salary2,
-        closed: month.closed
-      }, { onConflict: 'user_id, month_code' })
-      .select()
-      .single();
-
-    if (monthError) {
-      console.error("Error saving month:", monthError);
-      throw monthError;
-    }
-
-    if (!savedMonth) return;
-
-    const monthUUID = savedMonth.id;
-
-    // 2. Sync Expenses Intelligently
-    // Fetch existing expenses for this month
-    const { data: existingExpenses, error: fetchError } = await supabase
-      .from('expenses')
-      .select('id')
-      .eq('month_id', monthUUID);
-
-    if (fetchError) {
-      console.error("Error fetching expenses:", fetchError);
-      throw fetchError;
-    }
-
-    const existingIds = new Set((existingExpenses || []).map(e => e.id));
-    const currentIds = new Set(month.expenses.map(e => e.id));
-
-    // Delete expenses that were removed
-    const toDelete = [...existingIds].filter(id => !currentIds.has(id));
-    if (toDelete.length > 0) {
-      const { error: deleteError } = await supabase
-        .from('expenses')
-        .delete()
-        .in('id', toDelete);
-
-      if (deleteError) console.error("Error deleting expenses:", deleteError);
-    }
-
-    // Upsert current expenses (insert new, update existing)
-    if (month.expenses.length > 0) {
-      const expensesToUpsert = month.expenses.map(e => ({
-        id: e.id, // Keep UI-generated UUID
-        user_id: userId,
-        month_id: monthUUID,
-        name: e.name,
-        value: e.value,
-        category: e.category,
-        date: e.date,
-        type: e.type
-      }));
-
-      const { error: upsertError } = await supabase
-        .from('expenses')
-        .upsert(expensesToUpsert, { onConflict: 'id' });
-
-      if (upsertError) {
-        console.error("Error upserting expenses:", upsertError);
-        throw upsertError;
-      }
-    }
-  }
-};
\ No newline at end of file
+  getCards: (householdId: string): Promise<CreditCard[]> => repository.getCards(householdId),
+
+  saveCard: (householdId: string, card: CreditCard): Promise<void> => repository.saveCard(householdId, card),
+
+  deleteCard: (householdId: string, cardId: string): Promise<void> => repository.deleteCard(householdId, cardId),
+
+  getCategories: (householdId: string): Promise<Category[]> => repository.getCategories(householdId),
+
+  saveCategory: (householdId: string, category: Category): Promise<void> => repository.saveCategory(householdId, category),
+
+  deleteCategory: (householdId: string, categoryId: string): Promise<void> =>
+    repository.deleteCategory(householdId, categoryId),
+
+  getGoals: (householdId: string): Promise<SavingsGoal[]> => repository.getGoals(householdId),
+
+  saveGoal: (householdId: string, goal: SavingsGoal): Promise<void> => repository.saveGoal(householdId, goal),
+
+  deleteGoal: (householdId: string, goalId: string): Promise<void> => repository.deleteGoal(householdId, goalId),
+
+  getSavingsEntries: (householdId: string): Promise<SavingsEntry[]> => repository.getSavingsEntries(householdId),
+
+  saveSavingsEntry: (householdId: string, entry: SavingsEntry): Promise<void> =>
+    repository.saveSavingsEntry(householdId, entry),
+
+  deleteSavingsEntry: (householdId: string, entryId: string): Promise<void> =>
+    repository.deleteSavingsEntry(householdId, entryId),
+
+  getRules: (householdId: string): Promise<CategoryRule[]> => repository.getRules(householdId),
+
+  saveRule: (householdId: string, rule: CategoryRule): Promise<void> => repository.saveRule(householdId, rule),
+
+  deleteRule: (householdId: string, ruleId: string): Promise<void> => repository.deleteRule(householdId, ruleId),
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBaseline, projectSavings, ForecastAssumptions } from './forecast';
+import { Expense, InstallmentPurchase, MonthData } from '../types';
+
+const expense = (id: string, value: number, fields: Partial<Expense> = {}): Expense => ({
+    id, name: id, value, category: 'Outros', date: '2025-01-10', type: 'variable', ...fields
+});
+
+const month = (id: string, income: number, expenses: Expense[], closed = true): MonthData => ({
+    id,
+    label: id,
+    incomes: [{ id: `i-${id}`, name: 'Salário', value: income, type: 'salary', memberId: null, receivedDate: `${id}-05` }],
+    expenses,
+    closed
+});
+
+// Phone in 10x of 300, paid from January on
+const phone: InstallmentPurchase = {
+    id: 'p1', name: 'Celular', totalValue: 3000, installments: 10, firstMonth: '2025-01', dueDay: 10,
+    category: 'Outros', paidBy: null, cancelledFrom: null
+};
+
+const assumptions = (horizonMonths: number): ForecastAssumptions => ({
+    horizonMonths, raisePercentage: 0, raiseFrom: '2099-01', extraFixedCost: 0, extraFixedCostFrom: '2099-01'
+});
+
+describe('calculateBaseline', () => {
+    it('leaves installments out of the variable average, since they are projected as scheduled costs', () => {
+        const january = month('2025-01', 5000, [
+            expense('mercado', 800),
+            expense('celular', 300, { installment: { purchaseId: 'p1', number: 1, total: 10 } }),
+            expense('aluguel', 2000, { type: 'fixed', recurringId: 'r1' }),
+        ]);
+
+        const baseline = calculateBaseline([january], '2025-01');
+
+        expect(baseline.variable).toBe(800);
+        expect(baseline.manualFixed).toBe(0);
+    });
+});
+
+describe('projectSavings', () => {
+    it('counts each installment once in a projected month', () => {
+        const january = month('2025-01', 5000, [
+            expense('mercado', 800),
+            expense('celular', 300, { installment: { purchaseId: 'p1', number: 1, total: 10 } }),
+        ]);
+
+        const { points } = projectSavings([january], [], [], [phone], '2025-02', assumptions(1));
+
+        expect(points[points.length - 1].value).toBe(5000 - 800 - 300);
+    });
+
+    it('draws the Caixinha down in a projected deficit month, like closing it would', () => {
+        const january = month('2025-01', 1000, [expense('mercado', 1500)]);
+        const entries = [{ id: 's1', type: 'deposit' as const, amount: 2000, date: '2025-01-02', description: '' }];
+
+        const { points } = projectSavings([january], entries, [], [], '2025-02', assumptions(2));
+
+        expect(points.filter(p => p.type === 'projected').map(p => p.value)).toEqual([1500, 1000]);
+    });
+
+    it('starts at the given month when nothing was closed yet', () => {
+        const march = month('2025-03', 5000, [expense('mercado', 800)], false);
+
+        const { points } = projectSavings([march], [], [], [], '2025-03', assumptions(2));
+
+        expect(points.map(p => p.monthId)).toEqual(['2025-03', '2025-04']);
+    });
+});
@@ -0,0 +1,141 @@
+import { ExpenseType, InstallmentPurchase, MonthData, RecurringExpense, SavingsEntry } from '../types';
+import {
+    calculateSavingsBalance, calculateTotals, getEntryMonthId, getInstallmentNumber, getInstallmentValue, getMonthLabel, getShortMonthLabel,
+    isRecurringDueInMonth, shiftMonthId
+} from './financeService';
+
+// --- SAVINGS FORECAST ---
+// Projects the Caixinha balance into the future. The ledger is the real history; each
+// future month saves the average recent income minus the fixed costs already scheduled for it
+// (recurring templates and installments) and the fixed and variable spending typed by hand.
+
+export interface ForecastAssumptions {
+    horizonMonths: number; // How far to project (6-24)
+    raisePercentage: number; // Income change, e.g. 10 = +10%
+    raiseFrom: string; // YYYY-MM the income change starts
+    extraFixedCost: number; // New monthly fixed cost (rent increase, school...)
+    extraFixedCostFrom: string; // YYYY-MM the new cost starts
+}
+
+export interface ForecastPoint {
+    monthId: string;
+    name: string; // Short label for the chart axis
+    fullLabel: string;
+    value: number; // Caixinha balance at the end of the month
+    type: 'real' | 'projected';
+}
+
+export interface MonthlyBaseline {
+    income: number;
+    manualFixed: number; // Fixed expenses not generated from templates or purchases
+    variable: number; // Variable expenses not generated from purchases (installments are scheduled costs)
+    sampleSize: number; // Months the averages come from
+}
+
+export interface SavingsProjection {
+    points: ForecastPoint[];
+    baseline: MonthlyBaseline; // What the projected months are based on
+}
+
+// Months used for the averages
+const BASELINE_MONTHS = 6;
+
+const labelOf = (monthId: string) => {
+    const [year, month] = monthId.split('-').map(Number);
+    return getMonthLabel(new Date(year, month - 1, 1));
+};
+
+/**
+ * Average income and hand-typed fixed and variable spending of the latest months that have data,
+ * up to `untilMonthId`. Expenses generated from templates and purchases are left out: the
+ * projection adds them from `scheduledFixedCosts`, and installments are stored as variable.
+ */
+export const calculateBaseline = (months: MonthData[], untilMonthId: string): MonthlyBaseline => {
+    const recent = months
+        .filter(m => m.id <= untilMonthId && (m.incomes.length > 0 || m.expenses.length > 0))
+        .sort((a, b) => b.id.localeCompare(a.id))
+        .slice(0, BASELINE_MONTHS);
+
+    const average = (pick: (m: MonthData) => number) =>
+        recent.length > 0 ? recent.reduce((acc, m) => acc + pick(m), 0) / recent.length : 0;
+    const typedByHand = (m: MonthData, type: ExpenseType) => m.expenses
+        .filter(e => e.type === type && !e.recurringId && !e.installment)
+        .reduce((acc, e) => acc + e.value, 0);
+
+    return {
+        income: average(m => calculateTotals(m).income),
+        manualFixed: average(m => typedByHand(m, 'fixed')),
+        variable: average(m => typedByHand(m, 'variable')),
+        sampleSize: recent.length
+    };
+};
+
+/**
+ * Fixed costs already known for a future month: recurring templates due and running installments.
+ */
+export const scheduledFixedCosts = (monthId: string, templates: RecurringExpense[], purchases: InstallmentPurchase[]): number => {
+    const recurring = templates
+        .filter(t => isRecurringDueInMonth(t, monthId))
+        .reduce((acc, t) => acc + t.value, 0);
+    const installments = purchases.reduce((acc, p) => {
+        const number = getInstallmentNumber(p, monthId);
+        return number ? acc + getInstallmentValue(p, number) : acc;
+    }, 0);
+    return recurring + installments;
+};
+
+/**
+ * Caixinha balance month by month: the ledger as it happened, then `horizonMonths`
+ * projected months starting after the last closed one (or at `currentMonthId` when nothing was closed).
+ * The projection starts from the current ledger balance, so withdrawals and deposits already made count.
+ * The averages come from the months up to the last closed one, since an open month is still incomplete.
+ * Like month closing, a surplus is saved and a deficit is drawn from the Caixinha.
+ */
+export const projectSavings = (
+    months: MonthData[],
+    entries: SavingsEntry[],
+    templates: RecurringExpense[],
+    purchases: InstallmentPurchase[],
+    currentMonthId: string,
+    assumptions: ForecastAssumptions
+): SavingsProjection => {
+    const closed = months.filter(m => m.closed).sort((a, b) => a.id.localeCompare(b.id));
+    const lastClosed = closed[closed.length - 1]?.id;
+    const firstProjected = lastClosed ? shiftMonthId(lastClosed, 1) : currentMonthId;
+    const baseline = calculateBaseline(months, lastClosed || currentMonthId);
+
+    // Balance at the end of each month with ledger movements before the projection
+    const realMonths = [...new Set(entries.map(getEntryMonthId))].filter(id => id < firstProjected).sort();
+    const points: ForecastPoint[] = realMonths.map(monthId => ({
+        monthId,
+        name: getShortMonthLabel(monthId),
+        fullLabel: labelOf(monthId),
+        value: Math.round(calculateSavingsBalance(entries.filter(e => getEntryMonthId(e) <= monthId))),
+        type: 'real'
+    }));
+
+    // Movements already made in the projected months (a withdrawal this month...) count from the start
+    let caixinha = calculateSavingsBalance(entries);
+
+    for (let i = 0; i < assumptions.horizonMonths; i++) {
+        const monthId = shiftMonthId(firstProjected, i);
+        const income = baseline.income * (monthId >= assumptions.raiseFrom ? 1 + assumptions.raisePercentage / 100 : 1);
+        const extraCost = monthId >= assumptions.extraFixedCostFrom ? assumptions.extraFixedCost : 0;
+        const balance = income
+            - baseline.manualFixed
+            - scheduledFixedCosts(monthId, templates, purchases)
+            - extraCost
+            - baseline.variable;
+
+        caixinha += balance;
+        points.push({
+            monthId,
+            name: getShortMonthLabel(monthId),
+            fullLabel: `${labelOf(monthId)} (projeção)`,
+            value: Math.round(caixinha),
+            type: 'projected'
+        });
+    }
+
+    return { points, baseline };
+};
@@ -0,0 +1,157 @@
+import { Household, HouseholdMember, User } from '../types';
+import { supabase, STORAGE_BACKEND } from './supabaseClient';
+
+// In local mode the single local profile is its own household.
+// A second, offline-only member stands for the partner so incomes can be split between two people.
+export const LOCAL_PARTNER_ID = 'local-partner';
+
+const localHousehold = (user: User): Household => ({
+    id: user.id,
+    name: 'Nossa casa',
+    inviteCode: '',
+    members: [
+        { userId: user.id, name: user.name, email: user.email, role: 'owner' },
+        { userId: LOCAL_PARTNER_ID, name: 'Parceiro(a)', email: '', role: 'member' },
+    ],
+});
+
+const LOCAL_ONLY_ERROR = 'Convites não estão disponíveis no modo local.';
+
+// --- Row shapes (see 002_households.sql) ---
+interface HouseholdRow {
+    id: string;
+    name: string;
+    invite_code: string;
+    created_by: string | null;
+    created_at: string;
+}
+
+interface HouseholdMemberRow {
+    household_id: string;
+    user_id: string;
+    role: HouseholdMember['role'];
+    name: string | null;
+    email: string | null;
+    joined_at: string;
+}
+
+const fromMemberRow = (m: HouseholdMemberRow): HouseholdMember => ({
+    userId: m.user_id,
+    name: m.name || m.email || 'Parceiro(a)',
+    email: m.email || '',
+    role: m.role,
+});
+
+const fromHouseholdRow = (household: HouseholdRow, members: HouseholdMember[]): Household => ({
+    id: household.id,
+    name: household.name,
+    inviteCode: household.invite_code,
+    members,
+});
+
+export const HouseholdAPI = {
+    /**
+     * Loads a household with its members.
+     */
+    get: async (householdId: string): Promise<Household> => {
+        const { data: household, error: householdError } = await supabase
+            .from('households')
+            .select('*')
+            .eq('id', householdId)
+            .single();
+
+        if (householdError) {
+            console.error("Error fetching household:", householdError);
+            throw householdError;
+        }
+
+        const { data: membersData, error: membersError } = await supabase
+            .from('household_members')
+            .select('*')
+            .eq('household_id', householdId)
+            .order('joined_at');
+
+        if (membersError) {
+            console.error("Error fetching household members:", membersError);
+            throw membersError;
+        }
+
+        const memberRows: HouseholdMemberRow[] = membersData || [];
+        return fromHouseholdRow(household, memberRows.map(fromMemberRow));
+    },
+
+    /**
+     * Returns the user's household. On first login this accepts a pending
+     * e-mail invite or creates a new household with the user as owner.
+     */
+    getCurrent: async (user: User): Promise<Household> => {
+        if (STORAGE_BACKEND === 'local') return localHousehold(user);
+
+        const { data: householdId, error } = await supabase.rpc('ensure_household');
+        if (error) {
+            console.error("Error resolving household:", error);
+            throw error;
+        }
+        return HouseholdAPI.get(householdId as string);
+    },
+
+    /**
+     * Invites a partner by e-mail. The invite is accepted automatically
+     * the first time that e-mail logs in.
+     */
+    inviteByEmail: async (householdId: string, email: string): Promise<void> => {
+        if (STORAGE_BACKEND === 'local') throw new Error(LOCAL_ONLY_ERROR);
+
+        const { error } = await supabase
+            .from('household_invites')
+            .upsert({ household_id: householdId, email: email.trim().toLowerCase() }, { onConflict: 'household_id, email' });
+
+        if (error) {
+            console.error("Error inviting partner:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Joins the household that owns the invite code (leaving the current one).
+     */
+    joinByCode: async (code: string): Promise<Household> => {
+        if (STORAGE_BACKEND === 'local') throw new Error(LOCAL_ONLY_ERROR);
+
+        const { data: householdId, error } = await supabase.rpc('join_household', { code });
+        if (error) {
+            console.error("Error joining household:", error);
+            throw error;
+        }
+        return HouseholdAPI.get(householdId as string);
+    },
+
+    /**
+     * Replaces the invite code, so the old one (shared by mistake, say) stops working.
+     * Returns the new code.
+     */
+    regenerateInviteCode: async (householdId: string): Promise<string> => {
+        if (STORAGE_BACKEND === 'local') throw new Error(LOCAL_ONLY_ERROR);
+
+        const { data: code, error } = await supabase.rpc('regenerate_invite_code', { hid: householdId });
+        if (error) {
+            console.error("Error regenerating invite code:", error);
+            throw error;
+        }
+        return code as string;
+    },
+
+    rename: async (householdId: string, name: string): Promise<void> => {
+        if (STORAGE_BACKEND === 'local') return;
+
+        const { error } = await supabase
+            .from('households')
+            .update({ name })
+            .eq('id', householdId);
+
+        if (error) {
+            console.error("Error renaming household:", error);
+            throw error;
+        }
+    },
+};
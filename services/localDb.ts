@@ -0,0 +1,149 @@
+import { Income, MonthData } from '../types';
+
+// --- LOCAL PERSISTENCE (IndexedDB) ---
+// Shared connection for every browser-side store the app keeps.
+// Bump DB_VERSION and add a step to `upgrade` whenever a store is added or its records change shape.
+
+const DB_NAME = 'casal-em-dias';
+const DB_VERSION = 11;
+
+export const STORES = {
+    months: 'months',
+    outbox: 'outbox',
+    recurringExpenses: 'recurringExpenses',
+    purchases: 'purchases',
+    creditCards: 'creditCards',
+    categories: 'categories',
+    goals: 'goals',
+    savingsEntries: 'savingsEntries',
+    rules: 'rules',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Month as stored before version 4, when each partner had a single salary field
+type LegacyMonthRecord = Omit<MonthData, 'incomes'> & { incomes?: Income[]; salary1?: number; salary2?: number };
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const store = db.createObjectStore(STORES.months, { keyPath: 'key' });
+        store.createIndex('userId', 'userId', { unique: false });
+    }
+    if (oldVersion < 2) {
+        const store = db.createObjectStore(STORES.outbox, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('userId', 'userId', { unique: false });
+    }
+    if (oldVersion < 3) {
+        // Data became household-scoped: rename the owner field of existing records
+        [STORES.months, STORES.outbox].forEach(name => {
+            const store = tx.objectStore(name);
+            store.deleteIndex('userId');
+            store.createIndex('householdId', 'householdId', { unique: false });
+            store.openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const { userId, ...rest } = cursor.value;
+                cursor.update({ ...rest, householdId: userId });
+                cursor.continue();
+            };
+        });
+    }
+    if (oldVersion < 4) {
+        // salary1/salary2 became a list of incomes (salary1 belongs to the local profile)
+        const toIncomes = (month: LegacyMonthRecord | undefined, householdId: string): MonthData | undefined => {
+            if (!month || month.incomes) return month as MonthData | undefined;
+            const { salary1, salary2, ...rest } = month;
+            const receivedDate = `${month.id}-05`;
+            const incomes = [
+                { value: Number(salary1) || 0, memberId: householdId },
+                { value: Number(salary2) || 0, memberId: null },
+            ]
+                .filter(i => i.value > 0)
+                .map((i, index): Income => ({
+                    id: `${month.id}-salary${index + 1}-${householdId}`,
+                    name: 'Salário',
+                    value: i.value,
+                    type: 'salary',
+                    memberId: i.memberId,
+                    receivedDate,
+                }));
+            return { ...rest, incomes };
+        };
+
+        tx.objectStore(STORES.months).openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            cursor.update({ ...cursor.value, month: toIncomes(cursor.value.month, cursor.value.householdId) });
+            cursor.continue();
+        };
+        tx.objectStore(STORES.outbox).openCursor().onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const { month, base, householdId } = cursor.value;
+            cursor.update({ ...cursor.value, month: toIncomes(month, householdId), base: toIncomes(base, householdId) });
+            cursor.continue();
+        };
+    }
+    if (oldVersion < 5) {
+        const store = db.createObjectStore(STORES.recurringExpenses, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+    if (oldVersion < 6) {
+        const store = db.createObjectStore(STORES.purchases, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+    if (oldVersion < 7) {
+        const store = db.createObjectStore(STORES.creditCards, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+    if (oldVersion < 8) {
+        const store = db.createObjectStore(STORES.categories, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+    if (oldVersion < 9) {
+        const store = db.createObjectStore(STORES.goals, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+    if (oldVersion < 10) {
+        const store = db.createObjectStore(STORES.savingsEntries, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+    if (oldVersion < 11) {
+        const store = db.createObjectStore(STORES.rules, { keyPath: 'key' });
+        store.createIndex('householdId', 'householdId', { unique: false });
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openLocalDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB não está disponível neste navegador.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
@@ -0,0 +1,148 @@
+import { Category, CategoryRule, CreditCard, InstallmentPurchase, MonthData, RecurringExpense, SaveMonthResult, SavingsEntry, SavingsGoal } from '../types';
+import { FinanceRepository } from './financeRepository';
+import { openLocalDb, requestToPromise, transactionDone, STORES, StoreName } from './localDb';
+
+// Records are stored per household so several local profiles can share a browser.
+interface StoredMonth {
+    key: string; // `${householdId}:${month.id}`
+    householdId: string;
+    month: MonthData;
+}
+
+const toRecord = (householdId: string, month: MonthData): StoredMonth => ({
+    key: `${householdId}:${month.id}`,
+    householdId,
+    month,
+});
+
+// Household-level entities (templates...) are stored the same way, keyed by their id
+interface StoredItem<T> {
+    key: string; // `${householdId}:${item.id}`
+    householdId: string;
+    item: T;
+}
+
+const getItems = async <T,>(store: StoreName, householdId: string): Promise<T[]> => {
+    const db = await openLocalDb();
+    const tx = db.transaction(store, 'readonly');
+    const records = await requestToPromise<StoredItem<T>[]>(tx.objectStore(store).index('householdId').getAll(householdId));
+    return records.map(r => r.item);
+};
+
+const putItem = async <T extends { id: string },>(store: StoreName, householdId: string, item: T): Promise<void> => {
+    const db = await openLocalDb();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put({ key: `${householdId}:${item.id}`, householdId, item });
+    await transactionDone(tx);
+};
+
+const deleteItem = async (store: StoreName, householdId: string, id: string): Promise<void> => {
+    const db = await openLocalDb();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(`${householdId}:${id}`);
+    await transactionDone(tx);
+};
+
+/**
+ * Local-only adapter backed by IndexedDB.
+ * Lets the whole app run offline, in demos and in automated tests without a Supabase project.
+ */
+export const localFinanceRepository: FinanceRepository = {
+    getMonths: async (householdId: string): Promise<MonthData[]> => {
+        const db = await openLocalDb();
+        const tx = db.transaction(STORES.months, 'readonly');
+        const records = await requestToPromise<StoredMonth[]>(
+            tx.objectStore(STORES.months).index('householdId').getAll(householdId)
+        );
+        return records.map(r => r.month);
+    },
+
+    saveMonths: async (householdId: string, months: MonthData[]): Promise<void> => {
+        const db = await openLocalDb();
+        const tx = db.transaction(STORES.months, 'readwrite');
+        const store = tx.objectStore(STORES.months);
+        months.forEach(m => store.put(toRecord(householdId, m)));
+        await transactionDone(tx);
+    },
+
+    // A browser profile has a single writer, so local saves never conflict
+    saveMonth: async (householdId: string, month: MonthData): Promise<SaveMonthResult> => {
+        const db = await openLocalDb();
+        const tx = db.transaction(STORES.months, 'readwrite');
+        tx.objectStore(STORES.months).put(toRecord(householdId, month));
+        await transactionDone(tx);
+        return { status: 'saved', month };
+    },
+
+    deleteMonth: async (householdId: string, monthId: string): Promise<void> => {
+        const db = await openLocalDb();
+        const tx = db.transaction(STORES.months, 'readwrite');
+        tx.objectStore(STORES.months).delete(`${householdId}:${monthId}`);
+        await transactionDone(tx);
+    },
+
+    getRecurringExpenses: (householdId: string): Promise<RecurringExpense[]> =>
+        getItems<RecurringExpense>(STORES.recurringExpenses, householdId),
+
+    saveRecurringExpense: (householdId: string, template: RecurringExpense): Promise<void> =>
+        putItem(STORES.recurringExpenses, householdId, template),
+
+    deleteRecurringExpense: (householdId: string, templateId: string): Promise<void> =>
+        deleteItem(STORES.recurringExpenses, householdId, templateId),
+
+    getPurchases: (householdId: string): Promise<InstallmentPurchase[]> =>
+        getItems<InstallmentPurchase>(STORES.purchases, householdId),
+
+    savePurchase: (householdId: string, purchase: InstallmentPurchase): Promise<void> =>
+        putItem(STORES.purchases, householdId, purchase),
+
+    deletePurchase: (householdId: string, purchaseId: string): Promise<void> =>
+        deleteItem(STORES.purchases, householdId, purchaseId),
+
+    getCards: (householdId: string): Promise<CreditCard[]> =>
+        getItems<CreditCard>(STORES.creditCards, householdId),
+
+    saveCard: (householdId: string, card: CreditCard): Promise<void> =>
+        putItem(STORES.creditCards, householdId, card),
+
+    // Unlike the backend there is no FK to clear, so the card's expenses keep a dangling cardId
+    // that simply no longer matches any card
+    deleteCard: (householdId: string, cardId: string): Promise<void> =>
+        deleteItem(STORES.creditCards, householdId, cardId),
+
+    getCategories: (householdId: string): Promise<Category[]> =>
+        getItems<Category>(STORES.categories, householdId),
+
+    saveCategory: (householdId: string, category: Category): Promise<void> =>
+        putItem(STORES.categories, householdId, category),
+
+    deleteCategory: (householdId: string, categoryId: string): Promise<void> =>
+        deleteItem(STORES.categories, householdId, categoryId),
+
+    getGoals: (householdId: string): Promise<SavingsGoal[]> =>
+        getItems<SavingsGoal>(STORES.goals, householdId),
+
+    saveGoal: (householdId: string, goal: SavingsGoal): Promise<void> =>
+        putItem(STORES.goals, householdId, goal),
+
+    deleteGoal: (householdId: string, goalId: string): Promise<void> =>
+        deleteItem(STORES.goals, householdId, goalId),
+
+    getSavingsEntries: (householdId: string): Promise<SavingsEntry[]> =>
+        getItems<SavingsEntry>(STORES.savingsEntries, householdId),
+
+    saveSavingsEntry: (householdId: string, entry: SavingsEntry): Promise<void> =>
+        putItem(STORES.savingsEntries, householdId, entry),
+
+    deleteSavingsEntry: (householdId: string, entryId: string): Promise<void> =>
+        deleteItem(STORES.savingsEntries, householdId, entryId),
+
+    getRules: (householdId: string): Promise<CategoryRule[]> =>
+        getItems<CategoryRule>(STORES.rules, householdId),
+
+    saveRule: (householdId: string, rule: CategoryRule): Promise<void> =>
+        putItem(STORES.rules, householdId, rule),
+
+    deleteRule: (householdId: string, ruleId: string): Promise<void> =>
+        deleteItem(STORES.rules, householdId, ruleId),
+};
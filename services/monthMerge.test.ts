@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applySavedMonth, hasConflicts, planMonthSave } from './monthMerge';
+import { Expense, MonthData } from '../types';
+
+const expense = (id: string, name: string, value: number, version?: number): Expense => ({
+    id, name, value, category: 'Outros', date: '2025-03-10', type: 'variable', version
+});
+
+const month = (expenses: Expense[], version?: number): MonthData => ({
+    id: '2025-03', label: 'Março 2025', incomes: [], expenses, closed: false, version
+});
+
+// What IndexedDB hands back: same content, never the same object
+const fromOutbox = <T>(value: T): T => structuredClone(value);
+
+describe('replaying a queued save', () => {
+    const serverBefore = month([], 1);
+    const editedOffline = month([expense('a', 'Mercado', 120)], 1);
+    // Backend answer for the replayed write: the row now exists with its version
+    const saved = month([expense('a', 'Mercado', 120, 1)], 2);
+
+    it('takes the saved month as the new base even though the replayed snapshot is a copy', () => {
+        const write = { month: fromOutbox(editedOffline), base: fromOutbox(serverBefore) };
+        const inState = fromOutbox(editedOffline); // loadData also fills state from the outbox
+
+        expect(applySavedMonth(inState, write.month, saved)).toBe(saved);
+    });
+
+    it('lets the next edit of the same month save without conflicts', () => {
+        const write = { month: fromOutbox(editedOffline), base: fromOutbox(serverBefore) };
+        const base = applySavedMonth(fromOutbox(editedOffline), write.month, saved);
+
+        const editedAgain = { ...base, expenses: [...base.expenses, expense('b', 'Farmácia', 35)] };
+        const plan = planMonthSave(editedAgain, base, saved);
+
+        expect(hasConflicts(plan)).toBe(false);
+        expect(plan.expenses.upserts.map(u => u.item.id)).toEqual(['b']);
+        expect(plan.expenses.deletes).toEqual([]);
+        expect(plan.monthFields).toBeNull();
+    });
+
+    it('keeps edits made while the write was being replayed', () => {
+        const write = { month: fromOutbox(editedOffline), base: fromOutbox(serverBefore) };
+        const editedMeanwhile = month([expense('a', 'Mercado', 150)], 1);
+
+        expect(applySavedMonth(editedMeanwhile, write.month, saved)).toBe(editedMeanwhile);
+    });
+
+    it('leaves other months alone', () => {
+        const other = { ...fromOutbox(editedOffline), id: '2025-04', label: 'Abril 2025' };
+
+        expect(applySavedMonth(other, editedOffline, saved)).toBe(other);
+    });
+});
+
+describe('saving a month deleted on the server', () => {
+    it('recreates every item of the local month, not only the edited ones', () => {
+        const base = month([expense('a', 'Mercado', 120, 1), expense('b', 'Farmácia', 35, 1)], 3);
+        const edited = { ...base, expenses: [...base.expenses, expense('c', 'Padaria', 12)] };
+
+        const plan = planMonthSave(edited, base, undefined);
+
+        expect(hasConflicts(plan)).toBe(false);
+        expect(plan.expenses.upserts.map(u => [u.item.id, u.expectedVersion])).toEqual([['a', undefined], ['b', undefined], ['c', undefined]]);
+    });
+});
@@ -0,0 +1,166 @@
+import { Expense, ExpenseSplit, Income, MonthData, MonthFields, ItemConflict, MonthFieldsConflict } from '../types';
+
+// --- THREE-WAY MERGE FOR saveMonth ---
+// local  = what this tab wants to save
+// base   = what this tab last loaded/saved from the backend (undefined for a month never synced)
+// remote = what the backend has right now (undefined if the month does not exist there)
+// Only changes made locally since `base` are written; changes made by someone else since `base`
+// are kept. When both sides changed the same thing differently, it becomes a conflict.
+
+interface VersionedItem {
+    id: string;
+    version?: number;
+}
+
+export interface ItemWrite<T> {
+    item: T;
+    expectedVersion?: number; // Remote version the write is based on (undefined = insert)
+}
+
+export interface ItemDelete {
+    id: string;
+    expectedVersion: number;
+}
+
+export interface ItemSavePlan<T> {
+    upserts: ItemWrite<T>[];
+    deletes: ItemDelete[];
+    conflicts: ItemConflict<T>[];
+}
+
+export interface MonthSavePlan {
+    monthFields: MonthFields | null; // Fields to write, null when nothing changed locally
+    monthFieldsConflict?: MonthFieldsConflict;
+    expenses: ItemSavePlan<Expense>;
+    incomes: ItemSavePlan<Income>;
+}
+
+const EMPTY_FIELDS: MonthFields = { closed: false, budgets: [], history: [] };
+
+export const getMonthFields = (m: MonthData | undefined): MonthFields =>
+    m ? { closed: m.closed, budgets: m.budgets || [], history: m.history || [] } : EMPTY_FIELDS;
+
+export const sameMonthFields = (a: MonthFields, b: MonthFields): boolean =>
+    a.closed === b.closed
+    && JSON.stringify(a.budgets || []) === JSON.stringify(b.budgets || [])
+    && JSON.stringify(a.history || []) === JSON.stringify(b.history || []);
+
+const sameSplit = (a: ExpenseSplit | undefined, b: ExpenseSplit | undefined): boolean => {
+    const x = a || { rule: 'equal' };
+    const y = b || { rule: 'equal' };
+    return x.rule === y.rule
+        && (x.rule !== 'custom' || x.percentage === y.percentage)
+        && (x.rule !== 'single' || x.memberId === y.memberId);
+};
+
+// Comparisons look at user-visible content only (versions are bookkeeping)
+export const sameExpense = (a: Expense | undefined | null, b: Expense | undefined | null): boolean => {
+    if (!a || !b) return !a && !b;
+    return a.name === b.name
+        && a.value === b.value
+        && a.category === b.category
+        && a.date === b.date
+        && a.type === b.type
+        && (a.paidBy || null) === (b.paidBy || null)
+        && sameSplit(a.split, b.split)
+        && (a.recurringId || null) === (b.recurringId || null)
+        && JSON.stringify(a.installment || null) === JSON.stringify(b.installment || null)
+        && (a.cardId || null) === (b.cardId || null)
+        && (a.importId || null) === (b.importId || null);
+};
+
+export const sameIncome = (a: Income | undefined | null, b: Income | undefined | null): boolean => {
+    if (!a || !b) return !a && !b;
+    return a.name === b.name
+        && a.value === b.value
+        && a.type === b.type
+        && a.memberId === b.memberId
+        && a.receivedDate === b.receivedDate;
+};
+
+const sameList = <T extends VersionedItem>(a: T[], b: T[], same: (x: T, y: T) => boolean): boolean =>
+    a.length === b.length && a.every(x => {
+        const y = b.find(i => i.id === x.id);
+        return !!y && same(x, y);
+    });
+
+export const sameMonthContent = (a: MonthData, b: MonthData): boolean =>
+    sameMonthFields(getMonthFields(a), getMonthFields(b))
+    && sameList(a.incomes, b.incomes, sameIncome)
+    && sameList(a.expenses, b.expenses, sameExpense);
+
+/**
+ * The month to keep in memory once the backend returned `saved` for a save of `sent`:
+ * the saved version (the new base) when the month still holds what was sent, otherwise the
+ * edits made while the save was in flight. Compared by content, because a write replayed
+ * from the outbox is a copy read back from IndexedDB, never the object held in state.
+ */
+export const applySavedMonth = (current: MonthData, sent: MonthData, saved: MonthData): MonthData =>
+    current.id === saved.id && (current === sent || sameMonthContent(current, sent)) ? saved : current;
+
+const planItems = <T extends VersionedItem>(
+    local: T[],
+    base: T[] | undefined,
+    remote: T[] | undefined,
+    same: (a: T | undefined, b: T | undefined) => boolean
+): ItemSavePlan<T> => {
+    const plan: ItemSavePlan<T> = { upserts: [], deletes: [], conflicts: [] };
+
+    const byId = (list: T[] | undefined) => new Map((list || []).map(i => [i.id, i]));
+    const localById = byId(local);
+    const baseById = byId(base);
+    const remoteById = byId(remote);
+    const ids = new Set([...localById.keys(), ...baseById.keys(), ...remoteById.keys()]);
+
+    ids.forEach(id => {
+        const l = localById.get(id);
+        const b = baseById.get(id);
+        const r = remoteById.get(id);
+
+        const localChanged = !same(l, b);
+        const remoteChanged = !same(r, b);
+
+        if (!localChanged || same(l, r)) return; // Nothing to write
+
+        if (remoteChanged) {
+            plan.conflicts.push({ id, local: l || null, remote: r || null });
+            return;
+        }
+
+        if (!l) {
+            if (r) plan.deletes.push({ id, expectedVersion: r.version ?? 1 });
+        } else {
+            plan.upserts.push({ item: l, expectedVersion: r?.version });
+        }
+    });
+
+    return plan;
+};
+
+export const planMonthSave = (local: MonthData, base: MonthData | undefined, remote: MonthData | undefined): MonthSavePlan => {
+    // A month deleted on the server is recreated whole: none of the base is stored anymore,
+    // so planning against it would only write what changed and drop the rest
+    const from = remote ? base : undefined;
+    const plan: MonthSavePlan = {
+        monthFields: null,
+        expenses: planItems(local.expenses, from?.expenses, remote?.expenses, sameExpense),
+        incomes: planItems(local.incomes, from?.incomes, remote?.incomes, sameIncome),
+    };
+
+    const localFields = getMonthFields(local);
+    const baseFields = getMonthFields(from);
+    const remoteFields = getMonthFields(remote);
+    const localFieldsChanged = !remote || !sameMonthFields(localFields, baseFields);
+    const remoteFieldsChanged = !!remote && !sameMonthFields(remoteFields, baseFields);
+
+    if (localFieldsChanged && remoteFieldsChanged && !sameMonthFields(localFields, remoteFields)) {
+        plan.monthFieldsConflict = { local: localFields, remote: remoteFields };
+    } else if (localFieldsChanged && !sameMonthFields(localFields, remoteFields)) {
+        plan.monthFields = localFields;
+    }
+
+    return plan;
+};
+
+export const hasConflicts = (plan: MonthSavePlan): boolean =>
+    plan.expenses.conflicts.length > 0 || plan.incomes.conflicts.length > 0 || !!plan.monthFieldsConflict;
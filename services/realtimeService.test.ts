@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Stand-in for the Supabase channel: keeps the postgres_changes listeners by table
+const channel = vi.hoisted(() => {
+    const listeners = new Map<string, (payload: unknown) => void>();
+    const fake = {
+        on: (type: string, filter: { table?: string }, listener: (payload: unknown) => void) => {
+            if (type === 'postgres_changes') listeners.set(filter.table!, listener);
+            return fake;
+        },
+        subscribe: () => fake,
+        track: () => undefined,
+        presenceState: () => ({}),
+    };
+    return { listeners, fake };
+});
+
+vi.mock('./supabaseClient', () => ({
+    STORAGE_BACKEND: 'supabase',
+    supabase: { channel: () => channel.fake, removeChannel: () => undefined },
+}));
+
+const { RealtimeEchoes, RealtimeSync } = await import('./realtimeService');
+
+const me = { userId: 'u1', name: 'Ana', monthId: '', editing: false };
+
+const emit = (table: string, eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: Record<string, unknown>) =>
+    channel.listeners.get(table)!(eventType === 'DELETE' ? { eventType, old: row, new: {} } : { eventType, old: {}, new: row });
+
+describe('RealtimeSync', () => {
+    const onRemoteChange = vi.fn();
+
+    beforeEach(() => {
+        onRemoteChange.mockClear();
+        channel.listeners.clear();
+        RealtimeSync.subscribe('h1', me, { onRemoteChange, onPresenceChange: () => undefined });
+    });
+
+    it('reports the collection a table feeds', () => {
+        emit('incomes', 'UPDATE', { id: 'i1', version: 2 });
+        emit('credit_cards', 'INSERT', { id: 'c1', name: 'Nubank' });
+
+        expect(onRemoteChange.mock.calls).toEqual([['months'], ['cards']]);
+    });
+
+    it('skips versions this session wrote and reports newer ones', () => {
+        RealtimeEchoes.rememberVersion('expenses', 'e1', 3);
+
+        emit('expenses', 'UPDATE', { id: 'e1', version: 3 });
+        expect(onRemoteChange).not.toHaveBeenCalled();
+
+        emit('expenses', 'UPDATE', { id: 'e1', version: 4 });
+        expect(onRemoteChange).toHaveBeenCalledWith('months');
+    });
+
+    it('skips rows that hold what this session wrote, whatever the key order or numeric type', () => {
+        RealtimeEchoes.rememberWrite('savings_goals', {
+            id: 'g1', name: 'Viagem', target_amount: 6000, allocations: [{ monthId: '2025-02', amount: 500 }]
+        });
+
+        emit('savings_goals', 'UPDATE', {
+            id: 'g1', name: 'Viagem', target_amount: '6000', allocations: [{ amount: 500, monthId: '2025-02' }], created_at: '2025-01-01'
+        });
+        expect(onRemoteChange).not.toHaveBeenCalled();
+
+        emit('savings_goals', 'UPDATE', { id: 'g1', name: 'Viagem à praia', target_amount: 6000, allocations: [] });
+        expect(onRemoteChange).toHaveBeenCalledWith('goals');
+    });
+
+    it('skips deletes of this session, including the items of a deleted month', () => {
+        RealtimeEchoes.rememberDelete('months', 'm1');
+        RealtimeEchoes.rememberDelete('category_rules', 'r1');
+
+        emit('months', 'DELETE', { id: 'm1' });
+        emit('expenses', 'DELETE', { id: 'e9', month_id: 'm1' });
+        emit('category_rules', 'DELETE', { id: 'r1' });
+        expect(onRemoteChange).not.toHaveBeenCalled();
+
+        emit('expenses', 'DELETE', { id: 'e10', month_id: 'm2' });
+        expect(onRemoteChange).toHaveBeenCalledWith('months');
+    });
+});
@@ -0,0 +1,139 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, STORAGE_BACKEND } from './supabaseClient';
+
+// --- REALTIME SYNC (Supabase Realtime) ---
+// One channel per household carries both database changes (every table of the household)
+// and presence, i.e. which month each partner is looking at right now.
+
+// Tables published to Realtime and the part of the app's data each one feeds
+const SYNCED_TABLES = {
+    months: 'months',
+    expenses: 'months',
+    incomes: 'months',
+    recurring_expenses: 'recurringExpenses',
+    installment_purchases: 'purchases',
+    credit_cards: 'cards',
+    categories: 'categories',
+    savings_goals: 'goals',
+    savings_entries: 'savingsEntries',
+    category_rules: 'rules',
+} as const;
+
+export type SyncedTable = keyof typeof SYNCED_TABLES;
+export type SyncedCollection = typeof SYNCED_TABLES[SyncedTable];
+
+type Row = Record<string, unknown>;
+
+// --- Echoes of this session's own writes ---
+// Realtime also delivers the changes this session made. The repository tells what it wrote:
+// the version a versioned row (months, expenses, incomes) got, the columns of any other row,
+// or null once deleted. A change that matches is an echo and is not refetched.
+const ownWrites = new Map<string, number | Row | null>();
+
+const rowKey = (table: SyncedTable, id: unknown) => `${table}:${id}`;
+
+const isRow = (value: unknown): value is Row => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Column values as written and as read back: key order of jsonb and numeric types may differ
+const sameValue = (a: unknown, b: unknown): boolean => {
+    if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((x, i) => sameValue(x, b[i]));
+    if (isRow(a) && isRow(b)) {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+        return [...keys].every(key => sameValue(a[key], b[key]));
+    }
+    return (a ?? null) === (b ?? null) || (typeof a === 'number' && Number(b) === a) || (typeof b === 'number' && Number(a) === b);
+};
+
+const isEcho = (table: SyncedTable, payload: RealtimePostgresChangesPayload<Row>): boolean => {
+    if (payload.eventType === 'DELETE') {
+        const old = payload.old;
+        // Incomes and expenses go with their month (on delete cascade)
+        return ownWrites.get(rowKey(table, old.id)) === null
+            || (table !== 'months' && SYNCED_TABLES[table] === 'months' && ownWrites.get(rowKey('months', old.month_id)) === null);
+    }
+    const row = payload.new;
+    const written = ownWrites.get(rowKey(table, row.id));
+    if (typeof written === 'number') return typeof row.version === 'number' && row.version <= written;
+    return isRow(written) && Object.keys(written).every(key => sameValue(written[key], row[key]));
+};
+
+export const RealtimeEchoes = {
+    /** A versioned row now has `version` because of this session's write. */
+    rememberVersion: (table: SyncedTable, id: string, version: number) => {
+        ownWrites.set(rowKey(table, id), version);
+    },
+    /** This session wrote these columns to a row without versions. */
+    rememberWrite: (table: SyncedTable, row: Row & { id: string }) => {
+        ownWrites.set(rowKey(table, row.id), row);
+    },
+    rememberDelete: (table: SyncedTable, id: string) => {
+        ownWrites.set(rowKey(table, id), null);
+    },
+};
+
+export interface PresenceInfo {
+    userId: string;
+    name: string;
+    monthId: string; // '' when no month is open
+    editing: boolean; // true on screens that change the month (salaries, expenses...)
+}
+
+interface RealtimeHandlers {
+    /** Called with the part of the household's data another session changed. */
+    onRemoteChange: (collection: SyncedCollection) => void;
+    /** Called with the presence of every other session of the household. */
+    onPresenceChange: (others: PresenceInfo[]) => void;
+}
+
+export interface RealtimeSubscription {
+    updatePresence: (presence: PresenceInfo) => void;
+    unsubscribe: () => void;
+}
+
+const NOOP_SUBSCRIPTION: RealtimeSubscription = {
+    updatePresence: () => { },
+    unsubscribe: () => { },
+};
+
+export const RealtimeSync = {
+    subscribe: (householdId: string, me: PresenceInfo, handlers: RealtimeHandlers): RealtimeSubscription => {
+        // Local mode has a single session per browser, nothing to sync
+        if (STORAGE_BACKEND === 'local') return NOOP_SUBSCRIPTION;
+
+        const channel: RealtimeChannel = supabase.channel(`household:${householdId}`, {
+            config: { presence: { key: me.userId } },
+        });
+
+        const filter = `household_id=eq.${householdId}`;
+        (Object.keys(SYNCED_TABLES) as SyncedTable[]).forEach(table => {
+            channel.on<Row>('postgres_changes', { event: '*', schema: 'public', table, filter }, payload => {
+                if (!isEcho(table, payload)) handlers.onRemoteChange(SYNCED_TABLES[table]);
+            });
+        });
+        channel
+            .on('presence', { event: 'sync' }, () => {
+                const state = channel.presenceState<PresenceInfo>();
+                const others = Object.entries(state)
+                    .filter(([key]) => key !== me.userId)
+                    .map(([, metas]) => metas[metas.length - 1])
+                    .filter(Boolean);
+                handlers.onPresenceChange(others);
+            });
+
+        let current = me;
+        channel.subscribe(status => {
+            if (status === 'SUBSCRIBED') channel.track({ ...current });
+            if (status === 'CHANNEL_ERROR') console.error('Realtime channel error for household', householdId);
+        });
+
+        return {
+            updatePresence: (presence: PresenceInfo) => {
+                current = presence;
+                channel.track({ ...presence });
+            },
+            unsubscribe: () => {
+                supabase.removeChannel(channel);
+            },
+        };
+    },
+};
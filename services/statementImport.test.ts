@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getStatementMonthId, getStatementRowCard, getStatementRowStatus, parseStatement, StatementRow } from './statementImport';
+import { CreditCard, MonthData } from '../types';
+
+// Closes on the 5th, due on the 12th: purchases after the 5th of March are paid in April
+const card: CreditCard = { id: 'c1', name: 'Nubank', closingDay: 5, dueDay: 12 };
+
+const row: StatementRow = { importId: 'ofx:1', date: '2025-03-20', description: 'Aluguel', value: 2000 };
+
+const month = (id: string, closed: boolean): MonthData => ({ id, label: id, incomes: [], expenses: [], closed });
+
+describe('rows of a card statement', () => {
+    it('charge variable rows to the card invoice month', () => {
+        expect(getStatementMonthId(row.date, getStatementRowCard('variable', card))).toBe('2025-04');
+    });
+
+    it('put fixed rows in the month of their date, as the import does', () => {
+        expect(getStatementMonthId(row.date, getStatementRowCard('fixed', card))).toBe('2025-03');
+    });
+
+    it('show the status of the month the row will actually land in', () => {
+        const months = [month('2025-03', true), month('2025-04', false)];
+
+        expect(getStatementRowStatus(row, months, getStatementRowCard('fixed', card))).toBe('closed');
+        expect(getStatementRowStatus(row, months, getStatementRowCard('variable', card))).toBe('new');
+    });
+});
+
+describe('statement amounts', () => {
+    // Nubank card CSV: purchases positive
+    const valueOf = (amount: string) =>
+        parseStatement('fatura.csv', `date,title,amount\n2025-03-10,Mercado,"${amount}"`).rows[0].value;
+
+    it.each([
+        ['1.234,56', 1234.56],
+        ['1,234.56', 1234.56],
+        ['R$ 10,00', 10],
+        ['12.30', 12.3],
+        ['1.234.567,89', 1234567.89],
+        ['1,234,567.89', 1234567.89],
+        ['42', 42],
+    ])('reads %s as %d', (amount, value) => {
+        expect(valueOf(amount)).toBe(value);
+    });
+});
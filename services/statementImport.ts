@@ -0,0 +1,219 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CreditCard, Expense, ExpenseType, MonthData } from '../types';
+import { getInvoiceMonth } from './financeService';
+
+// --- BANK STATEMENT IMPORT ---
+// Turns an OFX or CSV statement into rows the user reviews before they become expenses.
+// Only money going out is imported. Each row carries an id that stays the same when the
+// same statement is imported again, so nothing is added twice.
+
+export type StatementFormat = 'ofx' | 'nubank-card' | 'nubank-account' | 'itau' | 'inter';
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+    'ofx': 'OFX',
+    'nubank-card': 'Nubank (fatura do cartão)',
+    'nubank-account': 'Nubank (conta)',
+    'itau': 'Itaú',
+    'inter': 'Inter',
+};
+
+export interface StatementRow {
+    importId: string;
+    date: string; // YYYY-MM-DD
+    description: string;
+    value: number; // Amount spent, always positive
+}
+
+export interface ParsedStatement {
+    format: StatementFormat;
+    rows: StatementRow[];
+    skipped: number; // Credits left out (salary, refunds, invoice payments...)
+}
+
+// 'imported': already came from a statement; 'possibleDuplicate': an expense typed by hand
+// with the same date and value; 'closed': it would land in a closed month
+export type StatementRowStatus = 'new' | 'imported' | 'possibleDuplicate' | 'closed';
+
+export interface StatementImportResult {
+    imported: number;
+    months: number; // Months that got expenses
+    skippedClosed: number; // Expenses left out because their month was closed in the meantime
+}
+
+// Lowercase without accents or quotes, to compare headers and descriptions
+const normalize = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/"/g, '').trim().toLowerCase();
+
+// "1.234,56", "1,234.56", "-12,30", "R$ 10,00" and "12.30" all become numbers: whichever
+// separator comes last is the decimal one, the others group thousands
+const parseAmount = (text: string): number => {
+    const cleaned = text.replace(/[^0-9,.-]/g, '');
+    const decimal = Math.max(cleaned.lastIndexOf(','), cleaned.lastIndexOf('.'));
+    if (decimal < 0) return Number(cleaned);
+    return Number(`${cleaned.slice(0, decimal).replace(/[,.]/g, '')}.${cleaned.slice(decimal + 1)}`);
+};
+
+// DD/MM/YYYY, YYYY-MM-DD or the OFX YYYYMMDD[hhmmss...] to YYYY-MM-DD
+const parseDate = (text: string): string | null => {
+    const value = text.trim();
+    let match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+    if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+    match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+// Splits a CSV line, keeping delimiters inside quotes
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        else if (char === delimiter && !quoted) {
+            cells.push(cell.trim());
+            cell = '';
+        } else cell += char;
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+// Statement rows have no id of their own: the same date, amount and description make the same id.
+// Identical rows in one file (two coffees on the same day) are told apart by their position.
+const withFingerprints = (format: StatementFormat, rows: Omit<StatementRow, 'importId'>[]): StatementRow[] => {
+    const seen = new Map<string, number>();
+    return rows.map(row => {
+        const key = `${format}:${row.date}:${row.value.toFixed(2)}:${normalize(row.description)}`;
+        const occurrence = (seen.get(key) || 0) + 1;
+        seen.set(key, occurrence);
+        return { ...row, importId: occurrence === 1 ? key : `${key}#${occurrence}` };
+    });
+};
+
+const parseOfx = (text: string): ParsedStatement => {
+    const field = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(b => b.split(/<\/STMTTRN>/i)[0]);
+
+    let skipped = 0;
+    const rows: StatementRow[] = [];
+    const unidentified: Omit<StatementRow, 'importId'>[] = [];
+    blocks.forEach(block => {
+        const amount = parseAmount(field(block, 'TRNAMT'));
+        const date = parseDate(field(block, 'DTPOSTED'));
+        if (!date || !(amount < 0)) {
+            skipped++;
+            return;
+        }
+        const row = { date, description: field(block, 'MEMO') || field(block, 'NAME'), value: -amount };
+        const fitId = field(block, 'FITID');
+        if (fitId) rows.push({ ...row, importId: `ofx:${fitId}` });
+        else unidentified.push(row);
+    });
+
+    return { format: 'ofx', rows: [...rows, ...withFingerprints('ofx', unidentified)], skipped };
+};
+
+interface CsvLayout {
+    format: StatementFormat;
+    matches: (headers: string[]) => boolean;
+    // Spent amount (negative or zero for credits), date, description and the bank's own id if any
+    read: (cell: (name: string) => string) => { date: string; description: string; spent: number; id?: string };
+}
+
+const CSV_LAYOUTS: CsvLayout[] = [
+    {
+        // date,title,amount (purchases positive, payments negative)
+        format: 'nubank-card',
+        matches: h => h.includes('date') && h.includes('title') && h.includes('amount'),
+        read: cell => ({ date: cell('date'), description: cell('title'), spent: parseAmount(cell('amount')) }),
+    },
+    {
+        // Data,Valor,Identificador,Descrição (outflows negative)
+        format: 'nubank-account',
+        matches: h => h.includes('identificador') && h.includes('valor'),
+        read: cell => ({ date: cell('data'), description: cell('descricao'), spent: -parseAmount(cell('valor')), id: cell('identificador') }),
+    },
+    {
+        // Data Lançamento;Histórico;Descrição;Valor;Saldo (outflows negative)
+        format: 'inter',
+        matches: h => h.includes('data lancamento') && h.includes('valor'),
+        read: cell => ({ date: cell('data lancamento'), description: cell('descricao') || cell('historico'), spent: -parseAmount(cell('valor')) }),
+    },
+    {
+        // data;lançamento;valor (outflows negative)
+        format: 'itau',
+        matches: h => h.includes('data') && h.includes('lancamento') && h.includes('valor'),
+        read: cell => ({ date: cell('data'), description: cell('lancamento'), spent: -parseAmount(cell('valor')) }),
+    },
+];
+
+const parseCsv = (text: string): ParsedStatement => {
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length === 0) throw new Error('O arquivo está vazio.');
+
+    const delimiter = lines[0].includes(';') ? ';' : ',';
+    const headers = splitCsvLine(lines[0], delimiter).map(normalize);
+    const layout = CSV_LAYOUTS.find(l => l.matches(headers));
+    if (!layout) throw new Error('Formato de extrato não reconhecido. Use OFX ou o CSV do Nubank, Itaú ou Inter.');
+
+    let skipped = 0;
+    const rows: StatementRow[] = [];
+    const unidentified: Omit<StatementRow, 'importId'>[] = [];
+    lines.slice(1).forEach(line => {
+        const cells = splitCsvLine(line, delimiter);
+        const { date, description, spent, id } = layout.read(name => cells[headers.indexOf(name)] || '');
+        const parsedDate = parseDate(date);
+        if (!parsedDate || !(spent > 0)) {
+            skipped++;
+            return;
+        }
+        const row = { date: parsedDate, description, value: Math.round(spent * 100) / 100 };
+        if (id) rows.push({ ...row, importId: `${layout.format}:${id}` });
+        else unidentified.push(row);
+    });
+
+    return { format: layout.format, rows: [...rows, ...withFingerprints(layout.format, unidentified)], skipped };
+};
+
+/**
+ * Reads an OFX or CSV statement. Throws when the layout is not recognized.
+ */
+export const parseStatement = (fileName: string, text: string): ParsedStatement =>
+    fileName.toLowerCase().endsWith('.ofx') || /<OFX>/i.test(text) ? parseOfx(text) : parseCsv(text);
+
+/**
+ * Month an imported row goes into: the invoice month when it came from a card statement,
+ * otherwise the month of its date.
+ */
+export const getStatementMonthId = (date: string, card?: CreditCard): string =>
+    card ? getInvoiceMonth(card, date) : date.slice(0, 7);
+
+/**
+ * Card an imported row is charged to. Only variable expenses go on the invoice; a row marked
+ * as fixed is paid from the account, so it lands in the month of its date.
+ */
+export const getStatementRowCard = (type: ExpenseType, card?: CreditCard): CreditCard | undefined =>
+    type === 'variable' ? card : undefined;
+
+export const getStatementRowStatus = (row: StatementRow, months: MonthData[], card?: CreditCard): StatementRowStatus => {
+    const expenses = months.flatMap(m => m.expenses);
+    if (expenses.some(e => e.importId === row.importId)) return 'imported';
+    if (months.find(m => m.id === getStatementMonthId(row.date, card))?.closed) return 'closed';
+    if (expenses.some(e => !e.importId && e.date === row.date && Math.abs(e.value - row.value) < 0.005)) return 'possibleDuplicate';
+    return 'new';
+};
+
+/**
+ * The expense an imported row becomes.
+ */
+export const buildImportedExpense = (
+    row: StatementRow,
+    fields: Pick<Expense, 'category' | 'type' | 'paidBy' | 'cardId'>
+): Expense => ({
+    id: uuidv4(),
+    name: row.description,
+    value: row.value,
+    date: row.date,
+    importId: row.importId,
+    ...fields,
+});
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { User } from '../types';
 
 // Try to load from environment variables, fallback to hardcoded values
 // TODO: Remove hardcoded values once env loading is fixed
@@ -16,3 +17,14 @@ console.log('🔧 Supabase initialized:', {
 });
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Storage backend used by FinanceAPI.
+// 'supabase' (default) talks to the project above; 'local' keeps everything in IndexedDB
+// so the app runs offline, in demos and in automated tests.
+export type StorageBackend = 'supabase' | 'local';
+
+export const STORAGE_BACKEND: StorageBackend =
+    import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'supabase';
+
+// In local mode there is no Supabase session, so the app runs as this fixed profile.
+export const LOCAL_USER: User = { id: 'local-user', name: 'Modo Local', email: 'local@casal-em-dias' };
@@ -0,0 +1,944 @@
+import { Category, CategoryBudget, CategoryRule, CreditCard, Expense, ExpenseSplit, ExpenseType, GoalAllocation, Income, IncomeType, InstallmentPurchase, MonthData, MonthEvent, RecurrenceFrequency, RecurringExpense, RuleMatchType, SaveMonthResult, SavingsEntry, SavingsEntryType, SavingsGoal } from '../types';
+import { FinanceRepository } from './financeRepository';
+import { planMonthSave, hasConflicts, ItemSavePlan } from './monthMerge';
+import { RealtimeEchoes } from './realtimeService';
+import { supabase } from './supabaseClient';
+
+// --- Table rows (as returned by select('*')) ---
+interface MonthRow {
+  id: string;
+  household_id: string;
+  month_code: string; // YYYY-MM
+  label: string;
+  closed: boolean;
+  budgets: CategoryBudget[] | null;
+  history: MonthEvent[] | null;
+  version: number;
+}
+
+// How expenses, templates and purchases store their ExpenseSplit
+interface SplitColumns {
+  split_rule: ExpenseSplit['rule'];
+  split_percentage: number | null;
+  split_member_id: string | null;
+}
+
+interface ExpenseRow extends SplitColumns {
+  id: string;
+  household_id: string;
+  month_id: string;
+  name: string;
+  value: number;
+  category: string;
+  date: string;
+  type: ExpenseType;
+  paid_by: string | null;
+  recurring_id: string | null;
+  purchase_id: string | null;
+  installment_number: number | null; // Set together with purchase_id
+  installment_count: number | null;
+  card_id: string | null;
+  import_id: string | null;
+  version: number;
+}
+
+interface IncomeRow {
+  id: string;
+  household_id: string;
+  month_id: string;
+  member_id: string | null;
+  name: string;
+  value: number;
+  type: IncomeType;
+  received_date: string;
+  version: number;
+}
+
+interface RecurringRow extends SplitColumns {
+  id: string;
+  household_id: string;
+  name: string;
+  value: number;
+  category: string;
+  frequency: RecurrenceFrequency;
+  due_day: number;
+  start_month: string;
+  end_month: string | null;
+  paid_by: string | null;
+}
+
+interface PurchaseRow extends SplitColumns {
+  id: string;
+  household_id: string;
+  name: string;
+  total_value: number;
+  installments: number;
+  first_month: string;
+  due_day: number;
+  category: string;
+  paid_by: string | null;
+  cancelled_from: string | null;
+}
+
+interface CreditCardRow {
+  id: string;
+  household_id: string;
+  name: string;
+  closing_day: number;
+  due_day: number;
+}
+
+interface CategoryRow {
+  id: string;
+  household_id: string;
+  name: string;
+  color: string;
+  icon: string;
+  parent_id: string | null;
+  archived: boolean;
+}
+
+interface SavingsGoalRow {
+  id: string;
+  household_id: string;
+  name: string;
+  target_amount: number;
+  deadline: string;
+  allocations: GoalAllocation[] | null; // jsonb
+}
+
+interface SavingsEntryRow {
+  id: string;
+  household_id: string;
+  type: SavingsEntryType;
+  amount: number;
+  date: string;
+  month_code: string | null;
+  description: string | null;
+}
+
+interface CategoryRuleRow {
+  id: string;
+  household_id: string;
+  match_type: RuleMatchType;
+  pattern: string;
+  min_value: number | null;
+  max_value: number | null;
+  category: string;
+  expense_type: ExpenseType | null;
+  learned: boolean;
+}
+
+// Tables holding the items of a month, by the row they return
+interface MonthItemRows {
+  expenses: ExpenseRow;
+  incomes: IncomeRow;
+}
+
+// Columns every month item is written with (the rest are updated as a whole)
+interface MonthItemKeys {
+  id: string;
+  household_id: string;
+  month_id: string;
+}
+
+// --- Row mappers ---
+const fromSplitColumns = (row: SplitColumns): ExpenseSplit => ({
+  rule: row.split_rule || 'equal',
+  percentage: row.split_percentage ?? undefined,
+  memberId: row.split_member_id ?? undefined
+});
+
+const toSplitColumns = (split: ExpenseSplit | undefined) => ({
+  split_rule: split?.rule || 'equal',
+  split_percentage: split?.rule === 'custom' ? split.percentage ?? null : null,
+  split_member_id: split?.rule === 'single' ? split.memberId || null : null
+});
+
+const fromExpenseRow = (e: ExpenseRow): Expense => ({
+  id: e.id,
+  name: e.name,
+  value: Number(e.value),
+  category: e.category,
+  date: e.date,
+  type: e.type,
+  paidBy: e.paid_by,
+  split: fromSplitColumns(e),
+  recurringId: e.recurring_id ?? undefined,
+  installment: e.purchase_id ? {
+    purchaseId: e.purchase_id,
+    number: e.installment_number!,
+    total: e.installment_count!
+  } : undefined,
+  cardId: e.card_id ?? undefined,
+  importId: e.import_id ?? undefined,
+  version: e.version
+});
+
+const fromIncomeRow = (i: IncomeRow): Income => ({
+  id: i.id,
+  name: i.name,
+  value: Number(i.value),
+  type: i.type,
+  memberId: i.member_id,
+  receivedDate: i.received_date,
+  version: i.version
+});
+
+const fromMonthRow = (m: MonthRow, expenseRows: ExpenseRow[], incomeRows: IncomeRow[]): MonthData => ({
+  id: m.month_code, // Use month_code (YYYY-MM) as ID in app state
+  label: m.label,
+  incomes: incomeRows.map(fromIncomeRow),
+  expenses: expenseRows.map(fromExpenseRow),
+  closed: m.closed,
+  budgets: m.budgets || [],
+  history: m.history || [],
+  version: m.version
+});
+
+const toExpenseRow = (e: Expense, householdId: string, monthUUID: string) => ({
+  id: e.id, // Keep UI-generated UUID
+  household_id: householdId,
+  month_id: monthUUID,
+  name: e.name,
+  value: e.value,
+  category: e.category,
+  date: e.date,
+  type: e.type,
+  paid_by: e.paidBy || null,
+  ...toSplitColumns(e.split),
+  recurring_id: e.recurringId || null,
+  purchase_id: e.installment?.purchaseId || null,
+  installment_number: e.installment?.number ?? null,
+  installment_count: e.installment?.total ?? null,
+  card_id: e.cardId || null,
+  import_id: e.importId || null
+});
+
+const fromRecurringRow = (r: RecurringRow): RecurringExpense => ({
+  id: r.id,
+  name: r.name,
+  value: Number(r.value),
+  category: r.category,
+  frequency: r.frequency,
+  dueDay: r.due_day,
+  startMonth: r.start_month,
+  endMonth: r.end_month,
+  paidBy: r.paid_by,
+  split: fromSplitColumns(r)
+});
+
+const fromPurchaseRow = (p: PurchaseRow): InstallmentPurchase => ({
+  id: p.id,
+  name: p.name,
+  totalValue: Number(p.total_value),
+  installments: p.installments,
+  firstMonth: p.first_month,
+  dueDay: p.due_day,
+  category: p.category,
+  paidBy: p.paid_by,
+  split: fromSplitColumns(p),
+  cancelledFrom: p.cancelled_from
+});
+
+const toPurchaseRow = (p: InstallmentPurchase, householdId: string) => ({
+  id: p.id,
+  household_id: householdId,
+  name: p.name,
+  total_value: p.totalValue,
+  installments: p.installments,
+  first_month: p.firstMonth,
+  due_day: p.dueDay,
+  category: p.category,
+  paid_by: p.paidBy || null,
+  ...toSplitColumns(p.split),
+  cancelled_from: p.cancelledFrom
+});
+
+const toRecurringRow = (t: RecurringExpense, householdId: string) => ({
+  id: t.id,
+  household_id: householdId,
+  name: t.name,
+  value: t.value,
+  category: t.category,
+  frequency: t.frequency,
+  due_day: t.dueDay,
+  start_month: t.startMonth,
+  end_month: t.endMonth,
+  paid_by: t.paidBy || null,
+  ...toSplitColumns(t.split)
+});
+
+const toIncomeRow = (i: Income, householdId: string, monthUUID: string) => ({
+  id: i.id, // Keep UI-generated UUID
+  household_id: householdId,
+  month_id: monthUUID,
+  member_id: i.memberId,
+  name: i.name,
+  value: i.value,
+  type: i.type,
+  received_date: i.receivedDate
+});
+
+// Thrown when a conditional write finds a newer version than expected
+class StaleWriteError extends Error { }
+
+// Writes are retried from a fresh remote snapshot when another session wins a race
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Loads the rows of a child table (expenses, incomes) for the given month UUIDs.
+ */
+const fetchChildRows = async <K extends keyof MonthItemRows,>(table: K, monthUUIDs: string[]): Promise<MonthItemRows[K][]> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .in('month_id', monthUUIDs);
+
+  if (error) {
+    console.error(`Error fetching ${table}:`, error);
+    throw error;
+  }
+  return data || [];
+};
+
+/**
+ * Loads one month (row + incomes + expenses) as currently stored on the server.
+ */
+const fetchRemoteMonth = async (householdId: string, monthCode: string): Promise<{ uuid: string; month: MonthData } | null> => {
+  const { data: monthRow, error: monthError } = await supabase
+    .from('months')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('month_code', monthCode)
+    .maybeSingle();
+
+  if (monthError) {
+    console.error("Error fetching month:", monthError);
+    throw monthError;
+  }
+  if (!monthRow) return null;
+  const row: MonthRow = monthRow;
+
+  const [expenseRows, incomeRows] = await Promise.all([
+    fetchChildRows('expenses', [row.id]),
+    fetchChildRows('incomes', [row.id]),
+  ]);
+
+  return { uuid: row.id, month: fromMonthRow(row, expenseRows, incomeRows) };
+};
+
+/**
+ * Applies the plan of one child table: conditional deletes, inserts, then conditional updates.
+ */
+const writeItems = async <T, R extends MonthItemKeys>(
+  table: keyof MonthItemRows,
+  plan: ItemSavePlan<T>,
+  toRow: (item: T) => R
+): Promise<void> => {
+  for (const del of plan.deletes) {
+    const { data: deleted, error: deleteError } = await supabase
+      .from(table)
+      .delete()
+      .eq('id', del.id)
+      .eq('version', del.expectedVersion)
+      .select('id');
+
+    if (deleteError) {
+      console.error(`Error deleting from ${table}:`, deleteError);
+      throw deleteError;
+    }
+    if (!deleted || deleted.length === 0) throw new StaleWriteError(`${table} ${del.id} changed during save`);
+    RealtimeEchoes.rememberDelete(table, del.id);
+  }
+
+  const inserts = plan.upserts.filter(w => w.expectedVersion === undefined).map(w => toRow(w.item));
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabase
+      .from(table)
+      .insert(inserts);
+
+    if (insertError) {
+      // Unique violation: the same row was created by another session
+      if (insertError.code === '23505') throw new StaleWriteError(`${table} row was created by another session`);
+      console.error(`Error inserting ${table}:`, insertError);
+      throw insertError;
+    }
+    inserts.forEach(row => RealtimeEchoes.rememberVersion(table, row.id, 1));
+  }
+
+  for (const write of plan.upserts.filter(w => w.expectedVersion !== undefined)) {
+    const { id, household_id, month_id, ...fields } = toRow(write.item);
+    const { data: updated, error: updateError } = await supabase
+      .from(table)
+      .update(fields)
+      .eq('id', id)
+      .eq('version', write.expectedVersion!)
+      .select('id');
+
+    if (updateError) {
+      console.error(`Error updating ${table}:`, updateError);
+      throw updateError;
+    }
+    if (!updated || updated.length === 0) throw new StaleWriteError(`${table} ${id} changed during save`);
+    RealtimeEchoes.rememberVersion(table, id, write.expectedVersion! + 1); // Bumped by the version trigger
+  }
+};
+
+export const supabaseFinanceRepository: FinanceRepository = {
+  /**
+   * Fetches full month data from Supabase including incomes and expenses.
+   */
+  getMonths: async (householdId: string): Promise<MonthData[]> => {
+    // 1. Fetch Months
+    const { data: monthsData, error: monthsError } = await supabase
+      .from('months')
+      .select('*')
+      .eq('household_id', householdId);
+
+    if (monthsError) {
+      console.error("Error fetching months:", monthsError);
+      throw monthsError;
+    }
+    if (!monthsData || monthsData.length === 0) return [];
+
+    // 2. Fetch Incomes and Expenses for these months
+    const monthRows: MonthRow[] = monthsData;
+    const monthIds = monthRows.map(m => m.id);
+    const [expensesData, incomesData] = await Promise.all([
+      fetchChildRows('expenses', monthIds),
+      fetchChildRows('incomes', monthIds),
+    ]);
+
+    // 3. Reconstruct MonthData structure
+    const joinedMonths: MonthData[] = monthRows.map(m => fromMonthRow(
+      m,
+      expensesData.filter(e => e.month_id === m.id),
+      incomesData.filter(i => i.month_id === m.id)
+    ));
+
+    return joinedMonths;
+  },
+
+  /**
+   * Upserts month data.
+   * CAUTION: This implementation does a full sync (upsert month, replace incomes and expenses).
+   * For the "Save" feature, this is acceptable for now.
+   */
+  saveMonths: async (householdId: string, months: MonthData[]): Promise<void> => {
+    // Loop through each month to save (Inefficient for bulk, but safe for app usage)
+    for (const month of months) {
+      // 1. Upsert Month Record
+      const { data: savedMonth, error: monthError } = await supabase
+        .from('months')
+        .upsert({
+          household_id: householdId,
+          month_code: month.id,
+          label: month.label,
+          closed: month.closed,
+          budgets: month.budgets || [],
+          history: month.history || []
+        }, { onConflict: 'household_id, month_code' }) // Requires unique constraint or index if not PK
+        .select()
+        .single();
+
+      if (monthError) {
+        console.error("Error saving month:", monthError);
+        continue;
+      }
+
+      if (!savedMonth) continue;
+
+      const monthUUID = savedMonth.id;
+
+      // 2. Sync Incomes and Expenses
+      // Strategy: Delete all for this month and re-insert.
+      // This allows handling deletions without complex tracking.
+      const children = [
+        { table: 'incomes' as const, rows: month.incomes.map(i => toIncomeRow(i, householdId, monthUUID)) },
+        { table: 'expenses' as const, rows: month.expenses.map(e => toExpenseRow(e, householdId, monthUUID)) },
+      ];
+
+      for (const { table, rows } of children) {
+        const { error: deleteError } = await supabase
+          .from(table)
+          .delete()
+          .eq('month_id', monthUUID);
+
+        if (deleteError) {
+          console.error(`Error clearing ${table} for sync:`, deleteError);
+          // Don't stop, try to insert anyway/handle error
+        }
+
+        if (rows.length > 0) {
+          const { error: insertError } = await supabase
+            .from(table)
+            .insert(rows);
+
+          if (insertError) console.error(`Error inserting ${table}:`, insertError);
+        }
+      }
+    }
+  },
+
+  /**
+   * Saves a single month efficiently (optimized for auto-save).
+   * Only what changed locally since `base` is written, each row conditionally on the
+   * version it was based on, so a stale tab never wipes out someone else's changes.
+   */
+  saveMonth: async (householdId: string, month: MonthData, base?: MonthData): Promise<SaveMonthResult> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await saveMonthOnce(householdId, month, base);
+      } catch (error) {
+        if (!(error instanceof StaleWriteError) || attempt >= MAX_SAVE_ATTEMPTS) throw error;
+        console.warn("Concurrent change detected, retrying save:", error.message);
+      }
+    }
+  },
+
+  /**
+   * Deletes a month permanently.
+   * Its incomes and expenses are removed by the `on delete cascade` FKs on month_id.
+   */
+  deleteMonth: async (householdId: string, monthId: string): Promise<void> => {
+    const { data: deleted, error } = await supabase
+      .from('months')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('month_code', monthId)
+      .select('id');
+
+    if (error) {
+      console.error("Error deleting month:", error);
+      throw error;
+    }
+    (deleted || []).forEach(m => RealtimeEchoes.rememberDelete('months', m.id));
+  },
+
+  getRecurringExpenses: async (householdId: string): Promise<RecurringExpense[]> => {
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('created_at');
+
+    if (error) {
+      console.error("Error fetching recurring expenses:", error);
+      throw error;
+    }
+    return (data || []).map(fromRecurringRow);
+  },
+
+  saveRecurringExpense: async (householdId: string, template: RecurringExpense): Promise<void> => {
+    const row = toRecurringRow(template, householdId);
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving recurring expense:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('recurring_expenses', row);
+  },
+
+  /**
+   * Deletes a template. Generated expenses keep existing (their recurring_id is set to null by the FK).
+   */
+  deleteRecurringExpense: async (householdId: string, templateId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('recurring_expenses')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', templateId);
+
+    if (error) {
+      console.error("Error deleting recurring expense:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('recurring_expenses', templateId);
+  },
+
+  getPurchases: async (householdId: string): Promise<InstallmentPurchase[]> => {
+    const { data, error } = await supabase
+      .from('installment_purchases')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('first_month');
+
+    if (error) {
+      console.error("Error fetching installment purchases:", error);
+      throw error;
+    }
+    return (data || []).map(fromPurchaseRow);
+  },
+
+  savePurchase: async (householdId: string, purchase: InstallmentPurchase): Promise<void> => {
+    const row = toPurchaseRow(purchase, householdId);
+    const { error } = await supabase
+      .from('installment_purchases')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving installment purchase:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('installment_purchases', row);
+  },
+
+  /**
+   * Deletes a purchase. Generated installments keep existing (their purchase_id is set to null by the FK).
+   */
+  deletePurchase: async (householdId: string, purchaseId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('installment_purchases')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', purchaseId);
+
+    if (error) {
+      console.error("Error deleting installment purchase:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('installment_purchases', purchaseId);
+  },
+
+  getCards: async (householdId: string): Promise<CreditCard[]> => {
+    const { data, error } = await supabase
+      .from('credit_cards')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('name');
+
+    if (error) {
+      console.error("Error fetching credit cards:", error);
+      throw error;
+    }
+    const rows: CreditCardRow[] = data || [];
+    return rows.map(c => ({ id: c.id, name: c.name, closingDay: c.closing_day, dueDay: c.due_day }));
+  },
+
+  saveCard: async (householdId: string, card: CreditCard): Promise<void> => {
+    const row = { id: card.id, household_id: householdId, name: card.name, closing_day: card.closingDay, due_day: card.dueDay };
+    const { error } = await supabase
+      .from('credit_cards')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving credit card:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('credit_cards', row);
+  },
+
+  /**
+   * Deletes a card. Its expenses stay (their card_id is set to null by the FK).
+   */
+  deleteCard: async (householdId: string, cardId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('credit_cards')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', cardId);
+
+    if (error) {
+      console.error("Error deleting credit card:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('credit_cards', cardId);
+  },
+
+  getCategories: async (householdId: string): Promise<Category[]> => {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('name');
+
+    if (error) {
+      console.error("Error fetching categories:", error);
+      throw error;
+    }
+    const rows: CategoryRow[] = data || [];
+    return rows.map(c => ({
+      id: c.id,
+      name: c.name,
+      color: c.color,
+      icon: c.icon,
+      parentId: c.parent_id,
+      archived: c.archived
+    }));
+  },
+
+  saveCategory: async (householdId: string, category: Category): Promise<void> => {
+    const row = {
+      id: category.id,
+      household_id: householdId,
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      parent_id: category.parentId,
+      archived: category.archived
+    };
+    const { error } = await supabase
+      .from('categories')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving category:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('categories', row);
+  },
+
+  deleteCategory: async (householdId: string, categoryId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', categoryId);
+
+    if (error) {
+      console.error("Error deleting category:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('categories', categoryId);
+  },
+
+  getGoals: async (householdId: string): Promise<SavingsGoal[]> => {
+    const { data, error } = await supabase
+      .from('savings_goals')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('deadline');
+
+    if (error) {
+      console.error("Error fetching savings goals:", error);
+      throw error;
+    }
+    const rows: SavingsGoalRow[] = data || [];
+    return rows.map(g => ({
+      id: g.id,
+      name: g.name,
+      targetAmount: Number(g.target_amount),
+      deadline: g.deadline,
+      allocations: (g.allocations || []).map(a => ({ monthId: a.monthId, amount: Number(a.amount) }))
+    }));
+  },
+
+  saveGoal: async (householdId: string, goal: SavingsGoal): Promise<void> => {
+    const row = {
+      id: goal.id,
+      household_id: householdId,
+      name: goal.name,
+      target_amount: goal.targetAmount,
+      deadline: goal.deadline,
+      allocations: goal.allocations
+    };
+    const { error } = await supabase
+      .from('savings_goals')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving savings goal:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('savings_goals', row);
+  },
+
+  deleteGoal: async (householdId: string, goalId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('savings_goals')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', goalId);
+
+    if (error) {
+      console.error("Error deleting savings goal:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('savings_goals', goalId);
+  },
+
+  getSavingsEntries: async (householdId: string): Promise<SavingsEntry[]> => {
+    const { data, error } = await supabase
+      .from('savings_entries')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('date');
+
+    if (error) {
+      console.error("Error fetching savings entries:", error);
+      throw error;
+    }
+    const rows: SavingsEntryRow[] = data || [];
+    return rows.map(e => ({
+      id: e.id,
+      type: e.type,
+      amount: Number(e.amount),
+      date: e.date,
+      monthId: e.month_code || undefined,
+      description: e.description || ''
+    }));
+  },
+
+  saveSavingsEntry: async (householdId: string, entry: SavingsEntry): Promise<void> => {
+    const row = {
+      id: entry.id,
+      household_id: householdId,
+      type: entry.type,
+      amount: entry.amount,
+      date: entry.date,
+      month_code: entry.monthId || null,
+      description: entry.description
+    };
+    const { error } = await supabase
+      .from('savings_entries')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving savings entry:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('savings_entries', row);
+  },
+
+  deleteSavingsEntry: async (householdId: string, entryId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('savings_entries')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', entryId);
+
+    if (error) {
+      console.error("Error deleting savings entry:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('savings_entries', entryId);
+  },
+
+  getRules: async (householdId: string): Promise<CategoryRule[]> => {
+    const { data, error } = await supabase
+      .from('category_rules')
+      .select('*')
+      .eq('household_id', householdId)
+      .order('created_at');
+
+    if (error) {
+      console.error("Error fetching category rules:", error);
+      throw error;
+    }
+    const rows: CategoryRuleRow[] = data || [];
+    return rows.map(r => ({
+      id: r.id,
+      matchType: r.match_type,
+      pattern: r.pattern,
+      minValue: r.min_value === null ? null : Number(r.min_value),
+      maxValue: r.max_value === null ? null : Number(r.max_value),
+      category: r.category,
+      type: r.expense_type,
+      learned: r.learned
+    }));
+  },
+
+  saveRule: async (householdId: string, rule: CategoryRule): Promise<void> => {
+    const row = {
+      id: rule.id,
+      household_id: householdId,
+      match_type: rule.matchType,
+      pattern: rule.pattern,
+      min_value: rule.minValue,
+      max_value: rule.maxValue,
+      category: rule.category,
+      expense_type: rule.type,
+      learned: rule.learned
+    };
+    const { error } = await supabase
+      .from('category_rules')
+      .upsert(row);
+
+    if (error) {
+      console.error("Error saving category rule:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberWrite('category_rules', row);
+  },
+
+  deleteRule: async (householdId: string, ruleId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('category_rules')
+      .delete()
+      .eq('household_id', householdId)
+      .eq('id', ruleId);
+
+    if (error) {
+      console.error("Error deleting category rule:", error);
+      throw error;
+    }
+    RealtimeEchoes.rememberDelete('category_rules', ruleId);
+  }
+};
+
+const saveMonthOnce = async (householdId: string, month: MonthData, base?: MonthData): Promise<SaveMonthResult> => {
+  const remote = await fetchRemoteMonth(householdId, month.id);
+  const plan = planMonthSave(month, base, remote?.month);
+
+  // 1. Month Record (insert, or conditional update of the changed fields)
+  let monthUUID = remote?.uuid;
+  if (!remote) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('months')
+      .insert({
+        household_id: householdId,
+        month_code: month.id,
+        label: month.label,
+        closed: month.closed,
+        budgets: month.budgets || [],
+        history: month.history || []
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      // Unique violation: the partner created the same month meanwhile
+      if (insertError.code === '23505') throw new StaleWriteError(`Month ${month.id} was created by another session`);
+      console.error("Error saving month:", insertError);
+      throw insertError;
+    }
+    monthUUID = inserted.id;
+    RealtimeEchoes.rememberVersion('months', inserted.id, 1);
+  } else if (plan.monthFields) {
+    const { data: updated, error: updateError } = await supabase
+      .from('months')
+      .update(plan.monthFields)
+      .eq('id', remote.uuid)
+      .eq('version', remote.month.version ?? 1)
+      .select('id');
+
+    if (updateError) {
+      console.error("Error saving month:", updateError);
+      throw updateError;
+    }
+    if (!updated || updated.length === 0) throw new StaleWriteError(`Month ${month.id} changed during save`);
+    RealtimeEchoes.rememberVersion('months', remote.uuid, (remote.month.version ?? 1) + 1);
+  }
+
+  // 2. Incomes and Expenses
+  await writeItems('incomes', plan.incomes, i => toIncomeRow(i, householdId, monthUUID!));
+  await writeItems('expenses', plan.expenses, e => toExpenseRow(e, householdId, monthUUID!));
+
+  // 3. Server state after the writes (includes the partner's non-conflicting changes)
+  const saved = (await fetchRemoteMonth(householdId, month.id))!.month;
+
+  if (hasConflicts(plan)) {
+    return {
+      status: 'conflict',
+      month: saved,
+      expenses: plan.expenses.conflicts,
+      incomes: plan.incomes.conflicts,
+      monthFields: plan.monthFieldsConflict
+    };
+  }
+  return { status: 'saved', month: saved };
+};
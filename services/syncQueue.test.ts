@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MonthData } from '../types';
+import type { PendingWrite } from './syncQueue';
+
+// In-memory stand-in for the IndexedDB outbox store; values are copied in and out like IndexedDB does
+const outbox = vi.hoisted(() => {
+    const rows = new Map<number, PendingWrite>();
+    let nextSeq = 1;
+    const copy = <T>(value: T): T => structuredClone(value);
+    const store = {
+        index: () => ({ getAll: (householdId: string) => [...rows.values()].filter(r => r.householdId === householdId).map(copy) }),
+        add: (value: PendingWrite) => { const seq = nextSeq++; rows.set(seq, { ...copy(value), seq }); },
+        put: (value: PendingWrite) => rows.set(value.seq!, copy(value)),
+        delete: (seq: number) => rows.delete(seq),
+    };
+    return { rows, reset: () => { rows.clear(); nextSeq = 1; }, db: { transaction: () => ({ objectStore: () => store }) } };
+});
+
+vi.mock('./localDb', () => ({
+    STORES: { outbox: 'outbox' },
+    openLocalDb: async () => outbox.db,
+    requestToPromise: async (value: unknown) => value,
+    transactionDone: async () => undefined,
+}));
+
+const { SyncQueue } = await import('./syncQueue');
+
+const month = (id: string, version: number, names: string[]): MonthData => ({
+    id, label: id, incomes: [], closed: false, version,
+    expenses: names.map(name => ({ id: name, name, value: 10, category: 'Outros', date: `${id}-10`, type: 'variable' as const }))
+});
+
+// A send that waits until the test lets it finish
+const deferred = () => {
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    return { done, release };
+};
+
+describe('SyncQueue', () => {
+    beforeEach(() => outbox.reset());
+
+    it('sends a write queued while a flush is running before a second flush call resolves', async () => {
+        const sent: string[] = [];
+        const first = deferred();
+        const send = async (write: { monthId: string }) => {
+            sent.push(write.monthId);
+            if (sent.length === 1) await first.done;
+        };
+
+        await SyncQueue.enqueue('h1', month('2025-01', 1, ['a']));
+        const running = SyncQueue.flush('h1', send);
+        await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+        await SyncQueue.enqueue('h1', month('2025-02', 1, ['b']));
+        const again = SyncQueue.flush('h1', send);
+        first.release();
+
+        expect(await again).toBe(0);
+        await running;
+        expect(sent).toEqual(['2025-01', '2025-02']);
+        expect(outbox.rows.size).toBe(0);
+    });
+
+    it('does not merge into the write being sent and bases the next one on what the backend acknowledged', async () => {
+        const base = month('2025-01', 1, []);
+        const firstEdit = month('2025-01', 1, ['a']);
+        const acknowledged = month('2025-01', 2, ['a']);
+        const secondEdit = month('2025-01', 1, ['a', 'b']);
+        const sent: { month: MonthData; base?: MonthData }[] = [];
+        const first = deferred();
+
+        await SyncQueue.enqueue('h1', firstEdit, 'save', base);
+        const running = SyncQueue.flush('h1', async write => {
+            sent.push({ month: write.month, base: write.base });
+            if (sent.length === 1) {
+                await first.done;
+                return acknowledged;
+            }
+            return write.month;
+        });
+        await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+        await SyncQueue.enqueue('h1', secondEdit, 'save', base);
+        expect(await SyncQueue.count('h1')).toBe(2);
+        first.release();
+        await running;
+
+        expect(sent.map(s => s.month)).toEqual([firstEdit, secondEdit]);
+        expect(sent[0].base).toEqual(base);
+        expect(sent[1].base).toEqual(acknowledged);
+    });
+
+    it('keeps the write and everything after it when sending fails', async () => {
+        await SyncQueue.enqueue('h1', month('2025-01', 1, ['a']));
+        await SyncQueue.enqueue('h1', month('2025-02', 1, ['b']));
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await SyncQueue.flush('h1', async () => { throw new Error('offline'); })).toBe(2);
+    });
+
+    it('keeps a held delete stored but unsent until it is released', async () => {
+        const sent: string[] = [];
+        const send = async (write: { op: string; monthId: string }) => { sent.push(`${write.op}:${write.monthId}`); };
+
+        await SyncQueue.holdDelete('h1', month('2025-01', 1, []));
+        await SyncQueue.enqueue('h1', month('2025-02', 1, ['b']));
+
+        expect(await SyncQueue.flush('h1', send)).toBe(0);
+        expect(sent).toEqual(['save:2025-02']);
+        expect((await SyncQueue.getPending('h1')).map(p => p.monthId)).toEqual(['2025-01']);
+
+        await SyncQueue.release('h1', '2025-01');
+        await SyncQueue.flush('h1', send);
+        expect(sent).toEqual(['save:2025-02', 'delete:2025-01']);
+    });
+
+    it('drops a held delete when it is undone', async () => {
+        await SyncQueue.holdDelete('h1', month('2025-01', 1, []));
+        await SyncQueue.cancel('h1', '2025-01');
+
+        expect(await SyncQueue.getPending('h1')).toEqual([]);
+    });
+});
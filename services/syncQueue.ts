@@ -0,0 +1,137 @@
+import { MonthData } from '../types';
+import { openLocalDb, requestToPromise, transactionDone, STORES } from './localDb';
+
+// --- OFFLINE OUTBOX ---
+// Writes that could not reach the backend are kept in IndexedDB and replayed in order
+// (by `seq`) once the browser is back online. A month delete is queued here as soon as the
+// user asks for it, held while it can still be undone, so closing the tab doesn't lose it.
+
+export type PendingOperation = 'save' | 'delete';
+
+export interface PendingWrite {
+    seq?: number; // Auto-incremented by IndexedDB, defines replay order
+    householdId: string;
+    monthId: string;
+    op: PendingOperation;
+    month: MonthData; // Snapshot to save (for 'delete', the month as it was when removed)
+    base?: MonthData; // Backend version the snapshot was edited from (see FinanceAPI.saveMonth)
+    held?: boolean; // Delete still in its undo window: not replayed until released
+    queuedAt: string; // ISO timestamp
+}
+
+const getAll = async (householdId: string): Promise<PendingWrite[]> => {
+    const db = await openLocalDb();
+    const tx = db.transaction(STORES.outbox, 'readonly');
+    const entries = await requestToPromise<PendingWrite[]>(
+        tx.objectStore(STORES.outbox).index('householdId').getAll(householdId)
+    );
+    return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+};
+
+// Writes that can be replayed now
+const getReady = async (householdId: string): Promise<PendingWrite[]> =>
+    (await getAll(householdId)).filter(e => !e.held);
+
+const updateAll = async (entries: PendingWrite[], update: (store: IDBObjectStore, entry: PendingWrite) => void): Promise<void> => {
+    const db = await openLocalDb();
+    const tx = db.transaction(STORES.outbox, 'readwrite');
+    const store = tx.objectStore(STORES.outbox);
+    entries.forEach(e => update(store, e));
+    await transactionDone(tx);
+};
+
+let flushing: Promise<number> | null = null;
+// Write being replayed right now; it is no longer replaced by newer writes of its month
+let sendingSeq: number | null = null;
+
+// Drops a replayed write and bases the later writes of its month on what the backend acknowledged
+const settle = async (write: PendingWrite, acknowledged: MonthData | void): Promise<void> => {
+    const later = acknowledged
+        ? (await getAll(write.householdId)).filter(e => e.monthId === write.monthId && e.seq! > write.seq!)
+        : [];
+    await updateAll([write, ...later], (store, e) => e === write ? store.delete(e.seq!) : store.put({ ...e, base: acknowledged }));
+};
+
+export const SyncQueue = {
+    /**
+     * Queues a write for a month.
+     * saveMonth always sends the whole month (and a delete supersedes any save), so an
+     * older pending write of the same month is replaced and the new one goes to the end of the queue.
+     * A write being replayed is left alone: the new one queues behind it and is rebased on the
+     * version the backend acknowledges for it (see flush).
+     */
+    enqueue: async (householdId: string, month: MonthData, op: PendingOperation = 'save', base?: MonthData, held = false): Promise<void> => {
+        const previous = (await getAll(householdId)).filter(e => e.monthId === month.id);
+        const inFlight = previous.find(e => e.seq === sendingSeq);
+        const replaced = previous.filter(e => e !== inFlight);
+        // Keep the oldest base: the replaced snapshot was edited from it
+        const effectiveBase = replaced.length > 0 ? replaced[0].base : inFlight ? inFlight.month : base;
+
+        const db = await openLocalDb();
+        const tx = db.transaction(STORES.outbox, 'readwrite');
+        const store = tx.objectStore(STORES.outbox);
+        replaced.forEach(e => store.delete(e.seq!));
+        store.add({ householdId, monthId: month.id, op, month, base: effectiveBase, held, queuedAt: new Date().toISOString() } as PendingWrite);
+        await transactionDone(tx);
+    },
+
+    /**
+     * Queues the delete of a month, held until `release` (or dropped by `cancel` when undone).
+     */
+    holdDelete: (householdId: string, month: MonthData): Promise<void> =>
+        SyncQueue.enqueue(householdId, month, 'delete', undefined, true),
+
+    /**
+     * Lets held deletes be replayed: the one of `monthId`, or all of them when the undo
+     * windows they were waiting on are gone (a new session).
+     */
+    release: async (householdId: string, monthId?: string): Promise<void> => {
+        const held = (await getAll(householdId)).filter(e => e.held && (!monthId || e.monthId === monthId));
+        await updateAll(held, (store, e) => store.put({ ...e, held: false }));
+    },
+
+    /**
+     * Drops the held delete of an undone month.
+     */
+    cancel: async (householdId: string, monthId: string): Promise<void> => {
+        const held = (await getAll(householdId)).filter(e => e.held && e.monthId === monthId);
+        await updateAll(held, (store, e) => store.delete(e.seq!));
+    },
+
+    // Held deletes are included: the month must stay hidden while they wait
+    getPending: (householdId: string): Promise<PendingWrite[]> => getAll(householdId),
+
+    count: async (householdId: string): Promise<number> => (await getReady(householdId)).length,
+
+    /**
+     * Replays pending writes in order through `send`, which returns the month the backend
+     * acknowledged for a save. Writes queued while flushing are replayed too.
+     * Stops at the first failure so later writes never overtake an earlier one.
+     * Returns how many writes are still pending.
+     */
+    flush: (householdId: string, send: (write: PendingWrite) => Promise<MonthData | void>): Promise<number> => {
+        // The running flush may already be past a write queued after it started: go again once it settles
+        if (flushing) return flushing.then(() => SyncQueue.flush(householdId, send));
+
+        flushing = (async () => {
+            try {
+                for (let [write] = await getReady(householdId); write; [write] = await getReady(householdId)) {
+                    sendingSeq = write.seq!;
+                    try {
+                        await settle(write, await send(write));
+                    } catch (error) {
+                        console.error('Replay failed, keeping write in outbox:', error);
+                        return SyncQueue.count(householdId);
+                    } finally {
+                        sendingSeq = null;
+                    }
+                }
+                return 0;
+            } finally {
+                flushing = null;
+            }
+        })();
+
+        return flushing;
+    },
+};
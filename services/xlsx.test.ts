@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildXlsx, buildZip, columnName, crc32 } from './xlsx';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+// Reads back the files of a zip by walking its local headers (entries are stored, not compressed)
+const readZip = (zip: Uint8Array): Record<string, string> => {
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const decoder = new TextDecoder();
+    const files: Record<string, string> = {};
+    let offset = 0;
+    while (view.getUint32(offset, true) === 0x04034b50) {
+        const size = view.getUint32(offset + 18, true);
+        const nameLength = view.getUint16(offset + 26, true);
+        const start = offset + 30 + nameLength;
+        const data = zip.slice(start, start + size);
+        expect(crc32(data)).toBe(view.getUint32(offset + 14, true));
+        files[decoder.decode(zip.slice(offset + 30, start))] = decoder.decode(data);
+        offset = start + size;
+    }
+    return files;
+};
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    });
+});
+
+describe('buildZip', () => {
+    it('stores every file with its name and content', () => {
+        const zip = buildZip([{ name: 'a.txt', content: 'olá' }, { name: 'dir/b.xml', content: '<b/>' }]);
+
+        expect(readZip(zip)).toEqual({ 'a.txt': 'olá', 'dir/b.xml': '<b/>' });
+    });
+
+    it('ends with a central directory listing every file', () => {
+        const zip = buildZip([{ name: 'a.txt', content: 'a' }, { name: 'b.txt', content: 'b' }]);
+        const end = new DataView(zip.buffer, zip.byteLength - 22);
+
+        expect(end.getUint32(0, true)).toBe(0x06054b50);
+        expect(end.getUint16(10, true)).toBe(2);
+        expect(new DataView(zip.buffer, end.getUint32(16, true)).getUint32(0, true)).toBe(0x02014b50);
+    });
+});
+
+describe('columnName', () => {
+    it.each([[0, 'A'], [8, 'I'], [25, 'Z'], [26, 'AA'], [27, 'AB'], [701, 'ZZ'], [702, 'AAA']])('%i is %s', (index, name) => {
+        expect(columnName(index)).toBe(name);
+    });
+});
+
+describe('buildXlsx', () => {
+    const files = readZip(buildXlsx('Despesas', [['Descrição', 'Valor'], ['Pão & "Leite" <sem glúten>', 12.5]]));
+    const sheet = files['xl/worksheets/sheet1.xml'];
+
+    it('has the parts a spreadsheet app needs', () => {
+        expect(Object.keys(files)).toEqual(expect.arrayContaining([
+            '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml', 'xl/worksheets/sheet1.xml'
+        ]));
+        expect(files['xl/workbook.xml']).toContain('<sheet name="Despesas"');
+    });
+
+    it('writes text escaped and numbers as numbers', () => {
+        expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Pão &amp; &quot;Leite&quot; &lt;sem glúten&gt;</t></is></c>');
+        expect(sheet).toContain('<c r="B2" s="2"><v>12.5</v></c>');
+    });
+
+    it('makes the header row bold', () => {
+        expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Descrição</t></is></c>');
+    });
+});
@@ -0,0 +1,336 @@
+-- Migration: Shared households
+-- Months and expenses now belong to a household (the couple) instead of a single user,
+-- so both partners can log in with their own account and edit the same data.
+
+-- Step 1: Households, membership and invites
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 12 hex characters from a cryptographic source (48 bits), so codes can't be guessed
+CREATE OR REPLACE FUNCTION public.new_invite_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT upper(encode(extensions.gen_random_bytes(6), 'hex'));
+$$;
+
+CREATE TABLE IF NOT EXISTS public.households (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name text NOT NULL DEFAULT 'Nossa casa',
+  invite_code text NOT NULL UNIQUE DEFAULT public.new_invite_code(),
+  created_by uuid REFERENCES auth.users,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.household_members (
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  name text,
+  email text,
+  joined_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  PRIMARY KEY (household_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.household_invites (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  invited_by uuid REFERENCES auth.users DEFAULT auth.uid(),
+  accepted_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE (household_id, email)
+);
+
+-- Codes made by the earlier md5(random()) default are replaced
+ALTER TABLE public.households ALTER COLUMN invite_code SET DEFAULT public.new_invite_code();
+UPDATE public.households SET invite_code = public.new_invite_code() WHERE length(invite_code) <> 12;
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON public.household_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_household_invites_email ON public.household_invites(lower(email));
+
+-- Step 2: Scope months and expenses by household
+ALTER TABLE public.months ADD COLUMN IF NOT EXISTS household_id uuid REFERENCES public.households(id) ON DELETE CASCADE;
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS household_id uuid REFERENCES public.households(id) ON DELETE CASCADE;
+
+-- user_id is kept as "who created the row" and filled automatically
+ALTER TABLE public.months ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE public.expenses ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- Step 3: Backfill - one household per existing user, owning all of their data
+DO $$
+DECLARE
+  u record;
+  new_household uuid;
+BEGIN
+  FOR u IN
+    SELECT DISTINCT m.user_id, au.email, au.raw_user_meta_data->>'name' AS name
+    FROM public.months m
+    JOIN auth.users au ON au.id = m.user_id
+    WHERE m.household_id IS NULL
+  LOOP
+    INSERT INTO public.households (created_by) VALUES (u.user_id) RETURNING id INTO new_household;
+    INSERT INTO public.household_members (household_id, user_id, role, name, email)
+    VALUES (new_household, u.user_id, 'owner', u.name, u.email);
+
+    UPDATE public.months SET household_id = new_household WHERE user_id = u.user_id AND household_id IS NULL;
+    UPDATE public.expenses SET household_id = new_household WHERE user_id = u.user_id AND household_id IS NULL;
+  END LOOP;
+
+  RAISE NOTICE 'Households created for existing users';
+END $$;
+
+ALTER TABLE public.months ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE public.expenses ALTER COLUMN household_id SET NOT NULL;
+
+-- Step 4: Months are unique per household (required for the upsert in the code)
+ALTER TABLE public.months DROP CONSTRAINT IF EXISTS months_user_id_month_code_key;
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'months_household_id_month_code_key'
+  ) THEN
+    ALTER TABLE public.months
+    ADD CONSTRAINT months_household_id_month_code_key UNIQUE (household_id, month_code);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_months_household_id ON public.months(household_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_household_id ON public.expenses(household_id);
+
+-- Step 5: Membership helper (security definer avoids RLS recursion on household_members)
+CREATE OR REPLACE FUNCTION public.is_household_member(hid uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.household_members
+    WHERE household_id = hid AND user_id = auth.uid()
+  );
+$$;
+
+-- Step 6: RLS policies scoped to the household
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their household" ON public.households;
+CREATE POLICY "Members can view their household"
+  ON public.households FOR SELECT
+  USING (public.is_household_member(id));
+
+DROP POLICY IF EXISTS "Members can update their household" ON public.households;
+CREATE POLICY "Members can update their household"
+  ON public.households FOR UPDATE
+  USING (public.is_household_member(id))
+  WITH CHECK (public.is_household_member(id));
+
+-- Members only rename the household; the invite code changes through regenerate_invite_code
+REVOKE UPDATE ON public.households FROM authenticated;
+GRANT UPDATE (name) ON public.households TO authenticated;
+
+DROP POLICY IF EXISTS "Members can view household members" ON public.household_members;
+CREATE POLICY "Members can view household members"
+  ON public.household_members FOR SELECT
+  USING (public.is_household_member(household_id));
+
+DROP POLICY IF EXISTS "Members can leave household" ON public.household_members;
+CREATE POLICY "Members can leave household"
+  ON public.household_members FOR DELETE
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Members can manage invites" ON public.household_invites;
+CREATE POLICY "Members can manage invites"
+  ON public.household_invites FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+DROP POLICY IF EXISTS "Users can view own months" ON public.months;
+DROP POLICY IF EXISTS "Users can insert own months" ON public.months;
+DROP POLICY IF EXISTS "Users can update own months" ON public.months;
+DROP POLICY IF EXISTS "Users can delete own months" ON public.months;
+DROP POLICY IF EXISTS "Household members can manage months" ON public.months;
+CREATE POLICY "Household members can manage months"
+  ON public.months FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+DROP POLICY IF EXISTS "Users can view own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Users can insert own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Users can update own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Users can delete own expenses" ON public.expenses;
+DROP POLICY IF EXISTS "Household members can manage expenses" ON public.expenses;
+CREATE POLICY "Household members can manage expenses"
+  ON public.expenses FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 7: RPCs used by the app
+-- Returns the caller's household, accepting a pending e-mail invite or creating a new one if needed.
+-- Invites are only accepted for a confirmed e-mail: anyone can sign up with someone else's address.
+CREATE OR REPLACE FUNCTION public.ensure_household()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hid uuid;
+  caller_email text;
+  caller_name text;
+  email_confirmed boolean;
+BEGIN
+  SELECT household_id INTO hid
+  FROM public.household_members
+  WHERE user_id = auth.uid()
+  ORDER BY joined_at
+  LIMIT 1;
+
+  IF hid IS NOT NULL THEN
+    RETURN hid;
+  END IF;
+
+  SELECT email, raw_user_meta_data->>'name', email_confirmed_at IS NOT NULL
+  INTO caller_email, caller_name, email_confirmed
+  FROM auth.users WHERE id = auth.uid();
+
+  -- Pending invite by e-mail
+  SELECT household_id INTO hid
+  FROM public.household_invites
+  WHERE lower(email) = lower(caller_email) AND accepted_at IS NULL AND email_confirmed
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF hid IS NOT NULL THEN
+    UPDATE public.household_invites SET accepted_at = now()
+    WHERE household_id = hid AND lower(email) = lower(caller_email);
+    INSERT INTO public.household_members (household_id, user_id, role, name, email)
+    VALUES (hid, auth.uid(), 'member', caller_name, caller_email);
+    RETURN hid;
+  END IF;
+
+  INSERT INTO public.households (created_by) VALUES (auth.uid()) RETURNING id INTO hid;
+  INSERT INTO public.household_members (household_id, user_id, role, name, email)
+  VALUES (hid, auth.uid(), 'owner', caller_name, caller_email);
+  RETURN hid;
+END;
+$$;
+
+-- Whether a household holds anything besides its members, invites and categories (which every
+-- household gets by default). Every table with a household_id counts, including later ones.
+CREATE OR REPLACE FUNCTION public.household_has_data(hid uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  t record;
+  found boolean;
+BEGIN
+  FOR t IN
+    SELECT c.table_name
+    FROM information_schema.columns c
+    JOIN information_schema.tables tb ON tb.table_schema = c.table_schema AND tb.table_name = c.table_name
+    WHERE c.table_schema = 'public' AND c.column_name = 'household_id' AND tb.table_type = 'BASE TABLE'
+      AND c.table_name NOT IN ('household_members', 'household_invites', 'categories')
+  LOOP
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE household_id = $1)', t.table_name) INTO found USING hid;
+    IF found THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+  RETURN false;
+END;
+$$;
+
+-- Moves the caller into the household that owns the given invite code.
+-- Data is never moved between households, so leaving one the caller is alone in is refused
+-- while it has data (it would be left with no one able to see it). Empty ones are removed.
+CREATE OR REPLACE FUNCTION public.join_household(code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hid uuid;
+  previous uuid;
+  caller_email text;
+  caller_name text;
+BEGIN
+  SELECT id INTO hid FROM public.households WHERE invite_code = upper(trim(code));
+  IF hid IS NULL THEN
+    RAISE EXCEPTION 'Código de convite inválido';
+  END IF;
+
+  SELECT email, raw_user_meta_data->>'name' INTO caller_email, caller_name
+  FROM auth.users WHERE id = auth.uid();
+
+  FOR previous IN
+    SELECT m.household_id FROM public.household_members m
+    WHERE m.user_id = auth.uid() AND m.household_id <> hid
+      AND NOT EXISTS (
+        SELECT 1 FROM public.household_members o
+        WHERE o.household_id = m.household_id AND o.user_id <> auth.uid()
+      )
+  LOOP
+    IF public.household_has_data(previous) THEN
+      RAISE EXCEPTION 'Sua casa atual já tem dados. Para ficarem juntos, peça ao seu parceiro(a) para entrar com o seu código.';
+    END IF;
+    DELETE FROM public.households WHERE id = previous;
+  END LOOP;
+
+  DELETE FROM public.household_members WHERE user_id = auth.uid() AND household_id <> hid;
+  INSERT INTO public.household_members (household_id, user_id, role, name, email)
+  VALUES (hid, auth.uid(), 'member', caller_name, caller_email)
+  ON CONFLICT (household_id, user_id) DO NOTHING;
+
+  RETURN hid;
+END;
+$$;
+
+-- Replaces the household's invite code; the old one stops working right away.
+CREATE OR REPLACE FUNCTION public.regenerate_invite_code(hid uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code text;
+BEGIN
+  IF NOT public.is_household_member(hid) THEN
+    RAISE EXCEPTION 'Você não faz parte desta casa';
+  END IF;
+
+  UPDATE public.households SET invite_code = public.new_invite_code()
+  WHERE id = hid
+  RETURNING invite_code INTO code;
+  RETURN code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.household_has_data(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.ensure_household() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_household(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_invite_code(uuid) TO authenticated;
+
+-- Step 8: Verify the migration
+DO $$
+DECLARE
+  household_count integer;
+  orphan_months integer;
+  weak_codes integer;
+BEGIN
+  SELECT COUNT(*) INTO household_count FROM public.households;
+  SELECT COUNT(*) INTO orphan_months FROM public.months WHERE household_id IS NULL;
+  SELECT COUNT(*) INTO weak_codes FROM public.households WHERE length(invite_code) <> 12;
+
+  RAISE NOTICE 'Migration complete: % households, % months without household, % old invite codes',
+    household_count, orphan_months, weak_codes;
+END $$;
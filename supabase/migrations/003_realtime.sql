@@ -0,0 +1,24 @@
+-- Migration: Realtime sync between sessions
+-- Publishes months and expenses changes so both partners' open tabs stay up to date.
+
+-- Step 1: Add tables to the Supabase Realtime publication
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'months'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.months;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'expenses'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.expenses;
+  END IF;
+END $$;
+
+-- Step 2: Send the full old row on UPDATE/DELETE so household_id is available to subscribers
+ALTER TABLE public.months REPLICA IDENTITY FULL;
+ALTER TABLE public.expenses REPLICA IDENTITY FULL;
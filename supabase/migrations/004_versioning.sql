@@ -0,0 +1,34 @@
+-- Migration: Optimistic concurrency
+-- Every update bumps `version` and `updated_at`, so the app can write conditionally
+-- ("only if version is still N") and detect when a stale tab would overwrite someone else's change.
+
+-- Step 1: Version columns
+ALTER TABLE public.months
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL;
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL;
+
+-- Step 2: Bump version on every update
+CREATE OR REPLACE FUNCTION public.bump_row_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := timezone('utc'::text, now());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS months_bump_version ON public.months;
+CREATE TRIGGER months_bump_version
+  BEFORE UPDATE ON public.months
+  FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS expenses_bump_version ON public.expenses;
+CREATE TRIGGER expenses_bump_version
+  BEFORE UPDATE ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
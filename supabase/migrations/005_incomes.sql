@@ -0,0 +1,91 @@
+-- Migration: Per-partner income entries
+-- Replaces the fixed months.salary1 / months.salary2 columns with a list of named incomes
+-- (salário, extra, benefício), each tied to a household member and a received date.
+
+-- Step 1: Incomes table
+CREATE TABLE IF NOT EXISTS public.incomes (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  month_id uuid REFERENCES public.months(id) ON DELETE CASCADE NOT NULL,
+  member_id uuid REFERENCES auth.users ON DELETE SET NULL, -- NULL = not assigned to a partner
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  name text NOT NULL,
+  value numeric DEFAULT 0,
+  type text NOT NULL DEFAULT 'salary' CHECK (type IN ('salary', 'extra', 'benefit')),
+  received_date date,
+  version integer NOT NULL DEFAULT 1,
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_incomes_month_id ON public.incomes(month_id);
+CREATE INDEX IF NOT EXISTS idx_incomes_household_id ON public.incomes(household_id);
+
+-- Step 2: Migrate salary1/salary2 (salary1 -> first member, salary2 -> second member)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'months' AND column_name = 'salary1'
+  ) THEN
+    INSERT INTO public.incomes (household_id, month_id, member_id, user_id, name, value, type, received_date)
+    SELECT m.household_id, m.id,
+      (SELECT hm.user_id FROM public.household_members hm
+        WHERE hm.household_id = m.household_id ORDER BY hm.joined_at LIMIT 1),
+      m.user_id, 'Salário', m.salary1, 'salary', to_date(m.month_code || '-05', 'YYYY-MM-DD')
+    FROM public.months m
+    WHERE COALESCE(m.salary1, 0) > 0;
+
+    INSERT INTO public.incomes (household_id, month_id, member_id, user_id, name, value, type, received_date)
+    SELECT m.household_id, m.id,
+      (SELECT hm.user_id FROM public.household_members hm
+        WHERE hm.household_id = m.household_id ORDER BY hm.joined_at OFFSET 1 LIMIT 1),
+      m.user_id, 'Salário', m.salary2, 'salary', to_date(m.month_code || '-05', 'YYYY-MM-DD')
+    FROM public.months m
+    WHERE COALESCE(m.salary2, 0) > 0;
+
+    ALTER TABLE public.months DROP COLUMN salary1;
+    ALTER TABLE public.months DROP COLUMN salary2;
+
+    RAISE NOTICE 'Salaries migrated to incomes and columns dropped';
+  ELSE
+    RAISE NOTICE 'salary columns do not exist, skipping migration';
+  END IF;
+END $$;
+
+-- Step 3: Versioning (see 004_versioning.sql)
+DROP TRIGGER IF EXISTS incomes_bump_version ON public.incomes;
+CREATE TRIGGER incomes_bump_version
+  BEFORE UPDATE ON public.incomes
+  FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
+
+-- Step 4: RLS scoped to the household
+ALTER TABLE public.incomes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage incomes" ON public.incomes;
+CREATE POLICY "Household members can manage incomes"
+  ON public.incomes FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 5: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'incomes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.incomes;
+  END IF;
+END $$;
+
+ALTER TABLE public.incomes REPLICA IDENTITY FULL;
+
+-- Step 6: Verify the migration
+DO $$
+DECLARE
+  income_count integer;
+BEGIN
+  SELECT COUNT(*) INTO income_count FROM public.incomes;
+  RAISE NOTICE 'Migration complete: % incomes', income_count;
+END $$;
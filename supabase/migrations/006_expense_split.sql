@@ -0,0 +1,30 @@
+-- Migration: Expense attribution
+-- Records which partner paid each expense and how its cost is shared,
+-- so the app can work out "quem deve para quem" at the end of the month.
+
+-- Step 1: Payer and split columns
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS paid_by uuid REFERENCES auth.users ON DELETE SET NULL, -- NULL = joint account
+ADD COLUMN IF NOT EXISTS split_rule text NOT NULL DEFAULT 'equal',
+ADD COLUMN IF NOT EXISTS split_percentage numeric, -- 'custom': share owed by the payer
+ADD COLUMN IF NOT EXISTS split_member_id uuid REFERENCES auth.users ON DELETE SET NULL; -- 'single': who owes 100%
+
+-- Step 2: Constraints
+ALTER TABLE public.expenses DROP CONSTRAINT IF EXISTS expenses_split_rule_check;
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_split_rule_check
+  CHECK (split_rule IN ('equal', 'proportional', 'custom', 'single'));
+
+ALTER TABLE public.expenses DROP CONSTRAINT IF EXISTS expenses_split_percentage_check;
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_split_percentage_check
+  CHECK (split_percentage IS NULL OR (split_percentage >= 0 AND split_percentage <= 100));
+
+-- Step 3: Verify the migration
+DO $$
+DECLARE
+  expense_count integer;
+BEGIN
+  SELECT COUNT(*) INTO expense_count FROM public.expenses;
+  RAISE NOTICE 'Migration complete: % expenses default to an equal split without payer', expense_count;
+END $$;
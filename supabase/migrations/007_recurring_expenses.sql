@@ -0,0 +1,63 @@
+-- Migration: Recurring expense templates
+-- Fixed expenses are generated from templates (monthly, bimonthly or yearly, like IPVA/IPTU)
+-- instead of being copied from the previous month.
+
+-- Step 1: Templates table
+CREATE TABLE IF NOT EXISTS public.recurring_expenses (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  name text NOT NULL,
+  value numeric DEFAULT 0,
+  category text DEFAULT 'Outros',
+  frequency text NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('monthly', 'bimonthly', 'yearly')),
+  due_day integer NOT NULL DEFAULT 1 CHECK (due_day BETWEEN 1 AND 31), -- clamped to the month's length by the app
+  start_month text NOT NULL, -- YYYY-MM, same format as months.month_code
+  end_month text, -- YYYY-MM, NULL = no end
+  paid_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  split_rule text NOT NULL DEFAULT 'equal' CHECK (split_rule IN ('equal', 'proportional', 'custom', 'single')),
+  split_percentage numeric CHECK (split_percentage IS NULL OR (split_percentage >= 0 AND split_percentage <= 100)),
+  split_member_id uuid REFERENCES auth.users ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_household_id ON public.recurring_expenses(household_id);
+
+-- Step 2: Link generated expenses to their template
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS recurring_id uuid REFERENCES public.recurring_expenses(id) ON DELETE SET NULL;
+
+-- Step 3: RLS scoped to the household
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage recurring expenses" ON public.recurring_expenses;
+CREATE POLICY "Household members can manage recurring expenses"
+  ON public.recurring_expenses FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 4: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'recurring_expenses'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_expenses;
+  END IF;
+END $$;
+
+ALTER TABLE public.recurring_expenses REPLICA IDENTITY FULL;
+
+-- Step 5: Verify the migration
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses' AND column_name = 'recurring_id'
+  ) THEN
+    RAISE NOTICE 'Migration complete: recurring_expenses created and expenses.recurring_id added';
+  ELSE
+    RAISE WARNING 'expenses.recurring_id is missing';
+  END IF;
+END $$;
@@ -0,0 +1,64 @@
+-- Migration: Installment purchases (compras parceladas)
+-- A purchase "parcelado em 10x" generates one linked expense per month.
+
+-- Step 1: Purchases table
+CREATE TABLE IF NOT EXISTS public.installment_purchases (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  name text NOT NULL,
+  total_value numeric NOT NULL DEFAULT 0,
+  installments integer NOT NULL CHECK (installments BETWEEN 1 AND 120),
+  first_month text NOT NULL, -- YYYY-MM, same format as months.month_code
+  due_day integer NOT NULL DEFAULT 1 CHECK (due_day BETWEEN 1 AND 31),
+  category text DEFAULT 'Outros',
+  paid_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  split_rule text NOT NULL DEFAULT 'equal' CHECK (split_rule IN ('equal', 'proportional', 'custom', 'single')),
+  split_percentage numeric CHECK (split_percentage IS NULL OR (split_percentage >= 0 AND split_percentage <= 100)),
+  split_member_id uuid REFERENCES auth.users ON DELETE SET NULL,
+  cancelled_from text, -- YYYY-MM from which the remaining installments were cancelled
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_purchases_household_id ON public.installment_purchases(household_id);
+
+-- Step 2: Link each installment expense to its purchase
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS purchase_id uuid REFERENCES public.installment_purchases(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS installment_number integer,
+ADD COLUMN IF NOT EXISTS installment_count integer;
+
+-- Step 3: RLS scoped to the household
+ALTER TABLE public.installment_purchases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage installment purchases" ON public.installment_purchases;
+CREATE POLICY "Household members can manage installment purchases"
+  ON public.installment_purchases FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 4: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'installment_purchases'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.installment_purchases;
+  END IF;
+END $$;
+
+ALTER TABLE public.installment_purchases REPLICA IDENTITY FULL;
+
+-- Step 5: Verify the migration
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses' AND column_name = 'purchase_id'
+  ) THEN
+    RAISE NOTICE 'Migration complete: installment_purchases created and expenses linked by purchase_id';
+  ELSE
+    RAISE WARNING 'expenses.purchase_id is missing';
+  END IF;
+END $$;
@@ -0,0 +1,55 @@
+-- Migration: Credit cards
+-- Card purchases hit the budget in the month their invoice (fatura) is due,
+-- which depends on the card's closing day and due day.
+
+-- Step 1: Cards table
+CREATE TABLE IF NOT EXISTS public.credit_cards (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  name text NOT NULL,
+  closing_day integer NOT NULL CHECK (closing_day BETWEEN 1 AND 31),
+  due_day integer NOT NULL CHECK (due_day BETWEEN 1 AND 31),
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_cards_household_id ON public.credit_cards(household_id);
+
+-- Step 2: Card used to pay each expense
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS card_id uuid REFERENCES public.credit_cards(id) ON DELETE SET NULL;
+
+-- Step 3: RLS scoped to the household
+ALTER TABLE public.credit_cards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage credit cards" ON public.credit_cards;
+CREATE POLICY "Household members can manage credit cards"
+  ON public.credit_cards FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 4: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'credit_cards'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.credit_cards;
+  END IF;
+END $$;
+
+ALTER TABLE public.credit_cards REPLICA IDENTITY FULL;
+
+-- Step 5: Verify the migration
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses' AND column_name = 'card_id'
+  ) THEN
+    RAISE NOTICE 'Migration complete: credit_cards created and expenses.card_id added';
+  ELSE
+    RAISE WARNING 'expenses.card_id is missing';
+  END IF;
+END $$;
@@ -0,0 +1,22 @@
+-- Migration: Category budgets
+-- Each month keeps its own spending limit per category, e.g. [{"category": "Alimentação", "limit": 1500, "carryOver": true}].
+-- Stored on the month row so budgets are saved and merged together with the month's other fields.
+
+-- Step 1: Budgets column
+ALTER TABLE public.months
+ADD COLUMN IF NOT EXISTS budgets jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Step 2: Constraints
+ALTER TABLE public.months DROP CONSTRAINT IF EXISTS months_budgets_check;
+ALTER TABLE public.months
+ADD CONSTRAINT months_budgets_check
+  CHECK (jsonb_typeof(budgets) = 'array');
+
+-- Step 3: Verify the migration
+DO $$
+DECLARE
+  month_count integer;
+BEGIN
+  SELECT COUNT(*) INTO month_count FROM public.months;
+  RAISE NOTICE 'Migration complete: % months start without category budgets', month_count;
+END $$;
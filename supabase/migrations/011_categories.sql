@@ -0,0 +1,70 @@
+-- Migration: User-defined categories
+-- Each household manages its own categories (colors, icons, one level of subcategories).
+-- Expenses, templates and purchases keep referring to a category by name; the app re-maps
+-- them when a category is renamed or merged, so names are unique per household.
+
+-- Step 1: Categories table
+CREATE TABLE IF NOT EXISTS public.categories (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#64748b',
+  icon text NOT NULL DEFAULT '📦',
+  parent_id uuid REFERENCES public.categories(id) ON DELETE SET NULL,
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE (household_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_household_id ON public.categories(household_id);
+
+-- Step 2: Seed existing households with the default categories plus any name already in use
+INSERT INTO public.categories (household_id, name, color, icon)
+SELECT h.id, d.name, d.color, d.icon
+FROM public.households h
+CROSS JOIN (VALUES
+  ('Casa', '#10b981', '🏠'),
+  ('Alimentação', '#f97316', '🛒'),
+  ('Transporte', '#3b82f6', '🚗'),
+  ('Lazer', '#a855f7', '🎉'),
+  ('Saúde', '#ef4444', '💊'),
+  ('Educação', '#eab308', '📚'),
+  ('Outros', '#64748b', '📦')
+) AS d(name, color, icon)
+ON CONFLICT (household_id, name) DO NOTHING;
+
+INSERT INTO public.categories (household_id, name)
+SELECT DISTINCT household_id, category FROM public.expenses
+WHERE household_id IS NOT NULL AND category IS NOT NULL AND category <> ''
+ON CONFLICT (household_id, name) DO NOTHING;
+
+-- Step 3: RLS scoped to the household
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage categories" ON public.categories;
+CREATE POLICY "Household members can manage categories"
+  ON public.categories FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 4: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'categories'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.categories;
+  END IF;
+END $$;
+
+ALTER TABLE public.categories REPLICA IDENTITY FULL;
+
+-- Step 5: Verify the migration
+DO $$
+DECLARE
+  category_count integer;
+BEGIN
+  SELECT COUNT(*) INTO category_count FROM public.categories;
+  RAISE NOTICE 'Migration complete: % categories seeded', category_count;
+END $$;
@@ -0,0 +1,52 @@
+-- Migration: Savings goals (metas)
+-- Named goals with a target and a deadline. The positive balance of each closed
+-- month can be split across goals; each split is stored in the goal's allocations.
+
+-- Step 1: Goals table
+CREATE TABLE IF NOT EXISTS public.savings_goals (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  name text NOT NULL,
+  target_amount numeric NOT NULL CHECK (target_amount > 0),
+  deadline text NOT NULL, -- YYYY-MM
+  allocations jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{ "monthId": "2025-01", "amount": 500 }]
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_household_id ON public.savings_goals(household_id);
+
+-- Step 2: RLS scoped to the household
+ALTER TABLE public.savings_goals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage savings goals" ON public.savings_goals;
+CREATE POLICY "Household members can manage savings goals"
+  ON public.savings_goals FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 3: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'savings_goals'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.savings_goals;
+  END IF;
+END $$;
+
+ALTER TABLE public.savings_goals REPLICA IDENTITY FULL;
+
+-- Step 4: Verify the migration
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'savings_goals'
+  ) THEN
+    RAISE NOTICE 'Migration complete: savings_goals created';
+  ELSE
+    RAISE WARNING 'savings_goals table is missing';
+  END IF;
+END $$;
@@ -0,0 +1,87 @@
+-- Migration: Caixinha ledger
+-- The Caixinha balance becomes the sum of its movements: month closings, manual
+-- deposits, withdrawals and interest. Months closed before this migration get
+-- their closing entry here, once.
+
+-- Step 1: Ledger table
+CREATE TABLE IF NOT EXISTS public.savings_entries (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  type text NOT NULL CHECK (type IN ('closing', 'deposit', 'withdrawal', 'interest')),
+  amount numeric NOT NULL CHECK (amount > 0), -- Withdrawals are subtracted by the app
+  date date NOT NULL,
+  month_code text, -- YYYY-MM of the closed month, for 'closing' entries
+  description text NOT NULL DEFAULT '',
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_entries_household_id ON public.savings_entries(household_id);
+
+-- A closed month moves the Caixinha once: its closing (or deficit withdrawal) entry
+CREATE UNIQUE INDEX IF NOT EXISTS idx_savings_entries_month_code
+  ON public.savings_entries(household_id, month_code)
+  WHERE month_code IS NOT NULL;
+
+-- Step 2: Backfill months closed before the ledger existed
+-- Same entry the app writes when closing: the balance goes in, a deficit comes out, dated on
+-- the last day of the month. The id is the one the app derives for backfilled entries
+-- (uuid v5 of "household:month"), so running this again or racing the app writes nothing new.
+INSERT INTO public.savings_entries (id, household_id, user_id, type, amount, date, month_code, description)
+SELECT
+  uuid_generate_v5('8a74c1f9-62e1-49cc-b417-e9c55fad9eea'::uuid, m.household_id::text || ':' || m.month_code),
+  m.household_id,
+  NULL,
+  CASE WHEN t.balance > 0 THEN 'closing' ELSE 'withdrawal' END,
+  ABS(t.balance),
+  (to_date(m.month_code || '-01', 'YYYY-MM-DD') + interval '1 month' - interval '1 day')::date,
+  m.month_code,
+  CASE WHEN t.balance > 0 THEN 'Fechamento de ' ELSE 'Déficit de ' END || m.label
+FROM public.months m
+CROSS JOIN LATERAL (
+  SELECT round(
+    COALESCE((SELECT SUM(i.value) FROM public.incomes i WHERE i.month_id = m.id), 0)
+    - COALESCE((SELECT SUM(e.value) FROM public.expenses e WHERE e.month_id = m.id), 0),
+    2
+  ) AS balance
+) t
+WHERE m.closed AND m.household_id IS NOT NULL AND t.balance <> 0
+ON CONFLICT DO NOTHING;
+
+-- Step 3: RLS scoped to the household
+ALTER TABLE public.savings_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage savings entries" ON public.savings_entries;
+CREATE POLICY "Household members can manage savings entries"
+  ON public.savings_entries FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 4: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'savings_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.savings_entries;
+  END IF;
+END $$;
+
+ALTER TABLE public.savings_entries REPLICA IDENTITY FULL;
+
+-- Step 5: Verify the migration
+DO $$
+DECLARE
+  closing_count integer;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'savings_entries'
+  ) THEN
+    SELECT COUNT(*) INTO closing_count FROM public.savings_entries WHERE month_code IS NOT NULL;
+    RAISE NOTICE 'Migration complete: savings_entries created, % closed months in the ledger', closing_count;
+  ELSE
+    RAISE WARNING 'savings_entries table is missing';
+  END IF;
+END $$;
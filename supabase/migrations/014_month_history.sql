@@ -0,0 +1,22 @@
+-- Migration: Month lifecycle history
+-- Months go open → closed → reopened. Each closing and reopening is kept on the month row,
+-- e.g. [{"action": "closed", "at": "2025-02-01T10:00:00Z", "by": "<user id>", "balance": 850}].
+
+-- Step 1: History column
+ALTER TABLE public.months
+ADD COLUMN IF NOT EXISTS history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Step 2: Constraints
+ALTER TABLE public.months DROP CONSTRAINT IF EXISTS months_history_check;
+ALTER TABLE public.months
+ADD CONSTRAINT months_history_check
+  CHECK (jsonb_typeof(history) = 'array');
+
+-- Step 3: Verify the migration
+DO $$
+DECLARE
+  closed_count integer;
+BEGIN
+  SELECT COUNT(*) INTO closed_count FROM public.months WHERE closed;
+  RAISE NOTICE 'Migration complete: % closed months start without history', closed_count;
+END $$;
@@ -0,0 +1,26 @@
+-- Migration: Bank statement import
+-- Expenses imported from an OFX/CSV statement keep the id of the statement transaction
+-- (the OFX FITID, or a fingerprint of date, amount and description for CSV files)
+-- so importing the same statement again skips what is already there.
+
+-- Step 1: Import id column
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS import_id text;
+
+-- Step 2: Lookup by household and import id
+CREATE INDEX IF NOT EXISTS idx_expenses_import_id
+  ON public.expenses(household_id, import_id)
+  WHERE import_id IS NOT NULL;
+
+-- Step 3: Verify the migration
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'expenses' AND column_name = 'import_id'
+  ) THEN
+    RAISE NOTICE 'Migration complete: expenses.import_id added';
+  ELSE
+    RAISE WARNING 'expenses.import_id is missing';
+  END IF;
+END $$;
@@ -0,0 +1,56 @@
+-- Migration: Categorization rules
+-- Rules pick the category (and type) of an expense from its name and value, e.g.
+-- "name contains uber" -> Transporte. They are typed in the rules screen or learned
+-- from the categories the couple picks by hand.
+
+-- Step 1: Rules table
+CREATE TABLE IF NOT EXISTS public.category_rules (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users DEFAULT auth.uid(),
+  match_type text NOT NULL CHECK (match_type IN ('contains', 'regex')),
+  pattern text NOT NULL,
+  min_value numeric,
+  max_value numeric,
+  category text NOT NULL, -- Category name, like expenses.category
+  expense_type text CHECK (expense_type IS NULL OR expense_type IN ('fixed', 'variable')),
+  learned boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_household_id ON public.category_rules(household_id);
+
+-- Step 2: RLS scoped to the household
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Household members can manage category rules" ON public.category_rules;
+CREATE POLICY "Household members can manage category rules"
+  ON public.category_rules FOR ALL
+  USING (public.is_household_member(household_id))
+  WITH CHECK (public.is_household_member(household_id));
+
+-- Step 3: Realtime (see 003_realtime.sql)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'category_rules'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.category_rules;
+  END IF;
+END $$;
+
+ALTER TABLE public.category_rules REPLICA IDENTITY FULL;
+
+-- Step 4: Verify the migration
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'category_rules'
+  ) THEN
+    RAISE NOTICE 'Migration complete: category_rules created';
+  ELSE
+    RAISE WARNING 'category_rules table is missing';
+  END IF;
+END $$;
@@ -1,5 +1,14 @@
 export type ExpenseType = 'fixed' | 'variable';
 
+// How the cost of an expense is shared between the partners
+export type SplitRule = 'equal' | 'proportional' | 'custom' | 'single';
+
+export interface ExpenseSplit {
+  rule: SplitRule;
+  percentage?: number; // 'custom': share (0-100) owed by whoever paid
+  memberId?: string; // 'single': the partner who owes 100%
+}
+
 export interface Expense {
   id: string;
   name: string;
@@ -7,15 +16,221 @@ export interface Expense {
   category: string;
   date: string; // ISO string YYYY-MM-DD
   type: ExpenseType;
+  paidBy?: string | null; // HouseholdMember.userId, empty when paid from a joint account
+  split?: ExpenseSplit; // Defaults to equal
+  recurringId?: string; // RecurringExpense this expense was generated from
+  installment?: ExpenseInstallment; // Set when the expense is one installment of a purchase
+  cardId?: string; // CreditCard it was paid with; the expense then lives in the month the invoice is due
+  importId?: string; // Statement transaction it was imported from, to skip it when re-imported
+  version?: number; // Server row version (undefined until first saved)
+}
+
+export interface ExpenseInstallment {
+  purchaseId: string; // InstallmentPurchase it belongs to
+  number: number; // 1-based ("parcela 3/10" = 3)
+  total: number;
+}
+
+// Purchase paid in installments ("parcelado em 10x"), one expense per month
+export interface InstallmentPurchase {
+  id: string;
+  name: string;
+  totalValue: number;
+  installments: number;
+  firstMonth: string; // YYYY-MM of the first installment
+  dueDay: number; // Day each installment is charged, clamped to the length of each month
+  category: string;
+  paidBy?: string | null;
+  split?: ExpenseSplit;
+  cancelledFrom: string | null; // YYYY-MM from which the remaining installments were cancelled
+}
+
+export interface CreditCard {
+  id: string;
+  name: string; // e.g. Nubank, Itaú Visa
+  closingDay: number; // Purchases after this day go to the next invoice
+  dueDay: number; // Day the invoice is paid
+}
+
+// A card's fatura: the card expenses stored in the month the invoice is due
+export interface CardInvoice {
+  cardId: string;
+  closingDate: string; // YYYY-MM-DD
+  dueDate: string; // YYYY-MM-DD
+  expenses: Expense[];
+  total: number;
+}
+
+export type RecurrenceFrequency = 'monthly' | 'bimonthly' | 'yearly';
+
+// Template that generates a fixed expense in every month it is due (rent, internet, IPVA...)
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  value: number;
+  category: string;
+  frequency: RecurrenceFrequency;
+  dueDay: number; // 1-31, clamped to the length of each month
+  startMonth: string; // YYYY-MM of the first occurrence
+  endMonth: string | null; // YYYY-MM of the last possible occurrence, null = no end
+  paidBy?: string | null;
+  split?: ExpenseSplit;
+}
+
+export type IncomeType = 'salary' | 'extra' | 'benefit';
+
+export interface Income {
+  id: string;
+  name: string; // e.g. Salário, 13º, Freela
+  value: number;
+  type: IncomeType;
+  memberId: string | null; // HouseholdMember.userId, null when not assigned to a partner
+  receivedDate: string; // ISO string YYYY-MM-DD
+  version?: number; // Server row version (undefined until first saved)
 }
 
 export interface MonthData {
   id: string; // Format: YYYY-MM
   label: string; // Format: Janeiro 2025
-  salary1: number;
-  salary2: number;
+  incomes: Income[];
   expenses: Expense[];
-  closed: boolean; // If true, balance was sent to Caixinha
+  closed: boolean; // If true, balance was sent to Caixinha and the month is locked against edits
+  budgets?: CategoryBudget[]; // Spending limits of this month
+  history?: MonthEvent[]; // Closings and reopenings, oldest first
+  version?: number; // Server row version (undefined until first saved)
+}
+
+export type RuleMatchType = 'contains' | 'regex';
+
+// Picks the category (and type) of an expense from its name and value
+export interface CategoryRule {
+  id: string;
+  matchType: RuleMatchType;
+  pattern: string; // Text the name contains, or a regular expression (case-insensitive)
+  minValue: number | null;
+  maxValue: number | null;
+  category: string;
+  type: ExpenseType | null; // Used by statement imports; null = variable
+  learned: boolean; // Created from a manual choice rather than typed in the rules screen
+}
+
+// open → closed → reopened (→ closed again...)
+export type MonthStatus = 'open' | 'closed' | 'reopened';
+
+// Audit trail entry of a month closing or reopening
+export interface MonthEvent {
+  action: 'closed' | 'reopened';
+  at: string; // ISO timestamp
+  by: string | null; // User id
+  balance: number; // Month balance at the time (negative = deficit drawn from the Caixinha)
+}
+
+// Expense category defined by the household. Expenses, templates and budgets refer to it by name,
+// so names are unique per household and renaming one rewrites the records that use it.
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // Hex color, e.g. #10b981
+  icon: string; // Emoji
+  parentId: string | null; // Set for subcategories (one level only)
+  archived: boolean; // Hidden from pickers, kept for old expenses
+}
+
+// Month spending of a top-level category (subcategories included)
+export interface CategorySpending {
+  category: string;
+  color: string;
+  icon: string;
+  fixed: number;
+  variable: number;
+  total: number;
+  percentage: number; // Share of the month's expenses, 0-100
+}
+
+// Totals of one month in a report
+export interface MonthTrend {
+  monthId: string;
+  label: string; // Short label, e.g. Jan/25
+  income: number;
+  fixed: number;
+  variable: number;
+  balance: number;
+}
+
+// Spending per top-level category of one month in a report
+export interface CategoryTrendPoint {
+  monthId: string;
+  label: string;
+  values: Record<string, number>; // category -> total
+}
+
+export interface YearOverYearRow {
+  label: string; // Totals line (Renda, Fixas...) or category name
+  current: number;
+  previous: number;
+  change: number | null; // % change, null when the earlier month was zero
+}
+
+export interface YearOverYear {
+  monthId: string;
+  previousMonthId: string;
+  totals: YearOverYearRow[];
+  categories: YearOverYearRow[];
+}
+
+export type SavingsEntryType = 'closing' | 'deposit' | 'withdrawal' | 'interest';
+
+// A movement of the Caixinha; the balance is the sum of the ledger
+export interface SavingsEntry {
+  id: string;
+  type: SavingsEntryType;
+  amount: number; // Always positive; withdrawals are subtracted from the balance
+  date: string; // YYYY-MM-DD
+  monthId?: string; // Month whose balance was saved, for 'closing' entries
+  description: string;
+}
+
+export interface SavingsHistoryRow {
+  entry: SavingsEntry;
+  balance: number; // Caixinha balance right after this entry
+}
+
+// Part of a closed month's balance set aside for a goal
+export interface GoalAllocation {
+  monthId: string; // Closed month the money came from
+  amount: number;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string; // e.g. Viagem, Reserva de emergência
+  targetAmount: number;
+  deadline: string; // YYYY-MM
+  allocations: GoalAllocation[];
+}
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  percentage: number; // 0-100
+  monthsLeft: number; // Months until the deadline, counting the current one (0 = deadline passed)
+  monthlyContribution: number; // Needed each month to reach the target in time
+}
+
+export interface CategoryBudget {
+  category: string;
+  limit: number;
+  carryOver: boolean; // Copied to the next month when it is created
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+export interface BudgetStatus {
+  category: string;
+  limit: number;
+  spent: number;
+  percentage: number; // spent / limit, 0-100+
+  level: BudgetLevel;
 }
 
 export interface AppState {
@@ -26,10 +241,23 @@ export interface AppState {
 export enum ViewState {
   MONTH_SELECTION = 'MONTH_SELECTION',
   DASHBOARD = 'DASHBOARD',
-  SALARIES = 'SALARIES',
+  INCOMES = 'INCOMES',
   EXPENSES_FIXED = 'EXPENSES_FIXED',
   EXPENSES_VARIABLE = 'EXPENSES_VARIABLE',
+  SETTLEMENT = 'SETTLEMENT',
+  FAIR_SPLIT = 'FAIR_SPLIT',
+  RECURRING = 'RECURRING',
+  INSTALLMENTS = 'INSTALLMENTS',
+  INVOICES = 'INVOICES',
+  CATEGORIES = 'CATEGORIES',
+  IMPORT = 'IMPORT',
+  RULES = 'RULES',
+  REPORTS = 'REPORTS',
+  MONTH_REPORT = 'MONTH_REPORT',
+  SEARCH = 'SEARCH',
   CAIXINHA = 'CAIXINHA',
+  HOUSEHOLD = 'HOUSEHOLD',
+  BACKUP = 'BACKUP',
 }
 
 export interface User {
@@ -38,3 +266,80 @@ export interface User {
   email: string;
   avatar?: string;
 }
+
+export type HouseholdRole = 'owner' | 'member';
+
+export interface HouseholdMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: HouseholdRole;
+}
+
+// The couple: every month and expense belongs to a household shared by its members
+export interface Household {
+  id: string;
+  name: string;
+  inviteCode: string;
+  members: HouseholdMember[];
+}
+
+// --- Settlement ("quem deve para quem") ---
+
+export interface MemberBalance {
+  memberId: string;
+  paid: number; // What this partner paid out of pocket
+  share: number; // What this partner should have paid according to the split rules
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  value: number;
+}
+
+export interface Settlement {
+  members: MemberBalance[];
+  transfers: Transfer[];
+  unattributed: number; // Expenses without a payer (joint account), left out of the settlement
+}
+
+// --- Fair split of fixed costs (contributions to a joint account) ---
+
+export type FairSplitRule = 'equal' | 'proportional' | 'allowance';
+
+export interface FairSplitConfig {
+  rule: FairSplitRule;
+  allowances: Record<string, number>; // 'allowance': amount each member keeps for themselves, by userId
+}
+
+export interface FairShare {
+  memberId: string;
+  income: number;
+  percentage: number; // 0-100
+  contribution: number; // What this partner should transfer to the joint account
+}
+
+// --- Save conflicts (optimistic concurrency) ---
+
+// Month-level fields that are merged as a unit
+export type MonthFields = Pick<MonthData, 'closed' | 'budgets' | 'history'>;
+
+// Both sides changed the same item differently. `null` means that side deleted it.
+export interface ItemConflict<T> {
+  id: string;
+  local: T | null;
+  remote: T | null;
+}
+
+export type ExpenseConflict = ItemConflict<Expense>;
+export type IncomeConflict = ItemConflict<Income>;
+
+export interface MonthFieldsConflict {
+  local: MonthFields;
+  remote: MonthFields;
+}
+
+export type SaveMonthResult =
+  | { status: 'saved'; month: MonthData }
+  | { status: 'conflict'; month: MonthData; expenses: ExpenseConflict[]; incomes: IncomeConflict[]; monthFields?: MonthFieldsConflict };